@@ -1,76 +1,130 @@
-import React, { useState } from 'react';
-import { CarDetails, ValuationResult } from './types';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { AuthUser, CarDetails, HistoricalRecord, ValuationResult, ValuationUsage } from './types';
 import CarForm from './components/CarForm';
 import HistoryUpload from './components/HistoryUpload';
 import ValuationResultView from './components/ValuationResult';
 import AuthGate from './components/AuthGate';
 import TokenUsage from './components/TokenUsage';
-import { analyzeCarValue } from './services/geminiService';
-import { clearSecureData } from './utils/encryption';
-import { useSessionTimeout } from './hooks/useSessionTimeout';
-import { Zap, AlertTriangle, Clock } from 'lucide-react';
+import ComparablesPanel from './components/ComparablesPanel';
+import ValuationLog from './components/ValuationLog';
+import AccuracyDashboard from './components/AccuracyDashboard';
+import AuditLogView from './components/AuditLogView';
+import CacheInspector from './components/CacheInspector';
+import { AnalyzeOptions, analyzeCarValue } from './services/geminiService';
+import { MalformedValuationError, ValuationCancelledError, ValuationError } from './services/errors';
+import { resetSessionUsage } from './services/usageService';
+import { isEncryptionUnlocked } from './utils/encryption';
+import { secureWipe } from './utils/secureStorage';
+import { formatCacheAge } from './utils/cacheManager';
+import { ComparablesEstimate, estimateFromHistory } from './utils/comparables';
+import { ValuationLogEntry, addValuationLogEntry, listValuationLog } from './utils/valuationLog';
+import { buildAccuracySummary, outcomesToHistory } from './utils/dealOutcomes';
+import { ROLE_LABELS, can } from './utils/permissions';
+import { sessionPolicyFor } from './utils/sessionPolicy';
+import { Zap, AlertTriangle, RefreshCw } from 'lucide-react';
 
 export default function App() {
-  const [historyData, setHistoryData] = useState<string>('');
+  const [currentUser, setCurrentUser] = useState<AuthUser | null>(null);
+  const [historyData, setHistoryData] = useState<HistoricalRecord[]>([]);
   const [valuationResult, setValuationResult] = useState<ValuationResult | null>(null);
+  const [resultCar, setResultCar] = useState<CarDetails | null>(null); // Car behind valuationResult, for a live refresh
+  const [historyEstimate, setHistoryEstimate] = useState<ComparablesEstimate | null>(null);
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
-  const [showTimeoutWarning, setShowTimeoutWarning] = useState(false);
+  const [formCar, setFormCar] = useState<{ car: CarDetails; key: number } | null>(null);
+  const [logVersion, setLogVersion] = useState(0);
+  const [logEntries, setLogEntries] = useState<ValuationLogEntry[]>([]);
+  const [lastUsage, setLastUsage] = useState<ValuationUsage | null>(null);
+  const [usageVersion, setUsageVersion] = useState(0);
+  const analysisRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    if (!currentUser || !isEncryptionUnlocked()) return;
+    listValuationLog({ owner: currentUser.username })
+      .then(setLogEntries)
+      .catch(err => console.error('Failed to load valuation log:', err));
+  }, [logVersion, currentUser]);
+
+  const canViewMargins = can(currentUser, 'view_margins');
+  const canRefreshCache = can(currentUser, 'refresh_cache');
+
+  // Deals we bought through the app count as history alongside the uploaded sheet
+  const combinedHistory = useMemo(
+    () => [...historyData, ...outcomesToHistory(logEntries)],
+    [historyData, logEntries]
+  );
+  const hasOutcomes = logEntries.some(entry => entry.outcome);
 
   const handleLogout = () => {
+    analysisRef.current?.abort();
     // Clear all sensitive data
-    setHistoryData('');
+    setCurrentUser(null);
+    setHistoryData([]);
     setValuationResult(null);
+    setResultCar(null);
+    setHistoryEstimate(null);
     setError(null);
-    clearSecureData();
-  };
-
-  const handleTimeout = () => {
-    handleLogout();
-    alert('Session expired due to inactivity. Please login again.');
-    window.location.reload();
-  };
-
-  const handleTimeoutWarning = () => {
-    setShowTimeoutWarning(true);
-    setTimeout(() => setShowTimeoutWarning(false), 10000); // Hide after 10 seconds
+    setLogEntries([]);
+    setLastUsage(null);
+    resetSessionUsage();
+    return secureWipe().catch(err => console.error('Secure wipe failed:', err));
   };
 
-  // Session timeout: 15 minutes with 2-minute warning
-  useSessionTimeout({
-    timeoutMinutes: 15,
-    warningMinutes: 2,
-    onTimeout: handleTimeout,
-    onWarning: handleTimeoutWarning,
-  });
-
-  const handleAnalyze = async (carData: CarDetails) => {
+  const handleAnalyze = async (carData: CarDetails, options: Pick<AnalyzeOptions, 'bypassCache'> = {}) => {
+    analysisRef.current?.abort();
+    const controller = new AbortController();
+    analysisRef.current = controller;
     setIsLoading(true);
     setValuationResult(null);
     setError(null);
+    // Our own comparables are available instantly, before the market search returns
+    setHistoryEstimate(combinedHistory.length > 0 ? estimateFromHistory(combinedHistory, carData) : null);
     try {
-      const result = await analyzeCarValue(carData, historyData);
+      const result = await analyzeCarValue(carData, combinedHistory, { ...options, signal: controller.signal });
       setValuationResult(result);
+      setResultCar(carData);
+      setLastUsage(result.usage || null);
+      try {
+        await addValuationLogEntry(carData, result, currentUser!);
+        setLogVersion(v => v + 1);
+      } catch (logError) {
+        // The quote itself succeeded; losing the log entry should not hide it
+        console.error('Failed to save valuation to log:', logError);
+      }
     } catch (err: any) {
-      setError(err.message || 'Something went wrong during analysis.');
+      if (err instanceof ValuationCancelledError) {
+        setHistoryEstimate(null);
+        return;
+      }
+      if (err instanceof MalformedValuationError) {
+        console.error('Valuation validation issues:', err.issues);
+      }
+      setError(err instanceof ValuationError ? err.message : 'Something went wrong during analysis.');
     } finally {
-      setIsLoading(false);
+      if (analysisRef.current === controller) {
+        analysisRef.current = null;
+        setIsLoading(false);
+      }
+      setUsageVersion(v => v + 1);
     }
   };
 
+  const handleOpenLogEntry = (entry: ValuationLogEntry) => {
+    setFormCar({ car: entry.car, key: Date.now() });
+    setValuationResult(entry.result);
+    setResultCar(null);
+    setHistoryEstimate(combinedHistory.length > 0 ? estimateFromHistory(combinedHistory, entry.car) : null);
+    setError(null);
+  };
+
+  const handleRerun = (car: CarDetails, options: Pick<AnalyzeOptions, 'bypassCache'> = {}) => {
+    setFormCar({ car, key: Date.now() });
+    handleAnalyze(car, options);
+  };
+
   return (
-    <AuthGate onLogout={handleLogout}>
+    <AuthGate onLogin={setCurrentUser} onLogout={handleLogout}>
       <div className="min-h-screen pb-12">
-        {/* Timeout Warning */}
-        {showTimeoutWarning && (
-          <div className="fixed top-4 left-1/2 transform -translate-x-1/2 z-50 animate-in slide-in-from-top">
-            <div className="bg-amber-500 text-white px-6 py-3 rounded-lg shadow-lg flex items-center space-x-3">
-              <Clock className="w-5 h-5" />
-              <span className="font-medium">Session will expire in 2 minutes due to inactivity</span>
-            </div>
-          </div>
-        )}
-
         {/* Header */}
         <header className="bg-white border-b border-gray-200 sticky top-0 z-10">
           <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 h-16 flex items-center justify-between">
@@ -82,8 +136,15 @@ export default function App() {
               AutoValuate<span className="font-light text-gray-400">Pro India</span>
             </h1>
           </div>
-          <div className="text-xs font-medium text-gray-500 bg-gray-100 px-3 py-1 rounded-full">
-            Beta v1.2 (India)
+          <div className="flex items-center space-x-3">
+            {currentUser && (
+              <span className="text-xs text-gray-600">
+                {currentUser.name} <span className="text-gray-400">• {ROLE_LABELS[currentUser.role]}</span>
+              </span>
+            )}
+            <div className="text-xs font-medium text-gray-500 bg-gray-100 px-3 py-1 rounded-full">
+              Beta v1.2 (India)
+            </div>
           </div>
         </div>
       </header>
@@ -96,21 +157,19 @@ export default function App() {
             <div>
               <h3 className="text-sm font-bold text-blue-800 mb-1">Data Privacy & Security</h3>
               <p className="text-xs text-blue-700 leading-relaxed">
-                Your business data is encrypted and protected. We only send anonymized insights to the AI 
-                (not raw prices/margins). All data is cleared when you logout or close your browser. 
-                Session auto-expires after 15 minutes of inactivity.
+                Sales history, cached results and saved valuations are stored on this device only, encrypted with
+                AES-256-GCM using a key derived from your login password and kept in memory only. History and
+                cache are wiped on logout; saved valuations stay encrypted until you delete them.
+                We only send anonymized insights to the AI (not raw prices/margins). After
+                {currentUser ? ` ${sessionPolicyFor(currentUser).timeoutMinutes}` : ''} minutes of inactivity
+                across all open tabs the session locks and the key is dropped until you re-enter your password.
               </p>
             </div>
           </div>
         </div>
 
-        {/* Token Usage Optimization Display */}
-        {historyData && (
-          <TokenUsage 
-            estimatedTokens={1500} 
-            isCached={false}
-          />
-        )}
+        {/* Model usage and cost */}
+        {currentUser && <TokenUsage usage={lastUsage} refreshKey={usageVersion} />}
 
         <div className="grid grid-cols-1 lg:grid-cols-12 gap-8">
           
@@ -123,8 +182,35 @@ export default function App() {
               </p>
             </div>
             
-            <HistoryUpload onDataChange={setHistoryData} />
-            <CarForm onSubmit={handleAnalyze} isLoading={isLoading} />
+            {can(currentUser, 'upload_history') && <HistoryUpload onDataChange={setHistoryData} />}
+            <CarForm
+              key={formCar?.key}
+              initialData={formCar?.car}
+              onSubmit={car => handleAnalyze(car)}
+              onCancel={() => analysisRef.current?.abort()}
+              isLoading={isLoading}
+            />
+            {currentUser && (
+              <ValuationLog
+                user={currentUser}
+                refreshKey={logVersion}
+                onOpen={handleOpenLogEntry}
+                onRerun={car => handleRerun(car)}
+                onChange={() => setLogVersion(v => v + 1)}
+                isLoading={isLoading}
+              />
+            )}
+            {currentUser && (
+              <CacheInspector
+                history={combinedHistory}
+                refreshKey={usageVersion}
+                onRefresh={canRefreshCache ? car => handleRerun(car, { bypassCache: true }) : undefined}
+                isLoading={isLoading}
+                canEditRules={can(currentUser, 'manage_cache_rules')}
+              />
+            )}
+            {hasOutcomes && <AccuracyDashboard summary={buildAccuracySummary(logEntries)} />}
+            {can(currentUser, 'view_audit_log') && <AuditLogView />}
           </div>
 
           {/* Right Column: Output */}
@@ -156,8 +242,33 @@ export default function App() {
                </div>
             )}
 
+            {valuationResult?.usage?.cacheHit && resultCar && !isLoading && (
+              <div className="bg-green-50 border border-green-200 rounded-lg px-4 py-2 mb-4 flex items-center justify-between text-sm text-green-800">
+                <span>
+                  Served from cache
+                  {valuationResult.usage.cachedAt ? ` (fetched ${formatCacheAge(Date.now() - valuationResult.usage.cachedAt)})` : ''}
+                  , no model call.
+                </span>
+                {canRefreshCache && (
+                  <button
+                    onClick={() => handleAnalyze(resultCar, { bypassCache: true })}
+                    className="flex items-center space-x-1 font-medium text-green-700 hover:text-green-900"
+                  >
+                    <RefreshCw className="w-4 h-4" />
+                    <span>Refresh live</span>
+                  </button>
+                )}
+              </div>
+            )}
+
             {valuationResult && (
-              <ValuationResultView result={valuationResult} />
+              <ValuationResultView result={valuationResult} showMargins={canViewMargins} />
+            )}
+
+            {historyEstimate && canViewMargins && (
+              <div className={valuationResult ? 'mt-6' : 'mb-6'}>
+                <ComparablesPanel estimate={historyEstimate} />
+              </div>
             )}
             
             {/* Loading Skeleton */}
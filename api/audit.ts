@@ -0,0 +1,14 @@
+/**
+ * Vercel function: GET/POST /api/audit
+ * See server/auditHandler.ts
+ */
+
+import { handleAudit } from '../server/auditHandler';
+
+export function GET(request: Request): Promise<Response> {
+  return handleAudit(request);
+}
+
+export function POST(request: Request): Promise<Response> {
+  return handleAudit(request);
+}
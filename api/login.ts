@@ -0,0 +1,10 @@
+/**
+ * Vercel function: POST /api/login
+ * See server/loginHandler.ts
+ */
+
+import { handleLogin } from '../server/loginHandler';
+
+export function POST(request: Request): Promise<Response> {
+  return handleLogin(request);
+}
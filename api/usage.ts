@@ -0,0 +1,10 @@
+/**
+ * Vercel function: GET /api/usage
+ * See server/usageHandler.ts
+ */
+
+import { handleUsage } from '../server/usageHandler';
+
+export function GET(request: Request): Promise<Response> {
+  return handleUsage(request);
+}
@@ -0,0 +1,10 @@
+/**
+ * Vercel function: POST /api/valuate
+ * Holds GEMINI_API_KEY server-side; see server/valuateHandler.ts
+ */
+
+import { handleValuate } from '../server/valuateHandler';
+
+export function POST(request: Request): Promise<Response> {
+  return handleValuate(request);
+}
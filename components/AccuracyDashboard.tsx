@@ -0,0 +1,93 @@
+import React from 'react';
+import { Target } from 'lucide-react';
+import { AccuracySummary } from '../utils/dealOutcomes';
+
+interface AccuracyDashboardProps {
+  summary: AccuracySummary;
+}
+
+const formatLakhs = (value: number) => `₹${(value / 100000).toFixed(2)}L`;
+
+const formatPct = (value: number | null, signed = false) =>
+  value === null ? '—' : `${signed && value > 0 ? '+' : ''}${value.toFixed(1)}%`;
+
+const POSITION_STYLES = {
+  below: 'text-blue-600',
+  within: 'text-emerald-600',
+  above: 'text-red-600',
+};
+
+const AccuracyDashboard: React.FC<AccuracyDashboardProps> = ({ summary }) => {
+  const { counts, samples } = summary;
+
+  return (
+    <div className="bg-white rounded-2xl p-6 shadow-sm border border-gray-100">
+      <div className="flex items-center space-x-2 mb-4">
+        <Target className="w-5 h-5 text-indigo-600" />
+        <h3 className="text-lg font-bold text-gray-800">Quote Accuracy</h3>
+      </div>
+
+      <div className="grid grid-cols-4 gap-2 mb-4 text-center">
+        {(['bought', 'lost', 'passed', 'open'] as const).map(status => (
+          <div key={status} className="bg-gray-50 rounded-lg p-2">
+            <span className="block text-lg font-bold text-gray-800">{counts[status]}</span>
+            <span className="text-xs text-gray-500 capitalize">{status}</span>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-3 gap-2 mb-4">
+        <div>
+          <span className="block text-xs text-gray-500 uppercase">In band</span>
+          <span className="text-xl font-bold text-emerald-600">{formatPct(summary.withinBandPct)}</span>
+        </div>
+        <div>
+          <span className="block text-xs text-gray-500 uppercase">Avg bias</span>
+          <span className="text-xl font-bold text-gray-800">{formatPct(summary.meanDeviationPct, true)}</span>
+        </div>
+        <div>
+          <span className="block text-xs text-gray-500 uppercase">Avg error</span>
+          <span className="text-xl font-bold text-gray-800">{formatPct(summary.meanAbsDeviationPct)}</span>
+        </div>
+      </div>
+      <p className="text-xs text-gray-500 mb-4">
+        Bias compares the real price with the middle of our quoted band across {samples.length} bought or lost deal
+        {samples.length === 1 ? '' : 's'}. Positive means cars traded above our quote.
+        {summary.resaleSamples > 0 && (
+          <> Resale vs quoted market price: {formatPct(summary.resaleDeviationPct, true)} over {summary.resaleSamples} sale{summary.resaleSamples === 1 ? '' : 's'}.</>
+        )}
+      </p>
+
+      {samples.length > 0 && (
+        <div className="overflow-x-auto custom-scrollbar max-h-60">
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-left text-gray-500 border-b border-gray-100">
+                <th className="py-1 pr-2">Car</th>
+                <th className="py-1 pr-2">Outcome</th>
+                <th className="py-1 pr-2 text-right">Quoted</th>
+                <th className="py-1 text-right">Actual</th>
+              </tr>
+            </thead>
+            <tbody>
+              {samples.map(sample => (
+                <tr key={sample.entryId} className="border-b border-gray-50">
+                  <td className="py-1.5 pr-2 text-gray-800">{sample.label}</td>
+                  <td className="py-1.5 pr-2 text-gray-600 capitalize">{sample.status}</td>
+                  <td className="py-1.5 pr-2 text-right text-gray-600 whitespace-nowrap">
+                    {formatLakhs(sample.quotedMin)} - {formatLakhs(sample.quotedMax)}
+                  </td>
+                  <td className={`py-1.5 text-right font-medium whitespace-nowrap ${POSITION_STYLES[sample.position]}`}>
+                    {formatLakhs(sample.actualPrice)} ({formatPct(sample.deviationPct, true)})
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AccuracyDashboard;
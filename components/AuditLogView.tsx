@@ -0,0 +1,244 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ClipboardList, Download, ShieldAlert, ShieldCheck } from 'lucide-react';
+import { AuditAction, AuditEvent } from '../types';
+import { fetchAuditLog } from '../services/auditService';
+import { toCsv } from '../utils/csvParser';
+
+const ACTION_LABELS: Record<AuditAction, string> = {
+  login: 'Login',
+  logout: 'Logout',
+  valuation: 'Valuation',
+  history_loaded: 'History loaded',
+  history_cleared: 'History cleared',
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const formatLakhs = (value: number) => `₹${(value / 100000).toFixed(2)}L`;
+
+function summarise(event: AuditEvent): string {
+  const d = event.details;
+  switch (event.action) {
+    case 'valuation':
+      if (d.error) return `${d.car} • failed (${d.error})`;
+      return `${d.car} • ${formatLakhs(Number(d.priceMin))} - ${formatLakhs(Number(d.priceMax))}${d.cached ? ' (cached)' : ''}`;
+    case 'history_loaded':
+      return `${d.rows} rows from ${d.fileName || d.source}`;
+    case 'history_cleared':
+      return `${d.rows} rows cleared`;
+    case 'logout':
+      if (d.reason === 'timeout') return 'Session timed out';
+      return d.reason === 'other_tab' ? 'Signed out in another tab' : '';
+    default:
+      return '';
+  }
+}
+
+function download(fileName: string, content: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+const AuditLogView: React.FC = () => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [events, setEvents] = useState<AuditEvent[]>([]);
+  const [brokenAt, setBrokenAt] = useState<number | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [userFilter, setUserFilter] = useState('');
+  const [actionFilter, setActionFilter] = useState<AuditAction | ''>('');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [minPrice, setMinPrice] = useState('');
+
+  useEffect(() => {
+    if (!isExpanded) return;
+    fetchAuditLog()
+      .then(log => {
+        setEvents(log.events);
+        setBrokenAt(log.brokenAt);
+        setLoadError(null);
+      })
+      .catch(error => setLoadError(error.message));
+  }, [isExpanded]);
+
+  const users = useMemo(() => [...new Set(events.map(e => e.user.username))].sort(), [events]);
+
+  const filtered = useMemo(() => {
+    const from = fromDate ? new Date(fromDate).getTime() : undefined;
+    const to = toDate ? new Date(toDate).getTime() + DAY_MS - 1 : undefined;
+    const min = minPrice ? Number(minPrice) : undefined;
+
+    return events
+      .filter(e => !userFilter || e.user.username === userFilter)
+      .filter(e => !actionFilter || e.action === actionFilter)
+      .filter(e => from === undefined || e.timestamp >= from)
+      .filter(e => to === undefined || e.timestamp <= to)
+      // High-value quotes: the top of the quoted band is at or above the threshold
+      .filter(e => min === undefined || (e.action === 'valuation' && Number(e.details.priceMax) >= min))
+      .sort((a, b) => b.seq - a.seq);
+  }, [events, userFilter, actionFilter, fromDate, toDate, minPrice]);
+
+  const exportJson = () => {
+    download('audit-log.json', JSON.stringify(filtered, null, 2), 'application/json');
+  };
+
+  const exportCsv = () => {
+    const detailKeys = [...new Set(filtered.flatMap(e => Object.keys(e.details)))].sort();
+    const rows = [
+      ['seq', 'timestamp', 'username', 'name', 'role', 'action', ...detailKeys, 'hash'],
+      ...filtered.map(e => [
+        e.seq,
+        new Date(e.timestamp).toISOString(),
+        e.user.username,
+        e.user.name,
+        e.user.role,
+        e.action,
+        ...detailKeys.map(key => e.details[key]),
+        e.hash,
+      ]),
+    ];
+    download('audit-log.csv', toCsv(rows), 'text/csv');
+  };
+
+  const inputClass = 'w-full mt-1 px-2 py-1.5 border border-gray-300 rounded-lg text-sm bg-white';
+
+  return (
+    <div className="bg-white p-6 rounded-2xl shadow-sm border border-gray-100">
+      <div
+        className="flex items-center justify-between cursor-pointer"
+        onClick={() => setIsExpanded(!isExpanded)}
+      >
+        <div className="flex items-center space-x-2">
+          <ClipboardList className="text-indigo-600 w-6 h-6" />
+          <div>
+            <h2 className="text-xl font-semibold text-gray-800">Audit Log</h2>
+            <p className="text-xs text-gray-500">Who quoted what, and who touched business data</p>
+          </div>
+        </div>
+        <button className="text-gray-400 hover:text-orange-600 transition-colors text-sm font-medium">
+          {isExpanded ? 'Hide' : 'Expand'}
+        </button>
+      </div>
+
+      {isExpanded && (
+        <div className="mt-4 space-y-3 animate-in fade-in slide-in-from-top-2 duration-300">
+          {loadError ? (
+            <p className="text-xs text-red-600">{loadError}</p>
+          ) : brokenAt !== null ? (
+            <div className="flex items-center text-xs text-red-700 bg-red-50 p-2 rounded">
+              <ShieldAlert className="w-4 h-4 mr-2" />
+              Integrity check failed at event #{brokenAt}: the log has been edited or truncated.
+            </div>
+          ) : (
+            <div className="flex items-center text-xs text-emerald-700 bg-emerald-50 p-2 rounded">
+              <ShieldCheck className="w-4 h-4 mr-2" />
+              {events.length} events, hash chain intact.
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-2">
+            <label className="text-xs text-gray-500">
+              User
+              <select className={inputClass} value={userFilter} onChange={(e) => setUserFilter(e.target.value)}>
+                <option value="">All users</option>
+                {users.map(u => <option key={u} value={u}>{u}</option>)}
+              </select>
+            </label>
+            <label className="text-xs text-gray-500">
+              Action
+              <select
+                className={inputClass}
+                value={actionFilter}
+                onChange={(e) => setActionFilter(e.target.value as AuditAction | '')}
+              >
+                <option value="">All actions</option>
+                {(Object.keys(ACTION_LABELS) as AuditAction[]).map(a => (
+                  <option key={a} value={a}>{ACTION_LABELS[a]}</option>
+                ))}
+              </select>
+            </label>
+            <label className="text-xs text-gray-500">
+              From
+              <input type="date" className={inputClass} value={fromDate} onChange={(e) => setFromDate(e.target.value)} />
+            </label>
+            <label className="text-xs text-gray-500">
+              To
+              <input type="date" className={inputClass} value={toDate} onChange={(e) => setToDate(e.target.value)} />
+            </label>
+            <label className="text-xs text-gray-500 col-span-2">
+              Quotes of at least (₹)
+              <input
+                type="number"
+                min="0"
+                placeholder="e.g. 1500000"
+                className={inputClass}
+                value={minPrice}
+                onChange={(e) => setMinPrice(e.target.value)}
+              />
+            </label>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <span className="text-xs text-gray-500">{filtered.length} matching events</span>
+            <div className="flex items-center space-x-3">
+              <button
+                onClick={exportCsv}
+                disabled={filtered.length === 0}
+                className="flex items-center space-x-1 text-xs text-indigo-600 hover:text-indigo-700 font-medium disabled:text-gray-300"
+              >
+                <Download className="w-3 h-3" />
+                <span>CSV</span>
+              </button>
+              <button
+                onClick={exportJson}
+                disabled={filtered.length === 0}
+                className="flex items-center space-x-1 text-xs text-indigo-600 hover:text-indigo-700 font-medium disabled:text-gray-300"
+              >
+                <Download className="w-3 h-3" />
+                <span>JSON</span>
+              </button>
+            </div>
+          </div>
+
+          {filtered.length > 0 && (
+            <div className="max-h-80 overflow-y-auto custom-scrollbar">
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="text-left text-gray-500 border-b border-gray-100">
+                    <th className="py-1 pr-2">When</th>
+                    <th className="py-1 pr-2">User</th>
+                    <th className="py-1 pr-2">Action</th>
+                    <th className="py-1">Details</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {filtered.map(event => (
+                    <tr key={event.seq} className="border-b border-gray-50 align-top">
+                      <td className="py-1.5 pr-2 text-gray-500 whitespace-nowrap">
+                        {new Date(event.timestamp).toLocaleString('en-IN')}
+                      </td>
+                      <td className="py-1.5 pr-2 text-gray-800">{event.user.name}</td>
+                      <td className="py-1.5 pr-2 text-gray-600">{ACTION_LABELS[event.action]}</td>
+                      <td className="py-1.5 text-gray-600">
+                        {summarise(event)}
+                        {event.details.datasetVersion && (
+                          <span className="block font-mono text-gray-400">data {event.details.datasetVersion}</span>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AuditLogView;
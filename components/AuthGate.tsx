@@ -1,60 +1,226 @@
-import React, { useState, useEffect } from 'react';
-import { Lock, Shield, AlertTriangle } from 'lucide-react';
+import React, { useState } from 'react';
+import { Lock, Shield, AlertTriangle, User } from 'lucide-react';
+import { AuthUser } from '../types';
+import { EncryptionError, PassphraseMismatchError, lockEncryption, unlockEncryption } from '../utils/encryption';
+import { sessionPolicyFor } from '../utils/sessionPolicy';
+import { secureRekey, secureReset, secureWipe } from '../utils/secureStorage';
+import { AuthError, authHeaders, login, logout } from '../services/authService';
+import { recordAuditEvent } from '../services/auditService';
+import { SessionEndReason, useSessionTimeout } from '../hooks/useSessionTimeout';
+import SessionWarningModal from './SessionWarningModal';
+import PasswordChangedPrompt from './PasswordChangedPrompt';
 
 interface AuthGateProps {
   children: React.ReactNode;
+  onLogin?: (user: AuthUser) => void; // Called once the encryption key is ready
   onLogout: () => void;
 }
 
-const AuthGate: React.FC<AuthGateProps> = ({ children, onLogout }) => {
+const AuthGate: React.FC<AuthGateProps> = ({ children, onLogin, onLogout }) => {
+  const [username, setUsername] = useState('');
   const [password, setPassword] = useState('');
-  const [isAuthenticated, setIsAuthenticated] = useState(false);
+  const [user, setUser] = useState<AuthUser | null>(null);
+  const [isLocked, setIsLocked] = useState(false);
   const [error, setError] = useState('');
   const [showPassword, setShowPassword] = useState(false);
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  // Signed in on the server, but this device's data is still under the previous password
+  const [passwordChange, setPasswordChange] = useState<{ user: AuthUser; newPassword: string } | null>(null);
 
-  // Check if already authenticated in this session
-  useEffect(() => {
-    const authStatus = sessionStorage.getItem('auth_status');
-    if (authStatus === 'authenticated') {
-      setIsAuthenticated(true);
-    }
-  }, []);
+  // No session restore: the token and the encryption key (derived from the
+  // password) are held in memory only, so a page reload always asks to log in again
+
+  const policy = user ? sessionPolicyFor(user) : null;
+
+  // Inactivity locks the session in place: the token and key are dropped and the
+  // stored history and cached results deleted, but the app stays mounted underneath
+  // so in-progress forms survive until the user unlocks
+  const handleTimeout = (reason: SessionEndReason) => {
+    // Lock before any network call, so a slow connection cannot keep the session open
+    const headers = authHeaders();
+    logout();
+    lockEncryption();
+    setIsLocked(true);
+    secureWipe().catch(err => console.error('Secure wipe failed:', err));
+    recordAuditEvent('logout', { reason }, headers);
+  };
+
+  const { secondsLeft, extend, endSession } = useSessionTimeout({
+    username: user?.username ?? null,
+    enabled: !!user && !isLocked,
+    timeoutMinutes: policy?.timeoutMinutes,
+    warningMinutes: policy?.warningMinutes,
+    onTimeout: handleTimeout,
+  });
 
-  const handleLogin = (e: React.FormEvent) => {
+  const completeLogin = (signedIn: AuthUser) => {
+    setUser(signedIn);
+    setIsLocked(false);
+    setPasswordChange(null);
+    sessionStorage.setItem('login_time', Date.now().toString());
+    setError('');
+    onLogin?.(signedIn);
+  };
+
+  const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault();
-    
-    // Simple password check - in production, use proper authentication
-    const correctPassword = import.meta.env.VITE_APP_PASSWORD || 'autovaluate2024';
-    
-    if (password === correctPassword) {
-      setIsAuthenticated(true);
-      sessionStorage.setItem('auth_status', 'authenticated');
-      sessionStorage.setItem('login_time', Date.now().toString());
-      setError('');
-    } else {
-      setError('Incorrect password. Please try again.');
+    setIsUnlocking(true);
+
+    let signedIn: AuthUser | null = null;
+    try {
+      // The server checks the credentials and signs a session token
+      signedIn = await login(isLocked ? user!.username : username, password);
+      await unlockEncryption(password, signedIn.username);
+      completeLogin(signedIn);
+    } catch (err) {
+      if (signedIn && err instanceof PassphraseMismatchError) {
+        // The server accepted the password, so it has been changed since this device last unlocked
+        setPasswordChange({ user: signedIn, newPassword: password });
+        setError('');
+        return;
+      }
+      logout();
+      setError(
+        err instanceof AuthError || err instanceof EncryptionError
+          ? err.message
+          : 'Login failed. Please try again.'
+      );
+    } finally {
+      setIsUnlocking(false);
       setPassword('');
     }
   };
 
-  const handleLogout = () => {
-    setIsAuthenticated(false);
+  const handleRekey = async (previousPassword: string) => {
+    if (!passwordChange) return;
+    setIsUnlocking(true);
+    try {
+      await secureRekey(passwordChange.user.username, previousPassword, passwordChange.newPassword);
+      completeLogin(passwordChange.user);
+    } catch (err) {
+      setError(
+        err instanceof PassphraseMismatchError
+          ? 'That is not the previous password for the data on this device either.'
+          : err instanceof EncryptionError ? err.message : 'Re-encrypting failed. Please try again.'
+      );
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  const handleStartFresh = async () => {
+    if (!passwordChange) return;
+    setIsUnlocking(true);
+    try {
+      await secureReset(passwordChange.user.username, passwordChange.newPassword);
+      completeLogin(passwordChange.user);
+    } catch (err) {
+      setError(err instanceof EncryptionError ? err.message : 'Resetting this device failed. Please try again.');
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  const cancelPasswordChange = () => {
+    logout();
+    setPasswordChange(null);
+    setError('');
+  };
+
+  const passwordChangedPrompt = (
+    <PasswordChangedPrompt
+      error={error}
+      isBusy={isUnlocking}
+      onRekey={handleRekey}
+      onStartFresh={handleStartFresh}
+      onCancel={cancelPasswordChange}
+    />
+  );
+
+  const handleLogout = async () => {
+    // A locked session has already recorded its logout and has no token left
+    if (!isLocked) {
+      await recordAuditEvent('logout', { reason: 'manual' });
+      endSession();
+    }
+    setUser(null);
+    setIsLocked(false);
+    setPasswordChange(null);
+    setError('');
+    logout();
     sessionStorage.clear();
     setPassword('');
     onLogout();
   };
 
-  if (isAuthenticated) {
+  if (user) {
     return (
       <>
-        {children}
-        <button
-          onClick={handleLogout}
-          className="fixed bottom-4 right-4 bg-red-600 text-white px-4 py-2 rounded-lg text-sm font-medium hover:bg-red-700 shadow-lg flex items-center space-x-2 z-50"
-        >
-          <Lock className="w-4 h-4" />
-          <span>Logout & Clear Data</span>
-        </button>
+        <div inert={isLocked}>
+          {children}
+          <button
+            onClick={handleLogout}
+            className="fixed bottom-4 right-4 bg-red-600 text-white px-4 py-2 rounded-lg text-sm font-medium hover:bg-red-700 shadow-lg flex items-center space-x-2 z-50"
+          >
+            <Lock className="w-4 h-4" />
+            <span>Logout & Clear Data</span>
+          </button>
+        </div>
+
+        {secondsLeft !== null && !isLocked && (
+          <SessionWarningModal secondsLeft={secondsLeft} onExtend={extend} onLogout={handleLogout} />
+        )}
+
+        {isLocked && (
+          <div className="fixed inset-0 z-[70] bg-gray-900/60 backdrop-blur-sm flex items-center justify-center p-4">
+            <div className="bg-white rounded-2xl shadow-xl border border-gray-100 p-8 max-w-sm w-full">
+              <div className="flex items-center justify-center mb-4">
+                <div className="bg-indigo-100 p-3 rounded-full">
+                  <Lock className="w-6 h-6 text-indigo-600" />
+                </div>
+              </div>
+              <h2 className="text-xl font-bold text-center text-gray-800">Session locked</h2>
+              <p className="text-center text-sm text-gray-500 mt-1 mb-6">
+                Signed in as {user.name}. Enter your password to continue where you left off.
+              </p>
+
+              {passwordChange ? passwordChangedPrompt : (
+                <form onSubmit={handleLogin} className="space-y-4">
+                  <input
+                    type="password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    className="w-full px-3 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent outline-none"
+                    autoComplete="current-password"
+                    placeholder="Enter password"
+                    autoFocus
+                  />
+
+                  {error && (
+                    <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+                      {error}
+                    </div>
+                  )}
+
+                  <button
+                    type="submit"
+                    disabled={isUnlocking || !password}
+                    className="w-full bg-indigo-600 text-white py-3 rounded-lg font-medium hover:bg-indigo-700 transition-colors disabled:bg-gray-400"
+                  >
+                    {isUnlocking ? 'Unlocking...' : 'Unlock'}
+                  </button>
+                </form>
+              )}
+
+              <button
+                onClick={handleLogout}
+                className="w-full mt-3 text-sm text-gray-500 hover:text-red-600"
+              >
+                Logout & clear data instead
+              </button>
+            </div>
+          </div>
+        )}
       </>
     );
   }
@@ -69,8 +235,9 @@ const AuthGate: React.FC<AuthGateProps> = ({ children, onLogout }) => {
             <div>
               <h3 className="text-sm font-bold text-amber-800 mb-1">Sensitive Data Protection</h3>
               <p className="text-xs text-amber-700 leading-relaxed">
-                This application handles proprietary business data. Access is password-protected. 
-                All data is encrypted and cleared when you logout or close your browser.
+                This application handles proprietary business data. Each user signs in with their own account. 
+                Saved valuations are encrypted with a key derived from your password, and
+                session data is cleared when you logout or close your browser.
               </p>
             </div>
           </div>
@@ -91,58 +258,78 @@ const AuthGate: React.FC<AuthGateProps> = ({ children, onLogout }) => {
             Secure Access Required
           </p>
 
-          <form onSubmit={handleLogin} className="space-y-4">
-            <div>
-              <label htmlFor="password" className="block text-sm font-medium text-gray-700 mb-2">
-                Access Password
-              </label>
-              <div className="relative">
-                <Lock className="absolute left-3 top-3 text-gray-400 w-5 h-5" />
-                <input
-                  id="password"
-                  type={showPassword ? 'text' : 'password'}
-                  value={password}
-                  onChange={(e) => setPassword(e.target.value)}
-                  className="w-full pl-10 pr-10 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent outline-none"
-                  placeholder="Enter password"
-                  autoFocus
-                />
-                <button
-                  type="button"
-                  onClick={() => setShowPassword(!showPassword)}
-                  className="absolute right-3 top-3 text-gray-400 hover:text-gray-600 text-xs"
-                >
-                  {showPassword ? 'Hide' : 'Show'}
-                </button>
+          {passwordChange ? passwordChangedPrompt : (
+            <form onSubmit={handleLogin} className="space-y-4">
+              <div>
+                <label htmlFor="username" className="block text-sm font-medium text-gray-700 mb-2">
+                  Username
+                </label>
+                <div className="relative">
+                  <User className="absolute left-3 top-3 text-gray-400 w-5 h-5" />
+                  <input
+                    id="username"
+                    type="text"
+                    autoComplete="username"
+                    value={username}
+                    onChange={(e) => setUsername(e.target.value)}
+                    className="w-full pl-10 pr-3 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent outline-none"
+                    placeholder="Enter username"
+                    autoFocus
+                  />
+                </div>
               </div>
-            </div>
 
-            {error && (
-              <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
-                {error}
+              <div>
+                <label htmlFor="password" className="block text-sm font-medium text-gray-700 mb-2">
+                  Password
+                </label>
+                <div className="relative">
+                  <Lock className="absolute left-3 top-3 text-gray-400 w-5 h-5" />
+                  <input
+                    id="password"
+                    type={showPassword ? 'text' : 'password'}
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    className="w-full pl-10 pr-10 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent outline-none"
+                    autoComplete="current-password"
+                    placeholder="Enter password"
+                  />
+                  <button
+                    type="button"
+                    onClick={() => setShowPassword(!showPassword)}
+                    className="absolute right-3 top-3 text-gray-400 hover:text-gray-600 text-xs"
+                  >
+                    {showPassword ? 'Hide' : 'Show'}
+                  </button>
+                </div>
               </div>
-            )}
 
-            <button
-              type="submit"
-              className="w-full bg-indigo-600 text-white py-3 rounded-lg font-medium hover:bg-indigo-700 transition-colors"
-            >
-              Access Application
-            </button>
-          </form>
+              {error && (
+                <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+                  {error}
+                </div>
+              )}
+
+              <button
+                type="submit"
+                disabled={isUnlocking || !username || !password}
+                className="w-full bg-indigo-600 text-white py-3 rounded-lg font-medium hover:bg-indigo-700 transition-colors disabled:bg-gray-400"
+              >
+                {isUnlocking ? 'Signing in...' : 'Sign In'}
+              </button>
+            </form>
+          )}
 
           <div className="mt-6 pt-6 border-t border-gray-200">
             <p className="text-xs text-gray-500 text-center leading-relaxed">
-              <strong>Security Features:</strong> Password protection • Session timeout • 
-              Data encryption • Auto-logout on browser close
+              <strong>Security Features:</strong> Named accounts with roles • Server-signed sessions • 
+              Session timeout • AES-GCM encryption
             </p>
           </div>
         </div>
 
         <p className="text-center text-xs text-gray-400 mt-6">
-          Default password: <code className="bg-gray-100 px-2 py-1 rounded">autovaluate2024</code>
-          <br />
-          <span className="text-xs">(Set VITE_APP_PASSWORD in environment to change)</span>
+          No account? Ask your dealership admin to add you.
         </p>
       </div>
     </div>
@@ -0,0 +1,388 @@
+import React, { useEffect, useState } from 'react';
+import { Database, RefreshCw, Trash2, Plus, X } from 'lucide-react';
+import { CacheTrendPoint, CarDetails, HistoricalRecord } from '../types';
+import {
+  CacheEntry,
+  applyCacheTtl,
+  clearCache,
+  deleteCacheEntry,
+  formatCacheAge,
+  formatDuration,
+  listCacheEntries,
+} from '../utils/cacheManager';
+import { CacheTtlRules, DEFAULT_TTL_RULES, MAX_TTL_HOURS, loadCacheTtlRules, saveCacheTtlRules } from '../utils/cacheTtl';
+import { historyDatasetHash } from '../utils/datasetHash';
+import { brandKey, canonicalBrand } from '../utils/nameMatching';
+import { SEGMENT_LABELS, VehicleSegment, segmentFor } from '../utils/vehicleSegments';
+import { cacheHitRate, fetchUsageSummary } from '../services/usageService';
+
+interface CacheInspectorProps {
+  history: HistoricalRecord[]; // To flag entries cached against an older dataset
+  refreshKey: number; // Bump after each valuation to reload
+  // Fetch a live quote, bypassing the cache; omitted for roles without refresh_cache,
+  // which also hides deleting entries (the next valuation would be live)
+  onRefresh?: (car: CarDetails) => void;
+  isLoading: boolean;
+  canEditRules: boolean; // manage_cache_rules; others see the rules read-only
+}
+
+const CHART_WIDTH = 320;
+const CHART_HEIGHT = 80;
+
+const formatLakhs = (value: number) => `₹${(value / 100000).toFixed(2)}L`;
+
+const formatPercent = (rate: number | null) => (rate === null ? '—' : `${Math.round(rate * 100)}%`);
+
+// TTL inputs are edited as text and only applied on save, so a half-typed "12" never expires quotes at 1 hour
+interface TtlDraft {
+  defaultHours: string;
+  segments: Partial<Record<VehicleSegment, string>>;
+  brands: Record<string, number>;
+}
+
+const toDraft = (rules: CacheTtlRules): TtlDraft => ({
+  defaultHours: String(rules.defaultHours),
+  segments: Object.fromEntries(Object.entries(rules.segments).map(([segment, hours]) => [segment, String(hours)])),
+  brands: rules.brands,
+});
+
+// Read-only summary for users who cannot change the rules
+const describeRules = (draft: TtlDraft): string =>
+  [
+    `Default ${draft.defaultHours} h`,
+    ...Object.entries(draft.segments)
+      .filter(([, hours]) => hours)
+      .map(([segment, hours]) => `${SEGMENT_LABELS[segment as VehicleSegment]} ${hours} h`),
+    ...Object.entries(draft.brands).map(([key, hours]) => `${canonicalBrand(key)} ${hours} h`),
+  ].join(' • ');
+
+const parseHours = (value: string | undefined): number | undefined => {
+  const hours = Number(value);
+  return value && hours > 0 && hours <= MAX_TTL_HOURS ? hours : undefined;
+};
+
+const HitRateChart: React.FC<{ trend: CacheTrendPoint[] }> = ({ trend }) => {
+  const slot = CHART_WIDTH / trend.length;
+  const maxTotal = Math.max(1, ...trend.map(point => point.hits + point.misses));
+  const barHeight = (count: number) => (count / maxTotal) * (CHART_HEIGHT - 12);
+
+  return (
+    <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-auto" role="img" aria-label="Daily cache hits and misses">
+      {trend.map((point, i) => {
+        const missHeight = barHeight(point.misses);
+        const hitHeight = barHeight(point.hits);
+        const x = slot * i + slot * 0.2;
+        return (
+          <g key={point.date}>
+            <title>{`${point.date}: ${point.hits} cached, ${point.misses} live`}</title>
+            <rect x={x} y={CHART_HEIGHT - 12 - missHeight} width={slot * 0.6} height={missHeight} className="fill-gray-300" />
+            <rect x={x} y={CHART_HEIGHT - 12 - missHeight - hitHeight} width={slot * 0.6} height={hitHeight} className="fill-green-500" />
+            {i % 7 === 0 && (
+              <text x={x} y={CHART_HEIGHT - 2} className="fill-gray-400" fontSize={8}>{point.date.slice(5)}</text>
+            )}
+          </g>
+        );
+      })}
+    </svg>
+  );
+};
+
+const CacheInspector: React.FC<CacheInspectorProps> = ({ history, refreshKey, onRefresh, isLoading, canEditRules }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [entries, setEntries] = useState<CacheEntry[]>([]);
+  const [trend, setTrend] = useState<CacheTrendPoint[]>([]);
+  const [datasetVersion, setDatasetVersion] = useState<string | null>(null);
+  const [draft, setDraft] = useState<TtlDraft>(() => toDraft(loadCacheTtlRules()));
+  const [rulesSaved, setRulesSaved] = useState(true);
+  const [newBrand, setNewBrand] = useState('');
+  const [newBrandHours, setNewBrandHours] = useState('');
+  const [loadError, setLoadError] = useState(false);
+  const [version, setVersion] = useState(0);
+
+  useEffect(() => {
+    if (!isExpanded) return;
+    let cancelled = false;
+
+    listCacheEntries()
+      .then(result => {
+        if (!cancelled) {
+          setEntries(result);
+          setLoadError(false);
+        }
+      })
+      .catch(error => {
+        console.error('Failed to read the result cache:', error);
+        if (!cancelled) setLoadError(true);
+      });
+    fetchUsageSummary()
+      .then(summary => !cancelled && setTrend(summary.cacheTrend))
+      .catch(error => console.warn('Failed to load cache hit rate:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isExpanded, refreshKey, version]);
+
+  useEffect(() => {
+    if (!isExpanded) return;
+    historyDatasetHash(history).then(setDatasetVersion);
+  }, [isExpanded, history]);
+
+  const handleDelete = async (id: string) => {
+    await deleteCacheEntry(id);
+    setEntries(prev => prev.filter(entry => entry.id !== id));
+  };
+
+  const handleRefresh = async (entry: CacheEntry) => {
+    if (!onRefresh) return;
+    // Drop the old quote first: with newer history the fresh one is stored under a new key
+    await deleteCacheEntry(entry.id);
+    setEntries(prev => prev.filter(e => e.id !== entry.id));
+    onRefresh(entry.car);
+  };
+
+  const handleClearAll = async () => {
+    await clearCache();
+    setEntries([]);
+  };
+
+  const editDraft = (next: TtlDraft) => {
+    setDraft(next);
+    setRulesSaved(false);
+  };
+
+  const handleAddBrand = () => {
+    const key = brandKey(newBrand);
+    const hours = parseHours(newBrandHours);
+    if (!key || hours === undefined) return;
+    editDraft({ ...draft, brands: { ...draft.brands, [key]: hours } });
+    setNewBrand('');
+    setNewBrandHours('');
+  };
+
+  const handleRemoveBrand = (key: string) => {
+    const brands = { ...draft.brands };
+    delete brands[key];
+    editDraft({ ...draft, brands });
+  };
+
+  const handleSaveRules = async () => {
+    const segments: CacheTtlRules['segments'] = {};
+    (Object.keys(draft.segments) as VehicleSegment[]).forEach(segment => {
+      const hours = parseHours(draft.segments[segment]);
+      if (hours !== undefined) segments[segment] = hours;
+    });
+    const rules: CacheTtlRules = {
+      defaultHours: parseHours(draft.defaultHours) ?? DEFAULT_TTL_RULES.defaultHours,
+      segments,
+      brands: draft.brands,
+    };
+
+    saveCacheTtlRules(rules);
+    setDraft(toDraft(rules));
+    setRulesSaved(true);
+    try {
+      await applyCacheTtl(rules);
+    } catch (error) {
+      console.error('Failed to apply cache TTL rules:', error);
+    }
+    setVersion(v => v + 1);
+  };
+
+  const hitRate = cacheHitRate(trend);
+  const now = Date.now();
+
+  return (
+    <div className="bg-white p-6 rounded-2xl shadow-sm border border-gray-100">
+      <div
+        className="flex items-center justify-between cursor-pointer"
+        onClick={() => setIsExpanded(!isExpanded)}
+      >
+        <div className="flex items-center space-x-2">
+          <Database className="text-green-600 w-6 h-6" />
+          <div>
+            <h2 className="text-xl font-semibold text-gray-800">Result Cache</h2>
+            <p className="text-xs text-gray-500">Cached quotes on this device, hit rate and expiry rules</p>
+          </div>
+        </div>
+        <button className="text-gray-400 hover:text-orange-600 transition-colors text-sm font-medium">
+          {isExpanded ? 'Hide' : 'Expand'}
+        </button>
+      </div>
+
+      {isExpanded && (
+        <div className="mt-4 space-y-5 animate-in fade-in slide-in-from-top-2 duration-300">
+          <div>
+            <div className="flex items-baseline justify-between mb-1">
+              <h3 className="text-sm font-semibold text-gray-700">Hit rate, last {trend.length || 14} days</h3>
+              <span className="text-sm font-bold text-green-700">
+                {formatPercent(hitRate.rate)}
+                <span className="text-xs font-normal text-gray-500"> ({hitRate.hits} of {hitRate.total} quotes)</span>
+              </span>
+            </div>
+            {trend.length > 0 && <HitRateChart trend={trend} />}
+            <p className="text-xs text-gray-400">Green: served from cache. Grey: live model call.</p>
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="text-sm font-semibold text-gray-700">Cached quotes ({entries.length})</h3>
+              {entries.length > 0 && onRefresh && (
+                <button onClick={handleClearAll} className="text-xs text-red-600 hover:text-red-700 font-medium">
+                  Clear all
+                </button>
+              )}
+            </div>
+
+            {loadError && <p className="text-xs text-red-600">Could not read the result cache on this device.</p>}
+
+            {entries.length === 0 ? (
+              <p className="text-xs text-gray-400">Nothing cached yet.</p>
+            ) : (
+              <div className="max-h-80 overflow-y-auto custom-scrollbar space-y-2">
+                {entries.map(entry => (
+                  <div key={entry.id} className="border border-gray-200 rounded-lg p-3">
+                    <div className="flex items-start justify-between">
+                      <div>
+                        <p className="text-sm font-medium text-gray-800">
+                          {entry.car.year} {entry.car.brand} {entry.car.model} {entry.car.variant}
+                        </p>
+                        <p className="text-xs text-gray-500">
+                          {entry.key.fuel} • {entry.key.transmission} • owner {entry.key.ownership} • {entry.key.kmBucket} km
+                          • {entry.key.ageBucket} yrs • {entry.car.location}
+                          • {SEGMENT_LABELS[segmentFor(entry.key.brand, entry.key.model, entry.key.fuel)]}
+                        </p>
+                        <p className="text-xs text-gray-400">
+                          Cached {formatCacheAge(now - entry.cachedAt)} • expires in {formatDuration(entry.expiresAt - now)}
+                          {' '}• {(entry.size / 1024).toFixed(1)} KB
+                        </p>
+                        {datasetVersion && entry.key.datasetVersion !== datasetVersion && (
+                          <span className="inline-block mt-1 px-2 py-0.5 rounded-full text-xs font-medium bg-amber-100 text-amber-700">
+                            Older sales history
+                          </span>
+                        )}
+                      </div>
+                      <span className={`text-sm font-bold whitespace-nowrap ${entry.result.notViable ? 'text-red-600' : 'text-emerald-600'}`}>
+                        {entry.result.notViable
+                          ? 'Not viable'
+                          : `${formatLakhs(entry.result.priceBand.min)} - ${formatLakhs(entry.result.priceBand.max)}`}
+                      </span>
+                    </div>
+                    {onRefresh && (
+                      <div className="flex items-center space-x-3 mt-2">
+                        <button
+                          onClick={() => handleRefresh(entry)}
+                          disabled={isLoading}
+                          className="flex items-center space-x-1 text-xs text-orange-600 hover:text-orange-700 font-medium disabled:text-gray-300"
+                        >
+                          <RefreshCw className="w-3 h-3" />
+                          <span>Refresh live</span>
+                        </button>
+                        <button
+                          onClick={() => handleDelete(entry.id)}
+                          className="flex items-center space-x-1 text-xs text-red-600 hover:text-red-700 font-medium"
+                        >
+                          <Trash2 className="w-3 h-3" />
+                          <span>Delete</span>
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div>
+            <h3 className="text-sm font-semibold text-gray-700 mb-1">Keep quotes for (hours)</h3>
+            {canEditRules ? (
+              <>
+                <p className="text-xs text-gray-400 mb-2">
+                  A brand rule wins over a segment rule. Leave a segment blank to use the default. Saved rules also apply
+                  to quotes already cached, counted from when each was fetched.
+                </p>
+                <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+                  <label className="text-xs text-gray-500">
+                    Default
+                    <input
+                      type="number"
+                      min={1}
+                      max={MAX_TTL_HOURS}
+                      className="w-full mt-1 px-2 py-1.5 border border-gray-300 rounded-lg text-sm"
+                      value={draft.defaultHours}
+                      onChange={(e) => editDraft({ ...draft, defaultHours: e.target.value })}
+                    />
+                  </label>
+                  {(Object.keys(SEGMENT_LABELS) as VehicleSegment[]).map(segment => (
+                    <label key={segment} className="text-xs text-gray-500">
+                      {SEGMENT_LABELS[segment]}
+                      <input
+                        type="number"
+                        min={1}
+                        max={MAX_TTL_HOURS}
+                        placeholder={draft.defaultHours}
+                        className="w-full mt-1 px-2 py-1.5 border border-gray-300 rounded-lg text-sm"
+                        value={draft.segments[segment] ?? ''}
+                        onChange={(e) => editDraft({ ...draft, segments: { ...draft.segments, [segment]: e.target.value } })}
+                      />
+                    </label>
+                  ))}
+                </div>
+
+                <div className="mt-3 space-y-1">
+                  {Object.entries(draft.brands).map(([key, hours]) => (
+                    <div key={key} className="flex items-center justify-between text-xs bg-gray-50 rounded-lg px-3 py-1.5">
+                      <span className="text-gray-700">{canonicalBrand(key)}: {hours} h</span>
+                      <button onClick={() => handleRemoveBrand(key)} className="text-gray-400 hover:text-red-600" aria-label="Remove brand rule">
+                        <X className="w-3 h-3" />
+                      </button>
+                    </div>
+                  ))}
+                  <div className="flex items-center space-x-2">
+                    <input
+                      type="text"
+                      placeholder="Brand"
+                      className="flex-1 px-2 py-1.5 border border-gray-300 rounded-lg text-sm"
+                      value={newBrand}
+                      onChange={(e) => setNewBrand(e.target.value)}
+                    />
+                    <input
+                      type="number"
+                      min={1}
+                      max={MAX_TTL_HOURS}
+                      placeholder="Hours"
+                      className="w-20 px-2 py-1.5 border border-gray-300 rounded-lg text-sm"
+                      value={newBrandHours}
+                      onChange={(e) => setNewBrandHours(e.target.value)}
+                    />
+                    <button
+                      onClick={handleAddBrand}
+                      className="flex items-center space-x-1 text-xs text-indigo-600 hover:text-indigo-700 font-medium"
+                    >
+                      <Plus className="w-3 h-3" />
+                      <span>Add brand</span>
+                    </button>
+                  </div>
+                </div>
+
+                <button
+                  onClick={handleSaveRules}
+                  disabled={rulesSaved}
+                  className="mt-3 w-full py-2 rounded-lg text-sm font-medium bg-indigo-600 text-white hover:bg-indigo-700 disabled:bg-gray-200 disabled:text-gray-400"
+                >
+                  {rulesSaved ? 'Rules saved' : 'Save rules'}
+                </button>
+              </>
+            ) : (
+              <p className="text-xs text-gray-600">
+                {describeRules(draft)}. Only an admin can change these rules.
+              </p>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CacheInspector;
@@ -1,14 +1,34 @@
-import React, { useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { CarDetails, FuelType, Transmission } from '../types';
-import { Car, MapPin, Calendar, Gauge, Settings, Tag } from 'lucide-react';
+import { Car, MapPin, Calendar, Gauge, Settings, Tag, BookOpen, FileText, AlertTriangle } from 'lucide-react';
+import InspectionChecklist from './InspectionChecklist';
+import {
+  VEHICLE_CATALOGUE,
+  canonicalNames,
+  fitToVariant,
+  fuelOptions,
+  matchCatalogue,
+  transmissionOptions,
+  yearOptions,
+} from '../utils/vehicleCatalogue';
+import {
+  formatRegion,
+  normaliseRegistration,
+  parseRegistration,
+  registeredLocation,
+  stateName,
+  stateTransfer,
+} from '../utils/registration';
 
 interface CarFormProps {
   onSubmit: (data: CarDetails) => void;
+  onCancel?: () => void; // Shown while loading
   isLoading: boolean;
+  initialData?: CarDetails; // Pre-fill, e.g. when re-opening a logged valuation
 }
 
-const CarForm: React.FC<CarFormProps> = ({ onSubmit, isLoading }) => {
-  const [formData, setFormData] = useState<CarDetails>({
+const CarForm: React.FC<CarFormProps> = ({ onSubmit, onCancel, isLoading, initialData }) => {
+  const [formData, setFormData] = useState<CarDetails>(() => fitToVariant(initialData || {
     brand: '',
     model: '',
     variant: '',
@@ -18,19 +38,71 @@ const CarForm: React.FC<CarFormProps> = ({ onSubmit, isLoading }) => {
     ownership: 1,
     kmDriven: 25000,
     location: 'Mumbai, Maharashtra'
-  });
+  }));
+  // The pre-filled location is only a default until the buyer edits it (or re-opens a valuation)
+  const [locationEdited, setLocationEdited] = useState(!!initialData);
+
+  const { make, model, variant } = matchCatalogue(formData);
+  const fuels = variant ? fuelOptions(variant) : Object.values(FuelType);
+  const transmissions = variant ? transmissionOptions(variant, formData.fuel) : Object.values(Transmission);
+  const years = variant ? yearOptions(variant, formData.fuel, formData.transmission) : [];
+  const registration = parseRegistration(formData.registration);
+  const registrationInvalid = !!formData.registration?.trim() && !registration;
+  const registrationRef = useRef<HTMLInputElement>(null);
+
+  // The browser then refuses to submit and points at the field, like any other invalid input
+  useEffect(() => {
+    registrationRef.current?.setCustomValidity(
+      registrationInvalid ? 'Correct the registration number or clear the field.' : ''
+    );
+  }, [registrationInvalid]);
+  const registeredCity = registration && registeredLocation(registration);
+  const transfer = stateTransfer(formData);
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
     const { name, value } = e.target;
-    setFormData(prev => ({
+    if (name === 'location') setLocationEdited(true);
+    // Keep fuel, transmission and year valid for a catalogued variant as the other fields change
+    setFormData(prev => fitToVariant({
       ...prev,
       [name]: name === 'year' || name === 'ownership' || name === 'kmDriven' ? Number(value) : value
     }));
   };
 
+  // Names snap to the catalogue spelling once the field is left, not while typing
+  const handleNameBlur = () => {
+    setFormData(prev => fitToVariant(canonicalNames(prev)));
+  };
+
+  // A recognised plate replaces the default or an empty location; one the buyer entered
+  // is kept, since the car may be bought in another state than it was registered in
+  const handleRegistrationBlur = () => {
+    setFormData(prev => {
+      const info = parseRegistration(prev.registration);
+      if (!info) return prev;
+      const keepLocation = locationEdited && prev.location.trim();
+      const location = keepLocation ? prev.location : registeredLocation(info) || prev.location;
+      return { ...prev, registration: normaliseRegistration(prev.registration!), location };
+    });
+  };
+
+  const handleLocationBlur = () => {
+    setFormData(prev => (prev.location.trim() ? { ...prev, location: formatRegion(prev.location) } : prev));
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    onSubmit(formData);
+    // A typed plate is never dropped silently: it has to be fixed or cleared first
+    if (registrationInvalid) {
+      registrationRef.current?.reportValidity();
+      return;
+    }
+    const car = fitToVariant(canonicalNames({
+      ...formData,
+      registration: registration ? normaliseRegistration(formData.registration!) : undefined,
+    }));
+    setFormData(car);
+    onSubmit(car);
   };
 
   return (
@@ -49,10 +121,16 @@ const CarForm: React.FC<CarFormProps> = ({ onSubmit, isLoading }) => {
             name="brand"
             type="text"
             placeholder="e.g. Maruti Suzuki"
+            list="catalogue-makes"
+            autoComplete="off"
             className="w-full pl-3 pr-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent outline-none transition-all"
             value={formData.brand}
             onChange={handleChange}
+            onBlur={handleNameBlur}
           />
+          <datalist id="catalogue-makes">
+            {VEHICLE_CATALOGUE.makes.map(m => <option key={m.name} value={m.name} />)}
+          </datalist>
         </div>
 
         {/* Model */}
@@ -63,10 +141,16 @@ const CarForm: React.FC<CarFormProps> = ({ onSubmit, isLoading }) => {
             name="model"
             type="text"
             placeholder="e.g. Swift"
+            list="catalogue-models"
+            autoComplete="off"
             className="w-full pl-3 pr-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent outline-none transition-all"
             value={formData.model}
             onChange={handleChange}
+            onBlur={handleNameBlur}
           />
+          <datalist id="catalogue-models">
+            {make?.models.map(m => <option key={m.name} value={m.name} />)}
+          </datalist>
         </div>
 
         {/* Variant */}
@@ -79,11 +163,27 @@ const CarForm: React.FC<CarFormProps> = ({ onSubmit, isLoading }) => {
               name="variant"
               type="text"
               placeholder="e.g. VXI or ZDI Plus"
+              list="catalogue-variants"
+              autoComplete="off"
               className="w-full pl-10 pr-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent outline-none transition-all"
               value={formData.variant}
               onChange={handleChange}
+              onBlur={handleNameBlur}
             />
+            <datalist id="catalogue-variants">
+              {model?.variants.map(v => <option key={v.name} value={v.name} />)}
+            </datalist>
           </div>
+          <p className="flex items-center space-x-1 text-xs text-gray-400 mt-1">
+            <BookOpen className="w-3 h-3" />
+            <span>
+              {variant
+                ? `In the catalogue: only the fuel, gearbox and years ${model!.name} ${variant.name} was sold with are offered.`
+                : formData.brand && formData.model && formData.variant
+                  ? 'Not in the catalogue, so all options are shown. Check the spelling: it affects history matching.'
+                  : 'Pick from the suggestions to get only valid options.'}
+            </span>
+          </p>
         </div>
 
         {/* Year */}
@@ -91,16 +191,29 @@ const CarForm: React.FC<CarFormProps> = ({ onSubmit, isLoading }) => {
           <label className="block text-sm font-medium text-gray-700 mb-1">Registration Year</label>
           <div className="relative">
             <Calendar className="absolute left-3 top-2.5 text-gray-400 w-4 h-4" />
-            <input
-              required
-              name="year"
-              type="number"
-              min="2000"
-              max={new Date().getFullYear()}
-              className="w-full pl-10 pr-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent outline-none transition-all"
-              value={formData.year}
-              onChange={handleChange}
-            />
+            {years.length > 0 ? (
+              <select
+                name="year"
+                className="w-full pl-10 pr-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent outline-none transition-all bg-white"
+                value={formData.year}
+                onChange={handleChange}
+              >
+                {years.map(year => (
+                  <option key={year} value={year}>{year}</option>
+                ))}
+              </select>
+            ) : (
+              <input
+                required
+                name="year"
+                type="number"
+                min="2000"
+                max={new Date().getFullYear()}
+                className="w-full pl-10 pr-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent outline-none transition-all"
+                value={formData.year}
+                onChange={handleChange}
+              />
+            )}
           </div>
         </div>
 
@@ -130,7 +243,7 @@ const CarForm: React.FC<CarFormProps> = ({ onSubmit, isLoading }) => {
             value={formData.fuel}
             onChange={handleChange}
           >
-            {Object.values(FuelType).map((fuel) => (
+            {fuels.map((fuel) => (
               <option key={fuel} value={fuel}>{fuel}</option>
             ))}
           </select>
@@ -147,7 +260,7 @@ const CarForm: React.FC<CarFormProps> = ({ onSubmit, isLoading }) => {
               value={formData.transmission}
               onChange={handleChange}
             >
-              {Object.values(Transmission).map((trans) => (
+              {transmissions.map((trans) => (
                 <option key={trans} value={trans}>{trans}</option>
               ))}
             </select>
@@ -169,9 +282,38 @@ const CarForm: React.FC<CarFormProps> = ({ onSubmit, isLoading }) => {
             </select>
         </div>
 
+        {/* Registration */}
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Registration No. <span className="text-gray-400 font-normal">(optional)</span></label>
+          <div className="relative">
+            <FileText className="absolute left-3 top-2.5 text-gray-400 w-4 h-4" />
+            <input
+              ref={registrationRef}
+              name="registration"
+              type="text"
+              placeholder="e.g. MH02AB1234"
+              autoComplete="off"
+              aria-invalid={registrationInvalid}
+              className={`w-full pl-10 pr-3 py-2 border rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent outline-none transition-all uppercase ${registrationInvalid ? 'border-red-400' : 'border-gray-300'}`}
+              value={formData.registration || ''}
+              onChange={handleChange}
+              onBlur={handleRegistrationBlur}
+            />
+          </div>
+          {formData.registration?.trim() && (
+            <p className={`text-xs mt-1 ${registration ? 'text-gray-500' : 'text-red-600'}`}>
+              {!registration
+                ? 'Not a valid Indian registration number: correct it or clear the field to continue'
+                : registration.series === 'bharat'
+                  ? 'Bharat series: valid in every state, no re-registration'
+                  : `${registration.rtoCode}${registration.rto ? ` ${registration.rto.office}` : ''}, ${registration.state}`}
+            </p>
+          )}
+        </div>
+
         {/* Location */}
         <div>
-           <label className="block text-sm font-medium text-gray-700 mb-1">RTO / City</label>
+           <label className="block text-sm font-medium text-gray-700 mb-1">Buying Location (City, State)</label>
            <div className="relative">
              <MapPin className="absolute left-3 top-2.5 text-gray-400 w-4 h-4" />
              <input
@@ -182,11 +324,39 @@ const CarForm: React.FC<CarFormProps> = ({ onSubmit, isLoading }) => {
               className="w-full pl-10 pr-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent outline-none transition-all"
               value={formData.location}
               onChange={handleChange}
+              onBlur={handleLocationBlur}
             />
            </div>
+           {registeredCity && formatRegion(formData.location) !== registeredCity && (
+             <button
+               type="button"
+               onClick={() => {
+                 setLocationEdited(true);
+                 setFormData(prev => ({ ...prev, location: registeredCity }));
+               }}
+               className="text-xs text-orange-700 hover:underline mt-1"
+             >
+               Use registered city ({registeredCity})
+             </button>
+           )}
         </div>
+
+        {transfer && (
+          <div className="md:col-span-2 flex items-start space-x-2 text-xs text-amber-800 bg-amber-50 border border-amber-200 rounded-lg px-3 py-2">
+            <AlertTriangle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+            <span>
+              Registered in {stateName(transfer.fromState)}, buying in {stateName(transfer.toState)}: the car needs an NOC
+              and re-registration, with about {transfer.roadTaxPct}% road tax paid again (pro-rated for its remaining life).
+            </span>
+          </div>
+        )}
       </div>
 
+      <InspectionChecklist
+        condition={formData.condition}
+        onChange={(condition) => setFormData(prev => ({ ...prev, condition }))}
+      />
+
       <button
         type="submit"
         disabled={isLoading}
@@ -208,6 +378,16 @@ const CarForm: React.FC<CarFormProps> = ({ onSubmit, isLoading }) => {
           <span>Get Price Estimate</span>
         )}
       </button>
+
+      {isLoading && onCancel && (
+        <button
+          type="button"
+          onClick={onCancel}
+          className="w-full py-2 px-4 rounded-xl text-sm font-medium text-gray-600 border border-gray-300 hover:bg-gray-50 transition-colors"
+        >
+          Cancel
+        </button>
+      )}
     </form>
   );
 };
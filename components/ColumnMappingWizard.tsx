@@ -0,0 +1,136 @@
+import React, { useMemo, useState } from 'react';
+import { Columns, Check, AlertCircle } from 'lucide-react';
+import {
+  ColumnMapping,
+  HistoryField,
+  HISTORY_FIELDS,
+  HISTORY_FIELD_LABELS,
+  ingestRows,
+} from '../utils/historyIngestion';
+
+interface ColumnMappingWizardProps {
+  rows: string[][]; // First row = headers
+  initialMapping: ColumnMapping;
+  onConfirm: (mapping: ColumnMapping) => void;
+  onCancel: () => void;
+}
+
+const PREVIEW_ROWS = 5;
+
+const ColumnMappingWizard: React.FC<ColumnMappingWizardProps> = ({ rows, initialMapping, onConfirm, onCancel }) => {
+  const [mapping, setMapping] = useState<ColumnMapping>(initialMapping);
+
+  const headers = rows[0] || [];
+  const previewRows = rows.slice(1, PREVIEW_ROWS + 1);
+
+  // Column index -> field, for the per-column selects
+  const fieldForColumn = useMemo(() => {
+    const result: Record<number, HistoryField> = {};
+    HISTORY_FIELDS.forEach(field => {
+      const index = mapping[field];
+      if (index !== undefined) result[index] = field;
+    });
+    return result;
+  }, [mapping]);
+
+  // Live preview of what this mapping would load
+  const preview = useMemo(() => ingestRows(rows, mapping), [rows, mapping]);
+
+  const handleColumnChange = (columnIndex: number, value: string) => {
+    setMapping(prev => {
+      const next: ColumnMapping = {};
+      HISTORY_FIELDS.forEach(field => {
+        // Drop this column's old assignment and any other column holding the new field
+        if (prev[field] !== undefined && prev[field] !== columnIndex && field !== value) {
+          next[field] = prev[field];
+        }
+      });
+      if (value) next[value as HistoryField] = columnIndex;
+      return next;
+    });
+  };
+
+  const missingRequired = (['brand', 'model'] as HistoryField[]).filter(f => mapping[f] === undefined);
+  const hasPrice = mapping.boughtPrice !== undefined || mapping.soldPrice !== undefined;
+
+  return (
+    <div className="border border-indigo-200 rounded-lg p-4 bg-indigo-50/40 space-y-3">
+      <div className="flex items-center space-x-2">
+        <Columns className="w-4 h-4 text-indigo-600" />
+        <h3 className="text-sm font-bold text-indigo-900">Map Your Columns</h3>
+      </div>
+      <p className="text-xs text-gray-600">
+        Check the suggested field for each column. Columns set to "Ignore" are not used.
+      </p>
+
+      <div className="overflow-x-auto custom-scrollbar">
+        <table className="text-xs min-w-full">
+          <thead>
+            <tr>
+              {headers.map((header, index) => (
+                <th key={index} className="p-1 text-left align-top">
+                  <span className="block font-semibold text-gray-700 truncate max-w-[120px]" title={header}>
+                    {header || `Column ${index + 1}`}
+                  </span>
+                  <select
+                    value={fieldForColumn[index] || ''}
+                    onChange={(e) => handleColumnChange(index, e.target.value)}
+                    className={`mt-1 w-full border rounded px-1 py-0.5 bg-white ${fieldForColumn[index] ? 'border-indigo-400 text-indigo-700' : 'border-gray-300 text-gray-400'}`}
+                  >
+                    <option value="">Ignore</option>
+                    {HISTORY_FIELDS.map(field => (
+                      <option key={field} value={field}>{HISTORY_FIELD_LABELS[field]}</option>
+                    ))}
+                  </select>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {previewRows.map((row, rowIndex) => (
+              <tr key={rowIndex} className="border-t border-gray-200">
+                {headers.map((_, colIndex) => (
+                  <td key={colIndex} className="p-1 text-gray-600 font-mono truncate max-w-[120px]">
+                    {row[colIndex]}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {missingRequired.length > 0 ? (
+        <div className="flex items-center text-amber-700 text-xs">
+          <AlertCircle className="w-3 h-3 mr-1" />
+          Map {missingRequired.map(f => HISTORY_FIELD_LABELS[f]).join(' and ')} to continue.
+        </div>
+      ) : (
+        <p className="text-xs text-gray-600">
+          <strong>{preview.records.length}</strong> of {preview.totalRows} rows will be used
+          {preview.rejected.length > 0 && `, ${preview.rejected.length} rejected`}
+          {!hasPrice && ' (no price column mapped)'}.
+        </p>
+      )}
+
+      <div className="flex justify-end space-x-2">
+        <button
+          onClick={onCancel}
+          className="px-3 py-1.5 text-xs font-medium text-gray-600 hover:text-gray-800"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={() => onConfirm(mapping)}
+          disabled={missingRequired.length > 0}
+          className="flex items-center space-x-1 bg-indigo-600 text-white px-3 py-1.5 rounded-lg text-xs font-medium hover:bg-indigo-700 disabled:bg-gray-300 transition-colors"
+        >
+          <Check className="w-3 h-3" />
+          <span>Use This Mapping</span>
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ColumnMappingWizard;
@@ -0,0 +1,83 @@
+import React from 'react';
+import { History } from 'lucide-react';
+import { ComparablesEstimate } from '../utils/comparables';
+
+interface ComparablesPanelProps {
+  estimate: ComparablesEstimate;
+}
+
+const formatLakhs = (value: number | undefined) =>
+  value ? `₹${(value / 100000).toFixed(2)}L` : '—';
+
+const ComparablesPanel: React.FC<ComparablesPanelProps> = ({ estimate }) => {
+  const { comparables, priceBand } = estimate;
+
+  return (
+    <div className="bg-white rounded-2xl p-6 shadow-sm border border-gray-100">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center space-x-2">
+          <History className="w-5 h-5 text-indigo-600" />
+          <h3 className="text-lg font-bold text-gray-800">Your Comparable Deals</h3>
+        </div>
+        {priceBand && (
+          <div className="text-right">
+            <span className="block text-xs text-gray-500 uppercase">History estimate</span>
+            <span className="text-sm font-bold text-indigo-700">
+              {formatLakhs(priceBand.min)} - {formatLakhs(priceBand.max)}
+            </span>
+          </div>
+        )}
+      </div>
+
+      {comparables.length === 0 ? (
+        <p className="text-sm text-gray-500">No sufficiently similar past transactions in your history.</p>
+      ) : (
+        <div className="overflow-x-auto custom-scrollbar">
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-left text-gray-500 border-b border-gray-100">
+                <th className="py-1 pr-2">Match</th>
+                <th className="py-1 pr-2">Car</th>
+                <th className="py-1 pr-2">KM</th>
+                <th className="py-1 pr-2">Date</th>
+                <th className="py-1 pr-2 text-right">Bought</th>
+                <th className="py-1 text-right">Sold</th>
+              </tr>
+            </thead>
+            <tbody>
+              {comparables.map((comp, index) => (
+                <tr key={index} className="border-b border-gray-50">
+                  <td className="py-1.5 pr-2">
+                    <span className={`px-1.5 py-0.5 rounded font-medium ${
+                      comp.similarity >= 0.9 ? 'bg-emerald-100 text-emerald-700'
+                        : comp.similarity >= 0.8 ? 'bg-yellow-100 text-yellow-700'
+                        : 'bg-gray-100 text-gray-600'
+                    }`}>
+                      {Math.round(comp.similarity * 100)}%
+                    </span>
+                  </td>
+                  <td className="py-1.5 pr-2 text-gray-700">
+                    {comp.record.brand} {comp.record.model} {comp.record.variant}
+                    {comp.record.year && <span className="text-gray-400"> ({comp.record.year})</span>}
+                  </td>
+                  <td className="py-1.5 pr-2 text-gray-500">
+                    {comp.record.kmDriven !== undefined ? comp.record.kmDriven.toLocaleString('en-IN') : '—'}
+                  </td>
+                  <td className="py-1.5 pr-2 text-gray-500">{comp.record.date || '—'}</td>
+                  <td className="py-1.5 pr-2 text-right text-gray-700">{formatLakhs(comp.record.boughtPrice)}</td>
+                  <td className="py-1.5 text-right text-gray-700">{formatLakhs(comp.record.soldPrice)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="text-xs text-gray-400 mt-2">
+            Match = similarity across brand, model, variant, year, fuel, transmission, KM, owners and city.
+            Older deals count less towards the estimate.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ComparablesPanel;
@@ -0,0 +1,108 @@
+import React, { useMemo, useState } from 'react';
+import { ClipboardCheck, Wand2, ChevronDown, ChevronUp } from 'lucide-react';
+import { HistoricalRecord } from '../types';
+import {
+  NormalisationRule,
+  QualityIssueType,
+  QUALITY_ISSUE_LABELS,
+  buildQualityReport,
+} from '../utils/dataQuality';
+
+interface DataQualityReportProps {
+  records: HistoricalRecord[];
+  onApplyRules: (rules: NormalisationRule[]) => void;
+}
+
+const MAX_ROWS_LISTED = 12;
+
+const DataQualityReport: React.FC<DataQualityReportProps> = ({ records, onApplyRules }) => {
+  const [expanded, setExpanded] = useState<QualityIssueType | null>(null);
+  const report = useMemo(() => buildQualityReport(records), [records]);
+
+  const issueTypes = (Object.keys(report.counts) as QualityIssueType[]).filter(type => report.counts[type] > 0);
+
+  if (issueTypes.length === 0) {
+    return (
+      <div className="flex items-center text-emerald-700 text-xs bg-emerald-50 p-2 rounded mt-3">
+        <ClipboardCheck className="w-4 h-4 mr-2" />
+        No data-quality issues found in {report.totalRecords} rows.
+      </div>
+    );
+  }
+
+  return (
+    <div className="mt-3 border border-amber-200 rounded-lg bg-amber-50/50 p-3 space-y-2">
+      <div className="flex items-center space-x-2">
+        <ClipboardCheck className="w-4 h-4 text-amber-700" />
+        <h3 className="text-sm font-bold text-amber-900">Data Quality</h3>
+      </div>
+
+      {issueTypes.map(type => {
+        const issues = report.issues.filter(issue => issue.type === type);
+        const isOpen = expanded === type;
+
+        return (
+          <div key={type} className="bg-white rounded border border-amber-100">
+            <button
+              onClick={() => setExpanded(isOpen ? null : type)}
+              className="w-full flex items-center justify-between px-2 py-1.5 text-xs"
+            >
+              <span className="font-medium text-gray-700">{QUALITY_ISSUE_LABELS[type]}</span>
+              <span className="flex items-center space-x-1 text-amber-700">
+                <span>{report.counts[type]} rows</span>
+                {isOpen ? <ChevronUp className="w-3 h-3" /> : <ChevronDown className="w-3 h-3" />}
+              </span>
+            </button>
+            {isOpen && (
+              <div className="px-2 pb-2 space-y-1">
+                {issues.map((issue, index) => (
+                  <p key={index} className="text-xs text-gray-600">
+                    {issue.message}
+                    <span className="block font-mono text-gray-400">
+                      Rows {issue.rowNumbers.slice(0, MAX_ROWS_LISTED).join(', ')}
+                      {issue.rowNumbers.length > MAX_ROWS_LISTED && ` +${issue.rowNumbers.length - MAX_ROWS_LISTED} more`}
+                    </span>
+                  </p>
+                ))}
+              </div>
+            )}
+          </div>
+        );
+      })}
+
+      {/* One-click normalisation */}
+      {report.rules.length > 0 && (
+        <div className="pt-2 border-t border-amber-200 space-y-1">
+          <div className="flex items-center justify-between">
+            <span className="text-xs font-semibold text-gray-700">Suggested fixes</span>
+            {report.rules.length > 1 && (
+              <button
+                onClick={() => onApplyRules(report.rules)}
+                className="text-xs text-indigo-600 hover:text-indigo-700 font-medium"
+              >
+                Apply all
+              </button>
+            )}
+          </div>
+          {report.rules.map((rule, index) => (
+            <div key={index} className="flex items-center justify-between text-xs bg-white rounded px-2 py-1 border border-gray-100">
+              <span className="text-gray-600">
+                {rule.field === 'brand' ? 'Brand' : `${rule.brand} model`}: {rule.from.join(', ')} → <strong>{rule.to}</strong>
+                <span className="text-gray-400"> ({rule.affectedRows} rows)</span>
+              </span>
+              <button
+                onClick={() => onApplyRules([rule])}
+                className="flex items-center space-x-1 text-indigo-600 hover:text-indigo-700 font-medium ml-2"
+              >
+                <Wand2 className="w-3 h-3" />
+                <span>Apply</span>
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DataQualityReport;
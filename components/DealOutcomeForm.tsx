@@ -0,0 +1,113 @@
+import React, { useState } from 'react';
+import { DealOutcome, DealStatus } from '../utils/valuationLog';
+
+interface DealOutcomeFormProps {
+  outcome?: DealOutcome;
+  onSave: (outcome: DealOutcome | null) => void;
+  onCancel: () => void;
+}
+
+const STATUS_LABELS: Record<DealStatus, string> = {
+  bought: 'Bought',
+  lost: 'Lost to another buyer',
+  passed: 'Passed',
+};
+
+const toDateInput = (timestamp?: number) =>
+  timestamp ? new Date(timestamp).toISOString().slice(0, 10) : '';
+
+const toNumber = (value: string) => (value.trim() === '' ? undefined : Number(value));
+
+const inputClass = 'w-full mt-1 px-2 py-1.5 border border-gray-300 rounded-lg text-sm';
+
+const DealOutcomeForm: React.FC<DealOutcomeFormProps> = ({ outcome, onSave, onCancel }) => {
+  const [status, setStatus] = useState<DealStatus>(outcome?.status || 'bought');
+  const [actualPrice, setActualPrice] = useState(outcome?.actualPrice?.toString() || '');
+  const [decidedDate, setDecidedDate] = useState(toDateInput(outcome?.decidedAt || Date.now()));
+  const [soldPrice, setSoldPrice] = useState(outcome?.soldPrice?.toString() || '');
+  const [soldDate, setSoldDate] = useState(toDateInput(outcome?.soldAt));
+  const [refurbCost, setRefurbCost] = useState(outcome?.refurbCost?.toString() || '');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const isBought = status === 'bought';
+    onSave({
+      status,
+      actualPrice: status === 'passed' ? undefined : toNumber(actualPrice),
+      decidedAt: decidedDate ? new Date(decidedDate).getTime() : Date.now(),
+      soldPrice: isBought ? toNumber(soldPrice) : undefined,
+      soldAt: isBought && soldDate ? new Date(soldDate).getTime() : undefined,
+      refurbCost: isBought ? toNumber(refurbCost) : undefined,
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="mt-2 p-3 bg-gray-50 rounded-lg space-y-2">
+      <div className="grid grid-cols-2 gap-2">
+        <label className="text-xs text-gray-500">
+          Outcome
+          <select
+            className={`${inputClass} bg-white`}
+            value={status}
+            onChange={(e) => setStatus(e.target.value as DealStatus)}
+          >
+            {(Object.keys(STATUS_LABELS) as DealStatus[]).map(s => (
+              <option key={s} value={s}>{STATUS_LABELS[s]}</option>
+            ))}
+          </select>
+        </label>
+        <label className="text-xs text-gray-500">
+          Date
+          <input type="date" className={inputClass} value={decidedDate} onChange={(e) => setDecidedDate(e.target.value)} />
+        </label>
+      </div>
+
+      {status !== 'passed' && (
+        <label className="block text-xs text-gray-500">
+          {status === 'bought' ? 'Price we paid (₹)' : 'Price it went for (₹)'}
+          <input
+            required
+            type="number"
+            min="1"
+            className={inputClass}
+            value={actualPrice}
+            onChange={(e) => setActualPrice(e.target.value)}
+          />
+        </label>
+      )}
+
+      {status === 'bought' && (
+        <div className="grid grid-cols-3 gap-2">
+          <label className="text-xs text-gray-500">
+            Sold for (₹)
+            <input type="number" min="1" className={inputClass} value={soldPrice} onChange={(e) => setSoldPrice(e.target.value)} />
+          </label>
+          <label className="text-xs text-gray-500">
+            Sold on
+            <input type="date" className={inputClass} value={soldDate} onChange={(e) => setSoldDate(e.target.value)} />
+          </label>
+          <label className="text-xs text-gray-500">
+            Refurb (₹)
+            <input type="number" min="0" className={inputClass} value={refurbCost} onChange={(e) => setRefurbCost(e.target.value)} />
+          </label>
+        </div>
+      )}
+
+      <div className="flex items-center space-x-3 pt-1">
+        <button type="submit" className="px-3 py-1.5 bg-indigo-600 text-white text-xs font-medium rounded-lg hover:bg-indigo-700">
+          Save Outcome
+        </button>
+        {outcome && (
+          <button type="button" onClick={() => onSave(null)} className="text-xs text-red-600 hover:text-red-700 font-medium">
+            Clear
+          </button>
+        )}
+        <button type="button" onClick={onCancel} className="text-xs text-gray-500 hover:text-gray-700 font-medium">
+          Cancel
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default DealOutcomeForm;
@@ -1,21 +1,143 @@
-import React, { useState } from 'react';
-import { Database, FileText, Link, Check, AlertCircle, Shield, Trash2 } from 'lucide-react';
+import React, { useEffect, useRef, useState } from 'react';
+import { Database, FileText, Link, Check, AlertCircle, Shield, Trash2, Upload, Columns } from 'lucide-react';
+import { HistoricalRecord } from '../types';
+import {
+  ColumnMapping,
+  IngestionResult,
+  ingestRows,
+  readCsvRows,
+  readFileRows,
+  suggestColumnMapping,
+} from '../utils/historyIngestion';
+import { loadColumnMapping, saveColumnMapping } from '../utils/mappingStore';
+import { clearHistorySnapshot, loadHistorySnapshot, saveHistorySnapshot } from '../utils/historyStore';
+import { historyDatasetHash } from '../utils/datasetHash';
+import { recordAuditEvent } from '../services/auditService';
+import { NormalisationRule, applyNormalisationRules } from '../utils/dataQuality';
+import ColumnMappingWizard from './ColumnMappingWizard';
+import DataQualityReport from './DataQualityReport';
+
+// Pasted data re-ingests on every keystroke; audit once typing settles
+const AUDIT_DEBOUNCE_MS = 2000;
+
+type LoadSource = 'sheet' | 'file' | 'paste' | 'normalised';
 
 interface HistoryUploadProps {
-  onDataChange: (data: string) => void;
+  onDataChange: (records: HistoricalRecord[]) => void;
 }
 
 const HistoryUpload: React.FC<HistoryUploadProps> = ({ onDataChange }) => {
   const [data, setData] = useState('');
+  const [rawRows, setRawRows] = useState<string[][] | null>(null);
+  const [ingestion, setIngestion] = useState<IngestionResult | null>(null);
+  const [showWizard, setShowWizard] = useState(false);
+  const [mappingSource, setMappingSource] = useState<string | null>(null);
+  const [showRejected, setShowRejected] = useState(false);
   const [isExpanded, setIsExpanded] = useState(false);
-  const [activeTab, setActiveTab] = useState<'paste' | 'sheet'>('sheet');
+  const [activeTab, setActiveTab] = useState<'paste' | 'sheet' | 'file'>('sheet');
   const [sheetUrl, setSheetUrl] = useState('');
   const [fetchStatus, setFetchStatus] = useState<'idle' | 'loading' | 'success' | 'error'>('idle');
+  const [fileName, setFileName] = useState('');
+  const [isRestored, setIsRestored] = useState(false);
+  const [loadSource, setLoadSource] = useState<LoadSource>('sheet');
+  const lastAuditedVersion = useRef<string | null>(null);
+
+  // Restore the encrypted snapshot from earlier in this session (e.g. after a reload)
+  useEffect(() => {
+    loadHistorySnapshot()
+      .then(async snapshot => {
+        if (!snapshot) return;
+        // Restoring is not a new upload
+        lastAuditedVersion.current = await historyDatasetHash(snapshot.ingestion.records);
+        setRawRows(snapshot.rawRows);
+        setMappingSource(snapshot.mappingSource);
+        setFileName(snapshot.fileName);
+        setIngestion(snapshot.ingestion);
+        onDataChange(snapshot.ingestion.records);
+      })
+      .catch(err => console.error('Failed to restore history:', err))
+      .finally(() => setIsRestored(true));
+  }, []);
+
+  // Persist every change encrypted; nothing is written in clear text
+  useEffect(() => {
+    if (!isRestored) return;
+    const persist = ingestion
+      ? saveHistorySnapshot({ rawRows, ingestion, mappingSource, fileName })
+      : clearHistorySnapshot();
+    persist.catch(err => console.error('Failed to persist history:', err));
+  }, [ingestion, isRestored]);
+
+  // Audit each distinct dataset that gets loaded
+  useEffect(() => {
+    if (!isRestored || !ingestion) return;
+    const timer = setTimeout(async () => {
+      const version = await historyDatasetHash(ingestion.records);
+      if (version === lastAuditedVersion.current) return;
+      lastAuditedVersion.current = version;
+      recordAuditEvent('history_loaded', {
+        source: loadSource,
+        fileName: fileName || null,
+        rows: ingestion.records.length,
+        rejected: ingestion.rejected.length,
+        datasetVersion: version,
+      });
+    }, AUDIT_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [ingestion, isRestored]);
+
+  const applyIngestion = (result: IngestionResult | null) => {
+    setIngestion(result);
+    setShowRejected(false);
+    onDataChange(result ? result.records : []);
+  };
+
+  /**
+   * New rows arrived: reuse the saved mapping for this sheet, otherwise ask the user
+   */
+  const loadRows = (rows: string[][], sourceUrl: string | null) => {
+    setLoadSource(sourceUrl ? 'sheet' : 'file');
+    setRawRows(rows);
+    setMappingSource(sourceUrl);
+
+    const saved = sourceUrl && rows.length > 0 ? loadColumnMapping(sourceUrl, rows[0]) : null;
+    if (saved) {
+      applyIngestion(ingestRows(rows, saved));
+      setShowWizard(false);
+    } else {
+      applyIngestion(null);
+      setShowWizard(rows.length > 0);
+    }
+  };
+
+  const handleMappingConfirm = (mapping: ColumnMapping) => {
+    if (!rawRows) return;
+    if (mappingSource) {
+      saveColumnMapping(mappingSource, rawRows[0], mapping);
+    }
+    applyIngestion(ingestRows(rawRows, mapping));
+    setShowWizard(false);
+  };
+
+  const handleApplyRules = (rules: NormalisationRule[]) => {
+    if (!ingestion) return;
+    const records = applyNormalisationRules(ingestion.records, rules);
+    setLoadSource('normalised');
+    setIngestion({ ...ingestion, records });
+    onDataChange(records);
+  };
 
   const handleTextChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
     const val = e.target.value;
     setData(val);
-    onDataChange(val);
+
+    // Pasted data is ingested as you type with the suggested mapping; it can be edited afterwards
+    const rows = val.trim() ? readCsvRows(val) : [];
+    setRawRows(rows.length > 0 ? rows : null);
+    setLoadSource('paste');
+    setMappingSource(null);
+    setShowWizard(false);
+    applyIngestion(rows.length > 0 ? ingestRows(rows) : null);
   };
 
   const handleSheetFetch = async () => {
@@ -26,7 +148,7 @@ const HistoryUpload: React.FC<HistoryUploadProps> = ({ onDataChange }) => {
       if (!response.ok) throw new Error('Failed to fetch');
       const text = await response.text();
       setData(text);
-      onDataChange(text);
+      loadRows(readCsvRows(text), sheetUrl);
       setFetchStatus('success');
     } catch (e) {
       console.error(e);
@@ -34,6 +156,37 @@ const HistoryUpload: React.FC<HistoryUploadProps> = ({ onDataChange }) => {
     }
   };
 
+  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setFileName(file.name);
+    setFetchStatus('loading');
+    try {
+      loadRows(await readFileRows(file), null);
+      setFetchStatus('success');
+    } catch (err) {
+      console.error(err);
+      setFetchStatus('error');
+    }
+  };
+
+  const handleClear = () => {
+    if (ingestion) {
+      recordAuditEvent('history_cleared', { rows: ingestion.records.length });
+      lastAuditedVersion.current = null;
+    }
+    setData('');
+    setRawRows(null);
+    setShowWizard(false);
+    applyIngestion(null);
+    setSheetUrl('');
+    setFileName('');
+    setFetchStatus('idle');
+  };
+
+  const recordCount = ingestion?.records.length ?? 0;
+  const rejectedCount = ingestion?.rejected.length ?? 0;
+
   const placeholder = `Brand,Model,Year,BoughtPrice,SoldPrice
 Maruti,Swift,2018,450000,520000
 Hyundai,i20,2019,550000,610000
@@ -65,8 +218,9 @@ Honda,City,2017,600000,680000`;
               <Shield className="w-4 h-4 text-green-600 mt-0.5 mr-2 flex-shrink-0" />
               <div>
                 <p className="text-xs text-green-800 leading-relaxed">
-                  <strong>Privacy Protected:</strong> Your P&L data is encrypted locally and never stored on servers. 
-                  We only send anonymized insights (not raw prices/margins) to the AI for analysis.
+                  <strong>Privacy Protected:</strong> Your P&L data is stored on this device only, encrypted with
+                  AES-GCM, and wiped on logout. We only send anonymized insights (not raw prices/margins)
+                  to the AI for analysis.
                 </p>
               </div>
             </div>
@@ -79,6 +233,12 @@ Honda,City,2017,600000,680000`;
             >
               Connect Google Sheet
             </button>
+            <button 
+              onClick={() => setActiveTab('file')}
+              className={`pb-2 text-sm font-medium transition-colors ${activeTab === 'file' ? 'text-indigo-600 border-b-2 border-indigo-600' : 'text-gray-500 hover:text-gray-700'}`}
+            >
+              Upload File
+            </button>
             <button 
               onClick={() => setActiveTab('paste')}
               className={`pb-2 text-sm font-medium transition-colors ${activeTab === 'paste' ? 'text-indigo-600 border-b-2 border-indigo-600' : 'text-gray-500 hover:text-gray-700'}`}
@@ -118,10 +278,10 @@ Honda,City,2017,600000,680000`;
                 </button>
               </div>
               
-              {fetchStatus === 'success' && (
+              {fetchStatus === 'success' && ingestion && (
                 <div className="flex items-center text-emerald-600 text-sm bg-emerald-50 p-2 rounded">
                   <Check className="w-4 h-4 mr-2" />
-                  Successfully loaded {data.split('\n').length} rows of history.
+                  Successfully loaded {recordCount} rows of history.
                 </div>
               )}
               {fetchStatus === 'error' && (
@@ -131,6 +291,27 @@ Honda,City,2017,600000,680000`;
                 </div>
               )}
             </div>
+          ) : activeTab === 'file' ? (
+            <div className="space-y-4">
+              <label className="flex flex-col items-center justify-center border-2 border-dashed border-gray-300 rounded-lg p-6 cursor-pointer hover:border-indigo-400 transition-colors">
+                <Upload className="w-6 h-6 text-gray-400 mb-2" />
+                <span className="text-sm text-gray-600">
+                  {fileName || 'Choose a .csv, .xlsx or .xls file'}
+                </span>
+                <input
+                  type="file"
+                  accept=".csv,.xlsx,.xls"
+                  className="hidden"
+                  onChange={handleFileSelect}
+                />
+              </label>
+              {fetchStatus === 'error' && (
+                <div className="flex items-center text-red-600 text-sm bg-red-50 p-2 rounded">
+                  <AlertCircle className="w-4 h-4 mr-2" />
+                  Could not read this file. Check it is a valid CSV or Excel workbook.
+                </div>
+              )}
+            </div>
           ) : (
             <div>
               <p className="text-sm text-gray-600 mb-2">
@@ -148,26 +329,73 @@ Honda,City,2017,600000,680000`;
             </div>
           )}
           
+          {/* Column Mapping */}
+          {showWizard && rawRows && (
+            <div className="mt-4">
+              <ColumnMappingWizard
+                key={mappingSource || fileName || 'paste'}
+                rows={rawRows}
+                initialMapping={ingestion?.mapping || suggestColumnMapping(rawRows[0])}
+                onConfirm={handleMappingConfirm}
+                onCancel={() => setShowWizard(false)}
+              />
+            </div>
+          )}
+
           {/* Data Status and Clear Button */}
           <div className="flex items-center justify-between mt-4">
             <p className="text-xs text-gray-400">
-              {data.length > 0 ? `${data.split('\n').length} rows loaded` : 'No data loaded'}
+              {ingestion ? (
+                <>
+                  {recordCount} rows loaded
+                  {rejectedCount > 0 && (
+                    <button
+                      onClick={() => setShowRejected(!showRejected)}
+                      className="ml-2 text-amber-600 hover:text-amber-700 font-medium"
+                    >
+                      {rejectedCount} rejected
+                    </button>
+                  )}
+                </>
+              ) : rawRows ? 'Confirm the column mapping to load data' : 'No data loaded'}
             </p>
-            {data.length > 0 && (
-              <button
-                onClick={() => {
-                  setData('');
-                  onDataChange('');
-                  setSheetUrl('');
-                  setFetchStatus('idle');
-                }}
-                className="flex items-center space-x-1 text-xs text-red-600 hover:text-red-700 font-medium"
-              >
-                <Trash2 className="w-3 h-3" />
-                <span>Clear Data</span>
-              </button>
+            {rawRows && (
+              <div className="flex items-center space-x-3">
+                {!showWizard && (
+                  <button
+                    onClick={() => setShowWizard(true)}
+                    className="flex items-center space-x-1 text-xs text-indigo-600 hover:text-indigo-700 font-medium"
+                  >
+                    <Columns className="w-3 h-3" />
+                    <span>Edit Mapping</span>
+                  </button>
+                )}
+                <button
+                  onClick={handleClear}
+                  className="flex items-center space-x-1 text-xs text-red-600 hover:text-red-700 font-medium"
+                >
+                  <Trash2 className="w-3 h-3" />
+                  <span>Clear Data</span>
+                </button>
+              </div>
             )}
           </div>
+
+          {/* Data Quality */}
+          {ingestion && recordCount > 0 && !showWizard && (
+            <DataQualityReport records={ingestion.records} onApplyRules={handleApplyRules} />
+          )}
+
+          {/* Rejected Rows */}
+          {ingestion && showRejected && rejectedCount > 0 && (
+            <div className="mt-2 max-h-40 overflow-y-auto custom-scrollbar bg-amber-50 border border-amber-200 rounded-lg p-2">
+              {ingestion.rejected.map(row => (
+                <p key={row.rowNumber} className="text-xs text-amber-800">
+                  <span className="font-mono">Row {row.rowNumber}:</span> {row.reason}
+                </p>
+              ))}
+            </div>
+          )}
         </div>
       )}
     </div>
@@ -0,0 +1,132 @@
+import React from 'react';
+import { ClipboardCheck } from 'lucide-react';
+import { AccidentHistory, InsuranceType, ServiceHistory, VehicleCondition } from '../types';
+import { ACCIDENT_LABELS, DEFAULT_CONDITION, INSURANCE_LABELS, SERVICE_LABELS } from '../utils/inspection';
+
+interface InspectionChecklistProps {
+  condition?: VehicleCondition; // Undefined until the buyer ticks "Car inspected"
+  onChange: (condition: VehicleCondition | undefined) => void;
+}
+
+const inputClass =
+  'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent outline-none transition-all bg-white text-sm';
+
+const InspectionChecklist: React.FC<InspectionChecklistProps> = ({ condition, onChange }) => {
+  const update = <K extends keyof VehicleCondition>(field: K, value: VehicleCondition[K]) => {
+    onChange({ ...(condition || DEFAULT_CONDITION), [field]: value });
+  };
+
+  return (
+    <div className="border-t border-gray-100 pt-4">
+      <label className="flex items-center justify-between cursor-pointer">
+        <span className="flex items-center space-x-2">
+          <ClipboardCheck className="w-5 h-5 text-orange-600" />
+          <span>
+            <span className="block text-sm font-semibold text-gray-800">Inspection checklist</span>
+            <span className="block text-xs text-gray-500">
+              {condition ? 'Refurbishment is estimated item by item' : 'Not inspected: a flat refurbishment allowance is used'}
+            </span>
+          </span>
+        </span>
+        <input
+          type="checkbox"
+          className="w-4 h-4 accent-orange-600"
+          checked={!!condition}
+          onChange={(e) => onChange(e.target.checked ? DEFAULT_CONDITION : undefined)}
+        />
+      </label>
+
+      {condition && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-4 animate-in fade-in slide-in-from-top-2 duration-300">
+          <label className="block text-sm font-medium text-gray-700">
+            Accident history
+            <select
+              className={`${inputClass} mt-1`}
+              value={condition.accident}
+              onChange={(e) => update('accident', e.target.value as AccidentHistory)}
+            >
+              {(Object.keys(ACCIDENT_LABELS) as AccidentHistory[]).map(value => (
+                <option key={value} value={value}>{ACCIDENT_LABELS[value]}</option>
+              ))}
+            </select>
+          </label>
+
+          <label className="block text-sm font-medium text-gray-700">
+            Repainted panels
+            <input
+              type="number"
+              min="0"
+              max="20"
+              className={`${inputClass} mt-1`}
+              value={condition.repaintedPanels}
+              onChange={(e) => update('repaintedPanels', Math.max(0, Math.min(20, Math.floor(Number(e.target.value) || 0))))}
+            />
+          </label>
+
+          <label className="block text-sm font-medium text-gray-700 md:col-span-2">
+            Tyre life: {condition.tyreLifePct}% tread left
+            <input
+              type="range"
+              min="0"
+              max="100"
+              step="5"
+              className="w-full mt-2 accent-orange-600"
+              value={condition.tyreLifePct}
+              onChange={(e) => update('tyreLifePct', Number(e.target.value))}
+            />
+          </label>
+
+          <label className="block text-sm font-medium text-gray-700">
+            Service records
+            <select
+              className={`${inputClass} mt-1`}
+              value={condition.serviceHistory}
+              onChange={(e) => update('serviceHistory', e.target.value as ServiceHistory)}
+            >
+              {(Object.keys(SERVICE_LABELS) as ServiceHistory[]).map(value => (
+                <option key={value} value={value}>{SERVICE_LABELS[value]}</option>
+              ))}
+            </select>
+          </label>
+
+          <label className="block text-sm font-medium text-gray-700">
+            Insurance
+            <select
+              className={`${inputClass} mt-1`}
+              value={condition.insurance}
+              onChange={(e) => update('insurance', e.target.value as InsuranceType)}
+            >
+              {(Object.keys(INSURANCE_LABELS) as InsuranceType[]).map(value => (
+                <option key={value} value={value}>{INSURANCE_LABELS[value]}</option>
+              ))}
+            </select>
+          </label>
+
+          <label className="block text-sm font-medium text-gray-700">
+            Insurance claims (last 3 years)
+            <input
+              type="number"
+              min="0"
+              max="10"
+              className={`${inputClass} mt-1`}
+              value={condition.insuranceClaims}
+              onChange={(e) => update('insuranceClaims', Math.max(0, Math.min(10, Math.floor(Number(e.target.value) || 0))))}
+            />
+          </label>
+
+          <label className="flex items-center space-x-2 text-sm font-medium text-gray-700 self-end pb-2">
+            <input
+              type="checkbox"
+              className="w-4 h-4 accent-red-600"
+              checked={condition.floodDamage}
+              onChange={(e) => update('floodDamage', e.target.checked)}
+            />
+            <span>Flood damage (water line, silt, rusted seat rails)</span>
+          </label>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default InspectionChecklist;
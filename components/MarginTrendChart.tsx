@@ -0,0 +1,97 @@
+import React from 'react';
+import { MarginTrendPoint } from '../types';
+
+interface MarginTrendChartProps {
+  trend: MarginTrendPoint[];
+}
+
+const WIDTH = 320;
+const HEIGHT = 120;
+const PADDING = { top: 10, right: 8, bottom: 18, left: 8 };
+
+/**
+ * Small combo chart: bars = average margin %, line = average days to sell
+ */
+const MarginTrendChart: React.FC<MarginTrendChartProps> = ({ trend }) => {
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+  const slot = plotWidth / trend.length;
+
+  const margins = trend.map(p => p.avgMargin).filter((m): m is number => m !== null);
+  const days = trend.map(p => p.avgDaysToSell).filter((d): d is number => d !== null);
+
+  // Margins can be negative, so the bars grow from a zero line
+  const maxMargin = Math.max(1, ...margins);
+  const minMargin = Math.min(0, ...margins);
+  const marginRange = maxMargin - minMargin;
+  const marginY = (value: number) => PADDING.top + ((maxMargin - value) / marginRange) * plotHeight;
+  const zeroY = marginY(0);
+
+  const maxDays = Math.max(1, ...days);
+  const daysY = (value: number) => PADDING.top + (1 - value / maxDays) * plotHeight;
+
+  const dayPoints = trend
+    .map((point, i) => point.avgDaysToSell !== null
+      ? `${PADDING.left + slot * i + slot / 2},${daysY(point.avgDaysToSell)}`
+      : null)
+    .filter(Boolean)
+    .join(' ');
+
+  const labelEvery = Math.ceil(trend.length / 6);
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label="Margin and days-to-sell trend">
+        <line x1={PADDING.left} x2={WIDTH - PADDING.right} y1={zeroY} y2={zeroY} stroke="currentColor" strokeOpacity={0.2} />
+
+        {trend.map((point, i) => {
+          if (point.avgMargin === null) return null;
+          const y = marginY(point.avgMargin);
+          return (
+            <rect
+              key={point.period}
+              x={PADDING.left + slot * i + slot * 0.2}
+              y={Math.min(y, zeroY)}
+              width={slot * 0.6}
+              height={Math.max(1, Math.abs(zeroY - y))}
+              rx={2}
+              className={point.avgMargin >= 0 ? 'fill-current opacity-60' : 'fill-red-500 opacity-70'}
+            >
+              <title>{`${point.label}: ${point.avgMargin.toFixed(1)}% margin over ${point.count} deals`}</title>
+            </rect>
+          );
+        })}
+
+        {days.length > 1 && (
+          <polyline points={dayPoints} fill="none" stroke="#6366f1" strokeWidth={2} strokeLinejoin="round" />
+        )}
+        {trend.map((point, i) => point.avgDaysToSell !== null && (
+          <circle key={point.period} cx={PADDING.left + slot * i + slot / 2} cy={daysY(point.avgDaysToSell)} r={2.5} fill="#6366f1">
+            <title>{`${point.label}: ${Math.round(point.avgDaysToSell)} days to sell`}</title>
+          </circle>
+        ))}
+
+        {trend.map((point, i) => i % labelEvery === 0 && (
+          <text
+            key={point.period}
+            x={PADDING.left + slot * i + slot / 2}
+            y={HEIGHT - 4}
+            textAnchor="middle"
+            fontSize={9}
+            className="fill-gray-500"
+          >
+            {point.label}
+          </text>
+        ))}
+      </svg>
+      <div className="flex items-center space-x-4 text-xs mt-1">
+        <span className="flex items-center"><span className="inline-block w-3 h-2 bg-current opacity-60 rounded-sm mr-1" />Margin %</span>
+        {days.length > 0 && (
+          <span className="flex items-center text-indigo-600"><span className="inline-block w-3 h-0.5 bg-indigo-500 mr-1" />Days to sell</span>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default MarginTrendChart;
@@ -0,0 +1,98 @@
+import React, { useState } from 'react';
+import { KeyRound } from 'lucide-react';
+
+interface PasswordChangedPromptProps {
+  error: string;
+  isBusy: boolean;
+  onRekey: (previousPassword: string) => void;
+  onStartFresh: () => void;
+  onCancel: () => void;
+}
+
+/**
+ * Shown when the server accepted the password but the data on this device was
+ * encrypted under an earlier one: re-encrypt it with the previous password, or discard it
+ */
+const PasswordChangedPrompt: React.FC<PasswordChangedPromptProps> = ({ error, isBusy, onRekey, onStartFresh, onCancel }) => {
+  const [previousPassword, setPreviousPassword] = useState('');
+  const [confirmFresh, setConfirmFresh] = useState(false);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onRekey(previousPassword);
+    setPreviousPassword('');
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-start space-x-3 bg-indigo-50 border border-indigo-100 rounded-lg p-4">
+        <KeyRound className="w-5 h-5 text-indigo-600 mt-0.5 flex-shrink-0" />
+        <p className="text-sm text-indigo-900">
+          Your password has changed since you last used this device. Enter your previous password to
+          re-encrypt the valuations saved here under the new one.
+        </p>
+      </div>
+
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <input
+          type="password"
+          value={previousPassword}
+          onChange={(e) => setPreviousPassword(e.target.value)}
+          className="w-full px-3 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent outline-none"
+          autoComplete="off"
+          placeholder="Previous password"
+          autoFocus
+        />
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+            {error}
+          </div>
+        )}
+
+        <button
+          type="submit"
+          disabled={isBusy || !previousPassword}
+          className="w-full bg-indigo-600 text-white py-3 rounded-lg font-medium hover:bg-indigo-700 transition-colors disabled:bg-gray-400"
+        >
+          {isBusy ? 'Re-encrypting...' : 'Re-encrypt my data'}
+        </button>
+      </form>
+
+      {confirmFresh ? (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 text-sm text-red-800 space-y-3">
+          <p>Your saved valuations on this device will be deleted. This cannot be undone.</p>
+          <div className="flex space-x-2">
+            <button
+              onClick={onStartFresh}
+              disabled={isBusy}
+              className="flex-1 bg-red-600 text-white py-2 rounded-lg font-medium hover:bg-red-700 disabled:bg-gray-400"
+            >
+              Delete and continue
+            </button>
+            <button
+              onClick={() => setConfirmFresh(false)}
+              className="flex-1 bg-white border border-gray-300 text-gray-700 py-2 rounded-lg font-medium hover:bg-gray-50"
+            >
+              Keep them
+            </button>
+          </div>
+        </div>
+      ) : (
+        <button
+          onClick={() => setConfirmFresh(true)}
+          disabled={isBusy}
+          className="w-full text-sm text-gray-600 hover:text-red-600"
+        >
+          I don't know my previous password — start fresh on this device
+        </button>
+      )}
+
+      <button onClick={onCancel} disabled={isBusy} className="w-full text-sm text-gray-500 hover:text-gray-700">
+        Cancel and sign out
+      </button>
+    </div>
+  );
+};
+
+export default PasswordChangedPrompt;
@@ -0,0 +1,45 @@
+import React from 'react';
+import { Clock } from 'lucide-react';
+
+interface SessionWarningModalProps {
+  secondsLeft: number;
+  onExtend: () => void;
+  onLogout: () => void;
+}
+
+const formatCountdown = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+
+const SessionWarningModal: React.FC<SessionWarningModalProps> = ({ secondsLeft, onExtend, onLogout }) => (
+  <div className="fixed inset-0 z-[60] bg-gray-900/40 flex items-center justify-center p-4" role="alertdialog" aria-modal="true">
+    <div className="bg-white rounded-2xl shadow-xl border border-gray-100 p-6 max-w-sm w-full text-center animate-in fade-in zoom-in-95">
+      <div className="flex justify-center mb-3">
+        <div className="bg-amber-100 p-3 rounded-full">
+          <Clock className="w-6 h-6 text-amber-600" />
+        </div>
+      </div>
+      <h2 className="text-lg font-semibold text-gray-800">Still there?</h2>
+      <p className="text-sm text-gray-500 mt-1">
+        Your session locks in <span className="font-mono font-semibold text-gray-800">{formatCountdown(secondsLeft)}</span> due
+        to inactivity. Unsaved form entries are kept, but you will need your password to continue.
+      </p>
+      <div className="mt-5 flex space-x-3">
+        <button
+          onClick={onLogout}
+          className="flex-1 py-2 rounded-lg text-sm font-medium text-gray-600 border border-gray-300 hover:bg-gray-50"
+        >
+          Logout
+        </button>
+        <button
+          onClick={onExtend}
+          autoFocus
+          className="flex-1 py-2 rounded-lg text-sm font-medium bg-indigo-600 text-white hover:bg-indigo-700"
+        >
+          Stay signed in
+        </button>
+      </div>
+    </div>
+  </div>
+);
+
+export default SessionWarningModal;
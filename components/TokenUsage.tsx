@@ -1,101 +1,158 @@
-import React from 'react';
-import { TrendingDown, Zap, Database, Clock } from 'lucide-react';
-import { getCacheStats } from '../utils/cacheManager';
+import React, { useEffect, useState } from 'react';
+import { TrendingDown, Zap, Database, Clock, Building2, AlertTriangle } from 'lucide-react';
+import { UsageSummaryResponse, UsageTotals, ValuationUsage } from '../types';
+import { CACHE_LIMITS, getCacheStats } from '../utils/cacheManager';
+import { totalTokens } from '../utils/tokenCounts';
+import { cacheHitRate, fetchUsageSummary, getSessionUsage } from '../services/usageService';
 
 interface TokenUsageProps {
-  estimatedTokens?: number;
-  isCached?: boolean;
+  usage: ValuationUsage | null; // Last valuation run in this session
+  refreshKey: number; // Bump after each valuation to reload the totals
 }
 
-const TokenUsage: React.FC<TokenUsageProps> = ({ estimatedTokens, isCached }) => {
-  const cacheStats = getCacheStats();
-  
-  // Estimate cost (Gemini 2.5 Flash pricing)
-  const inputCostPer1M = 0.075; // $0.075 per 1M input tokens
-  const outputCostPer1M = 0.30; // $0.30 per 1M output tokens
-  
-  const estimatedInputTokens = estimatedTokens || 0;
-  const estimatedOutputTokens = 500; // Average output
-  const totalTokens = estimatedInputTokens + estimatedOutputTokens;
-  
-  const estimatedCost = isCached ? 0 : (
-    (estimatedInputTokens / 1000000 * inputCostPer1M) +
-    (estimatedOutputTokens / 1000000 * outputCostPer1M)
-  );
+const formatUsd = (value: number) => `$${value < 1 ? value.toFixed(4) : value.toFixed(2)}`;
+
+const describeTotals = (totals: UsageTotals) =>
+  `${totals.valuations} live • ${totals.cacheHits} cached • ${totalTokens(totals).toLocaleString()} tokens`;
+
+const TokenUsage: React.FC<TokenUsageProps> = ({ usage, refreshKey }) => {
+  const [cacheStats, setCacheStats] = useState({ count: 0, oldestAge: 0, bytes: 0 });
+  const [summary, setSummary] = useState<UsageSummaryResponse | null>(null);
+
+  useEffect(() => {
+    getCacheStats().then(setCacheStats);
+    fetchUsageSummary()
+      .then(setSummary)
+      .catch(error => console.warn('Failed to load usage totals:', error));
+  }, [refreshKey]);
+
+  const session = getSessionUsage();
+  const hitRate = summary ? cacheHitRate(summary.cacheTrend) : null;
+  const budgetAlerts = summary?.budget.checks.filter(check => check.state !== 'ok') || [];
 
   return (
     <div className="bg-gradient-to-r from-purple-50 to-blue-50 border border-purple-200 rounded-xl p-4 mb-6">
       <div className="flex items-center justify-between mb-3">
         <div className="flex items-center space-x-2">
           <TrendingDown className="w-5 h-5 text-purple-600" />
-          <h3 className="text-sm font-bold text-purple-900">Token Optimization Active</h3>
+          <h3 className="text-sm font-bold text-purple-900">Model Usage & Cost</h3>
         </div>
-        {isCached && (
+        {usage?.cacheHit && (
           <span className="bg-green-100 text-green-700 text-xs font-medium px-2 py-1 rounded-full flex items-center space-x-1">
             <Zap className="w-3 h-3" />
             <span>Cached</span>
           </span>
         )}
       </div>
-      
+
+      {budgetAlerts.length > 0 && (
+        <div className={`mb-3 p-3 rounded-lg text-xs flex items-start space-x-2 ${
+          summary!.budget.state === 'exceeded' ? 'bg-red-50 text-red-700' : 'bg-amber-50 text-amber-800'
+        }`}>
+          <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+          <div className="space-y-0.5">
+            {budgetAlerts.map(check => (
+              <p key={`${check.scope}-${check.period}-${check.metric}`}>{check.message}</p>
+            ))}
+            {summary!.budget.state === 'exceeded' && (
+              <p className="font-medium">New valuations are paused; cached results still work.</p>
+            )}
+          </div>
+        </div>
+      )}
+
       <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
         <div className="bg-white rounded-lg p-3">
           <div className="flex items-center space-x-2 mb-1">
             <Database className="w-4 h-4 text-blue-600" />
-            <span className="text-xs text-gray-600">Est. Tokens</span>
+            <span className="text-xs text-gray-600">Last Request</span>
           </div>
           <p className="text-lg font-bold text-gray-900">
-            {isCached ? '0' : totalTokens.toLocaleString()}
+            {usage ? totalTokens(usage).toLocaleString() : '—'}
           </p>
           <p className="text-xs text-gray-500">
-            {isCached ? 'From cache' : `~${estimatedInputTokens.toLocaleString()} in`}
+            {!usage
+              ? 'No valuation yet'
+              : usage.cacheHit
+                ? 'From cache, no model call'
+                : `${usage.promptTokens.toLocaleString()} in • ${(usage.candidatesTokens + usage.thoughtsTokens).toLocaleString()} out • ${usage.toolUseTokens.toLocaleString()} search`}
           </p>
         </div>
-        
+
         <div className="bg-white rounded-lg p-3">
           <div className="flex items-center space-x-2 mb-1">
             <TrendingDown className="w-4 h-4 text-green-600" />
             <span className="text-xs text-gray-600">Cost</span>
           </div>
           <p className="text-lg font-bold text-gray-900">
-            ${estimatedCost.toFixed(4)}
+            {usage ? (usage.costUsd === null ? 'n/a' : formatUsd(usage.costUsd)) : '—'}
           </p>
           <p className="text-xs text-gray-500">
-            {isCached ? 'Free!' : 'Per request'}
+            {usage?.costUsd === null ? `No price for ${usage.model}` : usage ? `${usage.model}${usage.calls > 1 ? ` • ${usage.calls} calls` : ''}` : 'Per request'}
           </p>
         </div>
-        
+
         <div className="bg-white rounded-lg p-3">
           <div className="flex items-center space-x-2 mb-1">
             <Zap className="w-4 h-4 text-orange-600" />
-            <span className="text-xs text-gray-600">Cached</span>
+            <span className="text-xs text-gray-600">This Session</span>
           </div>
           <p className="text-lg font-bold text-gray-900">
-            {cacheStats.count}
+            {formatUsd(session.costUsd)}
           </p>
           <p className="text-xs text-gray-500">
-            Results stored
+            {describeTotals(session)}
           </p>
         </div>
-        
+
         <div className="bg-white rounded-lg p-3">
           <div className="flex items-center space-x-2 mb-1">
             <Clock className="w-4 h-4 text-purple-600" />
-            <span className="text-xs text-gray-600">Savings</span>
+            <span className="text-xs text-gray-600">You Today</span>
           </div>
           <p className="text-lg font-bold text-gray-900">
-            99%+
+            {summary ? formatUsd(summary.user.today.costUsd) : '—'}
           </p>
           <p className="text-xs text-gray-500">
-            Token reduction
+            {summary ? `${formatUsd(summary.user.month.costUsd)} this month` : 'Loading...'}
           </p>
         </div>
       </div>
-      
+
+      {summary?.dealership && (
+        <div className="mt-3 bg-white rounded-lg p-3 flex items-start space-x-2">
+          <Building2 className="w-4 h-4 text-indigo-600 mt-0.5" />
+          <div className="text-xs text-gray-600 space-y-0.5">
+            <p>
+              <strong className="text-gray-900">Dealership this month: {formatUsd(summary.dealership.month.costUsd)}</strong>
+              {' '}({describeTotals(summary.dealership.month)})
+            </p>
+            <p>
+              Today: {formatUsd(summary.dealership.today.costUsd)} ({describeTotals(summary.dealership.today)})
+            </p>
+            {summary.dealership.byUser && (
+              <ul className="pt-1 space-y-0.5">
+                {Object.entries(summary.dealership.byUser)
+                  .sort(([, a], [, b]) => b.month.costUsd - a.month.costUsd)
+                  .map(([username, periods]) => (
+                    <li key={username}>
+                      <span className="font-medium text-gray-800">{username}</span>: {formatUsd(periods.month.costUsd)} this month,
+                      {' '}{formatUsd(periods.today.costUsd)} today ({periods.month.valuations} live)
+                    </li>
+                  ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      )}
+
       <div className="mt-3 pt-3 border-t border-purple-200">
         <p className="text-xs text-purple-700">
-          <strong>Optimization:</strong> Smart filtering reduces 8000+ rows to ~50 relevant records. 
-          Results cached for 24 hours. {cacheStats.count > 0 && `Oldest cache: ${cacheStats.oldestAge}min ago.`}
+          <strong>Cache hit rate (14 days):</strong>{' '}
+          {hitRate && hitRate.rate !== null ? `${Math.round(hitRate.rate * 100)}% of ${hitRate.total} quotes.` : 'no quotes yet.'}{' '}
+          {cacheStats.count} of {CACHE_LIMITS.maxEntries} results cached
+          ({Math.round(cacheStats.bytes / 1024)} KB), least recently used dropped first.
+          {cacheStats.count > 0 && ` Oldest cache: ${cacheStats.oldestAge}min ago.`}
         </p>
       </div>
     </div>
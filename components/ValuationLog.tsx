@@ -0,0 +1,219 @@
+import React, { useEffect, useState } from 'react';
+import { History, Search, RotateCcw, Eye, Trash2, Flag } from 'lucide-react';
+import { AuthUser, CarDetails } from '../types';
+import DealOutcomeForm from './DealOutcomeForm';
+import {
+  DealOutcome,
+  ValuationLogEntry,
+  deleteValuationLogEntry,
+  listValuationLog,
+  recordDealOutcome,
+} from '../utils/valuationLog';
+
+interface ValuationLogProps {
+  user: AuthUser; // Only this user's entries are shown
+  refreshKey: number; // Bump to reload after a new valuation is stored
+  onOpen: (entry: ValuationLogEntry) => void;
+  onRerun: (car: CarDetails) => void;
+  onChange: () => void; // An entry was deleted or its outcome changed
+  isLoading: boolean;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const formatLakhs = (value: number) => `₹${(value / 100000).toFixed(2)}L`;
+
+const OUTCOME_BADGES: Record<DealOutcome['status'], string> = {
+  bought: 'bg-emerald-100 text-emerald-700',
+  lost: 'bg-amber-100 text-amber-700',
+  passed: 'bg-gray-100 text-gray-600',
+};
+
+const ValuationLog: React.FC<ValuationLogProps> = ({ user, refreshKey, onOpen, onRerun, onChange, isLoading }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [entries, setEntries] = useState<ValuationLogEntry[]>([]);
+  const [query, setQuery] = useState('');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [loadError, setLoadError] = useState(false);
+  const [editingOutcomeId, setEditingOutcomeId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isExpanded) return;
+    let cancelled = false;
+
+    listValuationLog({
+      owner: user.username,
+      query,
+      from: fromDate ? new Date(fromDate).getTime() : undefined,
+      to: toDate ? new Date(toDate).getTime() + DAY_MS - 1 : undefined,
+    })
+      .then(result => {
+        if (!cancelled) {
+          setEntries(result);
+          setLoadError(false);
+        }
+      })
+      .catch(error => {
+        console.error('Failed to load valuation log:', error);
+        if (!cancelled) setLoadError(true);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isExpanded, query, fromDate, toDate, refreshKey, user.username]);
+
+  const handleDelete = async (id: string) => {
+    await deleteValuationLogEntry(id);
+    setEntries(prev => prev.filter(entry => entry.id !== id));
+    onChange();
+  };
+
+  const handleSaveOutcome = async (id: string, outcome: DealOutcome | null) => {
+    try {
+      const updated = await recordDealOutcome(id, outcome, user);
+      setEntries(prev => prev.map(entry => (entry.id === id ? updated : entry)));
+      setEditingOutcomeId(null);
+      onChange();
+    } catch (error) {
+      console.error('Failed to save deal outcome:', error);
+      setLoadError(true);
+    }
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-2xl shadow-sm border border-gray-100">
+      <div
+        className="flex items-center justify-between cursor-pointer"
+        onClick={() => setIsExpanded(!isExpanded)}
+      >
+        <div className="flex items-center space-x-2">
+          <History className="text-indigo-600 w-6 h-6" />
+          <div>
+            <h2 className="text-xl font-semibold text-gray-800">Valuation Log</h2>
+            <p className="text-xs text-gray-500">Past quotes, stored encrypted on this device</p>
+          </div>
+        </div>
+        <button className="text-gray-400 hover:text-orange-600 transition-colors text-sm font-medium">
+          {isExpanded ? 'Hide' : 'Expand'}
+        </button>
+      </div>
+
+      {isExpanded && (
+        <div className="mt-4 space-y-3 animate-in fade-in slide-in-from-top-2 duration-300">
+          <div className="relative">
+            <Search className="absolute left-3 top-2.5 text-gray-400 w-4 h-4" />
+            <input
+              type="text"
+              placeholder="Search brand, model or variant"
+              className="w-full pl-10 pr-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none text-sm"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <label className="text-xs text-gray-500">
+              From
+              <input
+                type="date"
+                className="w-full mt-1 px-2 py-1.5 border border-gray-300 rounded-lg text-sm"
+                value={fromDate}
+                onChange={(e) => setFromDate(e.target.value)}
+              />
+            </label>
+            <label className="text-xs text-gray-500">
+              To
+              <input
+                type="date"
+                className="w-full mt-1 px-2 py-1.5 border border-gray-300 rounded-lg text-sm"
+                value={toDate}
+                onChange={(e) => setToDate(e.target.value)}
+              />
+            </label>
+          </div>
+
+          {loadError && (
+            <p className="text-xs text-red-600">Could not read the valuation log on this device.</p>
+          )}
+
+          {entries.length === 0 ? (
+            <p className="text-xs text-gray-400">No saved valuations match.</p>
+          ) : (
+            <div className="max-h-80 overflow-y-auto custom-scrollbar space-y-2">
+              {entries.map(entry => (
+                <div key={entry.id} className="border border-gray-200 rounded-lg p-3">
+                  <div className="flex items-start justify-between">
+                    <div>
+                      <p className="text-sm font-medium text-gray-800">
+                        {entry.car.brand} {entry.car.model} {entry.car.variant}
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        {entry.car.year} • {entry.car.kmDriven.toLocaleString('en-IN')} km • {entry.car.location}
+                      </p>
+                      <p className="text-xs text-gray-400">
+                        {new Date(entry.createdAt).toLocaleString('en-IN')}
+                      </p>
+                      {entry.outcome && (
+                        <span className={`inline-block mt-1 px-2 py-0.5 rounded-full text-xs font-medium ${OUTCOME_BADGES[entry.outcome.status]}`}>
+                          {entry.outcome.status}
+                          {entry.outcome.actualPrice ? ` @ ${formatLakhs(entry.outcome.actualPrice)}` : ''}
+                          {entry.outcome.soldPrice ? ` • sold ${formatLakhs(entry.outcome.soldPrice)}` : ''}
+                        </span>
+                      )}
+                    </div>
+                    <span className={`text-sm font-bold whitespace-nowrap ${entry.result.notViable ? 'text-red-600' : 'text-emerald-600'}`}>
+                      {entry.result.notViable
+                        ? 'Not viable'
+                        : `${formatLakhs(entry.result.priceBand.min)} - ${formatLakhs(entry.result.priceBand.max)}`}
+                    </span>
+                  </div>
+                  <div className="flex items-center space-x-3 mt-2">
+                    <button
+                      onClick={() => onOpen(entry)}
+                      className="flex items-center space-x-1 text-xs text-indigo-600 hover:text-indigo-700 font-medium"
+                    >
+                      <Eye className="w-3 h-3" />
+                      <span>Open</span>
+                    </button>
+                    <button
+                      onClick={() => onRerun(entry.car)}
+                      disabled={isLoading}
+                      className="flex items-center space-x-1 text-xs text-orange-600 hover:text-orange-700 font-medium disabled:text-gray-300"
+                    >
+                      <RotateCcw className="w-3 h-3" />
+                      <span>Re-run</span>
+                    </button>
+                    <button
+                      onClick={() => handleDelete(entry.id)}
+                      className="flex items-center space-x-1 text-xs text-red-600 hover:text-red-700 font-medium"
+                    >
+                      <Trash2 className="w-3 h-3" />
+                      <span>Delete</span>
+                    </button>
+                    <button
+                      onClick={() => setEditingOutcomeId(editingOutcomeId === entry.id ? null : entry.id)}
+                      className="flex items-center space-x-1 text-xs text-emerald-600 hover:text-emerald-700 font-medium"
+                    >
+                      <Flag className="w-3 h-3" />
+                      <span>Outcome</span>
+                    </button>
+                  </div>
+                  {editingOutcomeId === entry.id && (
+                    <DealOutcomeForm
+                      outcome={entry.outcome}
+                      onSave={(outcome) => handleSaveOutcome(entry.id, outcome)}
+                      onCancel={() => setEditingOutcomeId(null)}
+                    />
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ValuationLog;
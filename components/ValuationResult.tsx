@@ -1,15 +1,27 @@
 import React from 'react';
 import { ValuationResult } from '../types';
-import { TrendingUp, ExternalLink, AlertCircle, CheckCircle2 } from 'lucide-react';
+import { TrendingUp, ExternalLink, AlertCircle, CheckCircle2, Calculator, Hourglass } from 'lucide-react';
 import ReactMarkdown from 'react-markdown';
+import MarginTrendChart from './MarginTrendChart';
 
 interface ValuationResultProps {
   result: ValuationResult | null;
+  showMargins?: boolean; // Raw historical margins are manager-only
 }
 
-const ValuationResultView: React.FC<ValuationResultProps> = ({ result }) => {
+const ValuationResultView: React.FC<ValuationResultProps> = ({ result, showMargins = true }) => {
   if (!result) return null;
 
+  // The server applies the slow-mover rule; its deduction tells us whether it fired
+  const slowMoverDeduction = result.deductions?.find(d => d.id === 'slow_mover');
+
+  // Inspected cars get an itemised refurbishment estimate, shown as one group with a subtotal
+  const refurbItems = result.deductions?.filter(d => d.category === 'refurbishment') || [];
+  const refurbTotal = {
+    min: refurbItems.reduce((sum, d) => sum + d.min, 0),
+    max: refurbItems.reduce((sum, d) => sum + d.max, 0),
+  };
+
   const formatCurrency = (val: number, currency: string) => {
     // Special handling for INR to show Lakhs correctly if needed, 
     // but 'en-IN' locale usually handles comma separation for Lakhs/Crores automatically.
@@ -30,6 +42,15 @@ const ValuationResultView: React.FC<ValuationResultProps> = ({ result }) => {
         </div>
         
         <h3 className="text-gray-400 text-sm font-medium uppercase tracking-wider mb-2">Recommended Buy Price</h3>
+        {result.notViable ? (
+          <div>
+            <span className="text-3xl md:text-4xl font-bold tracking-tight text-red-400">Not viable</span>
+            <p className="text-sm text-gray-300 mt-2">
+              The deductions below exceed the market price
+              {result.marketPrice ? ` of ${formatCurrency(result.marketPrice, result.priceBand.currency)}` : ''}: there is no price at which this car can be bought and resold at a profit.
+            </p>
+          </div>
+        ) : (
         <div className="flex flex-col sm:flex-row sm:items-baseline sm:space-x-2">
           <span className="text-3xl md:text-4xl font-bold tracking-tight text-emerald-400">
             {formatCurrency(result.priceBand.min, result.priceBand.currency)}
@@ -39,6 +60,7 @@ const ValuationResultView: React.FC<ValuationResultProps> = ({ result }) => {
             {formatCurrency(result.priceBand.max, result.priceBand.currency)}
           </span>
         </div>
+        )}
         
         <div className="mt-6 pt-6 border-t border-gray-700 flex flex-col md:flex-row md:items-center justify-between gap-4">
            <div>
@@ -52,8 +74,111 @@ const ValuationResultView: React.FC<ValuationResultProps> = ({ result }) => {
         </div>
       </div>
 
+      {/* Deduction Ledger */}
+      {result.marketPrice && result.deductions && result.deductions.length > 0 && (
+        <div className="bg-white rounded-2xl p-6 shadow-sm border border-gray-100">
+          <div className="flex items-center space-x-2 mb-4">
+            <Calculator className="w-5 h-5 text-orange-600" />
+            <h3 className="text-lg font-bold text-gray-800">Price Breakdown</h3>
+          </div>
+          <table className="w-full text-sm">
+            <tbody>
+              <tr className="border-b border-gray-100">
+                <td className="py-2">
+                  <span className="block font-medium text-gray-700">Market transaction price</span>
+                  {result.listingPriceRange && (
+                    <span className="block text-xs text-gray-400">
+                      Online listings {formatCurrency(result.listingPriceRange.min, result.priceBand.currency)} - {formatCurrency(result.listingPriceRange.max, result.priceBand.currency)}
+                    </span>
+                  )}
+                </td>
+                <td className="py-2 text-right font-medium text-gray-900">
+                  {formatCurrency(result.marketPrice, result.priceBand.currency)}
+                </td>
+              </tr>
+              {result.deductions.map(deduction => {
+                if (deduction.category !== 'refurbishment') {
+                  return (
+                    <tr key={deduction.id} className="border-b border-gray-100">
+                      <td className="py-2">
+                        <span className="block text-gray-700">{deduction.label}</span>
+                        <span className="block text-xs text-gray-400">{deduction.basis}</span>
+                      </td>
+                      <td className="py-2 text-right text-red-600 whitespace-nowrap">
+                        -{formatCurrency(deduction.min, result.priceBand.currency)}
+                        {deduction.max !== deduction.min && ` to ${formatCurrency(deduction.max, result.priceBand.currency)}`}
+                      </td>
+                    </tr>
+                  );
+                }
+                if (deduction !== refurbItems[0]) return null;
+                return (
+                  <React.Fragment key="refurbishment">
+                    <tr>
+                      <td className="pt-2">
+                        <span className="block text-gray-700">Refurbishment estimate</span>
+                        <span className="block text-xs text-gray-400">From the inspection checklist</span>
+                      </td>
+                      <td className="pt-2 text-right text-red-600 whitespace-nowrap">
+                        -{formatCurrency(refurbTotal.min, result.priceBand.currency)}
+                        {refurbTotal.max !== refurbTotal.min && ` to ${formatCurrency(refurbTotal.max, result.priceBand.currency)}`}
+                      </td>
+                    </tr>
+                    {refurbItems.map((item, i) => (
+                      <tr key={item.id} className={i === refurbItems.length - 1 ? 'border-b border-gray-100' : ''}>
+                        <td className="py-1 pl-4">
+                          <span className="block text-xs text-gray-600">{item.label}</span>
+                          <span className="block text-xs text-gray-400">{item.basis}</span>
+                        </td>
+                        <td className="py-1 text-right text-xs text-gray-500 whitespace-nowrap">
+                          {formatCurrency(item.min, result.priceBand.currency)}
+                          {item.max !== item.min && ` - ${formatCurrency(item.max, result.priceBand.currency)}`}
+                        </td>
+                      </tr>
+                    ))}
+                  </React.Fragment>
+                );
+              })}
+              <tr>
+                <td className="pt-3 font-bold text-gray-800">Buy price band</td>
+                <td className={`pt-3 text-right font-bold whitespace-nowrap ${result.notViable ? 'text-red-600' : 'text-emerald-600'}`}>
+                  {result.notViable
+                    ? 'Not viable'
+                    : `${formatCurrency(result.priceBand.min, result.priceBand.currency)} - ${formatCurrency(result.priceBand.max, result.priceBand.currency)}`}
+                </td>
+              </tr>
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* Inventory Ageing */}
+      {result.expectedDaysToSell && (
+        <div className={`rounded-2xl p-5 shadow-sm border ${
+          slowMoverDeduction
+            ? 'bg-amber-50 border-amber-200'
+            : 'bg-white border-gray-100'
+        }`}>
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-3">
+              <Hourglass className="w-5 h-5 text-amber-600" />
+              <div>
+                <h4 className="text-sm font-semibold text-gray-800">Expected Days to Sell</h4>
+                <p className="text-xs text-gray-500">{result.expectedDaysToSell.description}</p>
+              </div>
+            </div>
+            <div className="text-2xl font-bold text-gray-900">{result.expectedDaysToSell.days}<span className="text-sm font-medium text-gray-500"> days</span></div>
+          </div>
+          {slowMoverDeduction && (
+            <p className="mt-3 pt-3 border-t border-amber-200 text-xs text-amber-700">
+              ⚠ Slow mover. Buy price reduced to cover the extra holding cost ({slowMoverDeduction.basis}).
+            </p>
+          )}
+        </div>
+      )}
+
       {/* Historical Margin Indicator */}
-      {result.historicalMargin && (
+      {showMargins && result.historicalMargin && (
         <div className={`rounded-2xl p-5 shadow-sm border-2 ${
           result.historicalMargin.percentage > 15 
             ? 'bg-green-50 border-green-200' 
@@ -109,6 +234,17 @@ const ValuationResultView: React.FC<ValuationResultProps> = ({ result }) => {
               </div>
             </div>
           </div>
+          {result.historicalMargin.trend && (
+            <div className={`mt-3 ${
+              result.historicalMargin.percentage > 15 
+                ? 'text-green-600' 
+                : result.historicalMargin.percentage > 8
+                ? 'text-yellow-600'
+                : 'text-red-600'
+            }`}>
+              <MarginTrendChart trend={result.historicalMargin.trend} />
+            </div>
+          )}
           <div className={`mt-3 pt-3 border-t text-xs ${
             result.historicalMargin.percentage > 15 
               ? 'border-green-200 text-green-700' 
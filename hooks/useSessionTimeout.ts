@@ -1,73 +1,143 @@
-import { useEffect, useRef, useCallback } from 'react';
+import { useEffect, useRef, useCallback, useState } from 'react';
+
+// 'other_tab': the user signed out in another tab
+export type SessionEndReason = 'timeout' | 'other_tab';
 
 interface UseSessionTimeoutOptions {
+  username: string | null; // Tabs only share activity for the same user
+  enabled: boolean;
   timeoutMinutes?: number;
-  onTimeout: () => void;
   warningMinutes?: number;
-  onWarning?: () => void;
+  onTimeout: (reason: SessionEndReason) => void;
 }
 
+type SessionMessage =
+  | { type: 'activity' | 'extend'; username: string; at: number }
+  | { type: 'end'; username: string; reason: SessionEndReason };
+
+const CHANNEL_NAME = 'autovaluate-session';
+const TICK_MS = 1000;
+const BROADCAST_THROTTLE_MS = 5000;
+const ACTIVITY_EVENTS = ['mousedown', 'keydown', 'scroll', 'touchstart', 'click'];
+
 /**
  * Custom hook for session timeout management
- * Auto-logout after inactivity period
+ * Activity in any open tab keeps every tab of the same user alive (BroadcastChannel).
+ * Once the warning countdown starts, only an explicit extend() resets the clock.
  */
 export function useSessionTimeout({
+  username,
+  enabled,
   timeoutMinutes = 15,
-  onTimeout,
   warningMinutes = 2,
-  onWarning,
+  onTimeout,
 }: UseSessionTimeoutOptions) {
-  const timeoutRef = useRef<NodeJS.Timeout | null>(null);
-  const warningRef = useRef<NodeJS.Timeout | null>(null);
+  const [secondsLeft, setSecondsLeft] = useState<number | null>(null);
   const lastActivityRef = useRef<number>(Date.now());
+  const lastBroadcastRef = useRef<number>(0);
+  const warningRef = useRef(false);
+  const channelRef = useRef<BroadcastChannel | null>(null);
+  const onTimeoutRef = useRef(onTimeout);
+  onTimeoutRef.current = onTimeout;
 
-  const resetTimer = useCallback(() => {
-    lastActivityRef.current = Date.now();
+  const post = useCallback((message: SessionMessage) => {
+    channelRef.current?.postMessage(message);
+  }, []);
 
-    // Clear existing timers
-    if (timeoutRef.current) clearTimeout(timeoutRef.current);
-    if (warningRef.current) clearTimeout(warningRef.current);
+  const extend = useCallback(() => {
+    if (!username) return;
+    const now = Date.now();
+    lastActivityRef.current = now;
+    warningRef.current = false;
+    setSecondsLeft(null);
+    post({ type: 'extend', username, at: now });
+  }, [username, post]);
 
-    // Set warning timer
-    if (onWarning && warningMinutes > 0) {
-      const warningMs = (timeoutMinutes - warningMinutes) * 60 * 1000;
-      warningRef.current = setTimeout(() => {
-        onWarning();
-      }, warningMs);
-    }
+  const endSession = useCallback(() => {
+    if (username) post({ type: 'end', username, reason: 'other_tab' });
+  }, [username, post]);
+
+  useEffect(() => {
+    if (!enabled || !username) return;
 
-    // Set timeout timer
     const timeoutMs = timeoutMinutes * 60 * 1000;
-    timeoutRef.current = setTimeout(() => {
-      onTimeout();
-    }, timeoutMs);
-  }, [timeoutMinutes, warningMinutes, onTimeout, onWarning]);
+    const warningMs = warningMinutes * 60 * 1000;
+    let ended = false;
 
-  useEffect(() => {
-    // Activity events to track
-    const events = ['mousedown', 'keydown', 'scroll', 'touchstart', 'click'];
+    lastActivityRef.current = Date.now();
+    warningRef.current = false;
+    setSecondsLeft(null);
+
+    const end = (reason: SessionEndReason) => {
+      if (ended) return;
+      ended = true;
+      warningRef.current = false;
+      setSecondsLeft(null);
+      onTimeoutRef.current(reason);
+    };
+
+    const channel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(CHANNEL_NAME) : null;
+    channelRef.current = channel;
+
+    if (channel) {
+      channel.onmessage = (event: MessageEvent<SessionMessage>) => {
+        const message = event.data;
+        if (message?.username !== username) return;
+        if (message.type === 'end') {
+          end(message.reason);
+          return;
+        }
+        lastActivityRef.current = Math.max(lastActivityRef.current, message.at);
+        if (message.type === 'extend') {
+          warningRef.current = false;
+          setSecondsLeft(null);
+        }
+      };
+    }
 
     const handleActivity = () => {
-      resetTimer();
+      if (warningRef.current) return;
+      const now = Date.now();
+      lastActivityRef.current = now;
+      if (now - lastBroadcastRef.current >= BROADCAST_THROTTLE_MS) {
+        lastBroadcastRef.current = now;
+        channel?.postMessage({ type: 'activity', username, at: now } as SessionMessage);
+      }
+    };
+
+    const tick = () => {
+      if (ended) return;
+      const remaining = lastActivityRef.current + timeoutMs - Date.now();
+      if (remaining <= 0) {
+        channel?.postMessage({ type: 'end', username, reason: 'timeout' } as SessionMessage);
+        end('timeout');
+      } else if (warningMs > 0 && remaining <= warningMs) {
+        warningRef.current = true;
+        setSecondsLeft(Math.ceil(remaining / 1000));
+      } else if (warningRef.current) {
+        // Another tab extended the session
+        warningRef.current = false;
+        setSecondsLeft(null);
+      }
     };
 
-    // Add event listeners
-    events.forEach(event => {
+    ACTIVITY_EVENTS.forEach(event => {
       document.addEventListener(event, handleActivity);
     });
+    // Background tabs throttle timers; re-check as soon as the tab is visible again
+    document.addEventListener('visibilitychange', tick);
+    const interval = setInterval(tick, TICK_MS);
 
-    // Start initial timer
-    resetTimer();
-
-    // Cleanup
     return () => {
-      events.forEach(event => {
+      ACTIVITY_EVENTS.forEach(event => {
         document.removeEventListener(event, handleActivity);
       });
-      if (timeoutRef.current) clearTimeout(timeoutRef.current);
-      if (warningRef.current) clearTimeout(warningRef.current);
+      document.removeEventListener('visibilitychange', tick);
+      clearInterval(interval);
+      channel?.close();
+      channelRef.current = null;
     };
-  }, [resetTimer]);
+  }, [enabled, username, timeoutMinutes, warningMinutes]);
 
-  return { resetTimer };
+  return { secondsLeft, extend, endSession };
 }
@@ -0,0 +1,15 @@
+// Print a PBKDF2 password hash for an AUTH_USERS entry
+// Usage: npm run hash-password -- <password>
+import { pbkdf2Sync, randomBytes } from 'node:crypto';
+
+const ITERATIONS = 310000;
+
+const password = process.argv[2];
+if (!password) {
+  console.error('Usage: npm run hash-password -- <password>');
+  process.exit(1);
+}
+
+const salt = randomBytes(16);
+const hash = pbkdf2Sync(password, salt, ITERATIONS, 32, 'sha256');
+console.log(`pbkdf2$${ITERATIONS}$${salt.toString('base64')}$${hash.toString('base64')}`);
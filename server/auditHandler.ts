@@ -0,0 +1,71 @@
+/**
+ * /api/audit
+ * POST: the browser reports actions the server cannot see (history uploads, cache hits, logout).
+ *       The server stamps the user and time from the verified token.
+ * GET:  managers read the full log plus a chain integrity check.
+ */
+
+import { AuditAction, AuditDetails, AuditLogResponse } from '../types';
+import { can } from '../utils/permissions';
+import { authenticateRequest } from './auth';
+import { appendAuditEvent, readAuditEvents, verifyAuditChain } from './auditStore';
+import { errorResponse, json, readJson } from './http';
+
+// Logins and live valuations are recorded server-side; the client may only report
+// valuations served from its own cache, which are always marked as such
+const CLIENT_ACTIONS: AuditAction[] = ['logout', 'valuation', 'history_loaded', 'history_cleared'];
+const MAX_DETAIL_KEYS = 20;
+const MAX_DETAIL_LENGTH = 200;
+
+function sanitizeDetails(raw: unknown): AuditDetails | null {
+  if (raw === undefined) return {};
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return null;
+
+  const entries = Object.entries(raw as Record<string, unknown>);
+  if (entries.length > MAX_DETAIL_KEYS) return null;
+
+  const details: AuditDetails = {};
+  for (const [key, value] of entries) {
+    if (typeof value === 'string') details[key] = value.slice(0, MAX_DETAIL_LENGTH);
+    else if (typeof value === 'number' || typeof value === 'boolean') details[key] = value;
+    else if (value === null) details[key] = null;
+    else return null;
+  }
+  return details;
+}
+
+export async function handleAudit(request: Request): Promise<Response> {
+  const user = await authenticateRequest(request).catch(() => null);
+  if (!user) {
+    return errorResponse(401, 'unauthorized', 'Your session has expired. Please log in again.');
+  }
+
+  try {
+    if (request.method === 'GET') {
+      if (!can(user, 'view_audit_log')) {
+        return errorResponse(403, 'forbidden', 'Only managers can view the audit log.');
+      }
+      const events = await readAuditEvents();
+      const response: AuditLogResponse = { events, brokenAt: await verifyAuditChain(events) };
+      return json(200, response);
+    }
+
+    if (request.method === 'POST') {
+      const body = await readJson(request);
+      const details = sanitizeDetails(body?.details);
+      if (!CLIENT_ACTIONS.includes(body?.action) || !details) {
+        return errorResponse(400, 'bad_request', 'Invalid audit event.');
+      }
+      if (body.action === 'valuation') {
+        details.cached = true;
+      }
+      const event = await appendAuditEvent(user, body.action, details);
+      return json(201, { seq: event.seq });
+    }
+
+    return errorResponse(405, 'method_not_allowed', 'Use GET or POST.');
+  } catch (error) {
+    console.error('Audit handler error:', error);
+    return errorResponse(500, 'server_error', 'The audit log is unavailable.');
+  }
+}
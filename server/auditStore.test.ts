@@ -0,0 +1,115 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { AuthUser } from '../types';
+
+const priya: AuthUser = { username: 'priya', name: 'Priya Shah', role: 'manager' };
+
+// A fresh copy of the module, as in a separate server instance
+async function loadStore() {
+  vi.resetModules();
+  return import('./auditStore');
+}
+
+/**
+ * Just enough of the Upstash REST API for the ledger: one list, read and compare-and-append
+ */
+function fakeKv() {
+  const list: string[] = [];
+  const fetch = vi.fn(async (_url: string, init: RequestInit) => {
+    const [command, ...args] = JSON.parse(init.body as string);
+    let result: unknown;
+    if (command === 'LRANGE') result = [...list];
+    else if (command === 'LINDEX') result = list[list.length - 1] ?? null;
+    else if (command === 'EVAL') {
+      const [, , , previous, line] = args;
+      result = (list[list.length - 1] ?? '') === previous ? (list.push(line), 1) : 0;
+    } else return Response.json({ error: `unsupported ${command}` }, { status: 400 });
+    return Response.json({ result });
+  });
+  return { list, fetch };
+}
+
+let dataDir: string;
+
+beforeAll(() => {
+  dataDir = mkdtempSync(join(tmpdir(), 'audit-store-'));
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.unstubAllGlobals();
+});
+
+afterAll(() => {
+  rmSync(dataDir, { recursive: true, force: true });
+});
+
+describe('file ledger', () => {
+  it('appends a hash-chained log', async () => {
+    vi.stubEnv('AUDIT_LOG_FILE', join(dataDir, 'chain', 'audit.jsonl'));
+    const store = await loadStore();
+
+    await store.appendAuditEvent(priya, 'login');
+    await store.appendAuditEvent(priya, 'valuation', { costUsd: 0.01 });
+
+    const events = await store.readAuditEvents();
+    expect(events.map(e => e.seq)).toEqual([1, 2]);
+    expect(await store.verifyAuditChain(events)).toBeNull();
+    await expect(store.assertLedgerWritable()).resolves.toBeUndefined();
+  });
+
+  it('is reported unavailable when the file cannot be written', async () => {
+    const notADirectory = join(dataDir, 'plain-file');
+    writeFileSync(notADirectory, '');
+    vi.stubEnv('AUDIT_LOG_FILE', join(notADirectory, 'audit.jsonl'));
+    const store = await loadStore();
+
+    await expect(store.assertLedgerWritable()).rejects.toBeInstanceOf(store.LedgerUnavailableError);
+  });
+
+  it('is never trusted on Vercel, where every instance has its own filesystem', async () => {
+    vi.stubEnv('AUDIT_LOG_FILE', join(dataDir, 'vercel', 'audit.jsonl'));
+    vi.stubEnv('VERCEL', '1');
+    const store = await loadStore();
+
+    await expect(store.assertLedgerWritable()).rejects.toThrow('No shared audit store is configured');
+  });
+});
+
+describe('KV ledger', () => {
+  const useKv = () => {
+    const kv = fakeKv();
+    vi.stubEnv('KV_REST_API_URL', 'https://kv.example.test');
+    vi.stubEnv('KV_REST_API_TOKEN', 'token');
+    vi.stubEnv('VERCEL', '1');
+    vi.stubGlobal('fetch', kv.fetch);
+    return kv;
+  };
+
+  it('is shared by every instance and keeps one chain when they interleave', async () => {
+    const kv = useKv();
+    const first = await loadStore();
+    const second = await loadStore();
+
+    await first.appendAuditEvent(priya, 'login');
+    await second.appendAuditEvent(priya, 'valuation', { costUsd: 0.01 });
+    // `first` still has its own event cached as the tail, so its next append has to relink
+    await first.appendAuditEvent(priya, 'logout');
+
+    const events = await second.readAuditEvents();
+    expect(kv.list).toHaveLength(3);
+    expect(events.map(e => [e.seq, e.action])).toEqual([[1, 'login'], [2, 'valuation'], [3, 'logout']]);
+    expect(await first.verifyAuditChain(events)).toBeNull();
+    await expect(first.assertLedgerWritable()).resolves.toBeUndefined();
+  });
+
+  it('reports an unreachable store as unavailable', async () => {
+    useKv();
+    vi.stubGlobal('fetch', vi.fn(async () => { throw new TypeError('fetch failed'); }));
+    const store = await loadStore();
+
+    await expect(store.readAuditEvents()).rejects.toBeInstanceOf(store.LedgerUnavailableError);
+  });
+});
@@ -0,0 +1,219 @@
+/**
+ * Append-only audit log
+ * There is no update or delete. Each event stores the SHA-256 of the previous
+ * event, so a removed or edited line shows up as a broken chain.
+ * The log is also the usage ledger that spend budgets are checked against, so every
+ * server instance must see the same one. With KV_REST_API_URL and KV_REST_API_TOKEN
+ * set (Upstash or Vercel KV REST API) events are kept in a Redis list under
+ * AUDIT_KV_KEY (default audit:events). Otherwise they are appended as JSON lines to
+ * AUDIT_LOG_FILE (default .data/audit.jsonl), which is only a shared ledger for a
+ * single long-running server: billed calls are refused when that file cannot be
+ * written, and always on Vercel, where each function instance has its own filesystem.
+ */
+
+import { constants } from 'fs';
+import { access, appendFile, mkdir, readFile } from 'fs/promises';
+import { dirname } from 'path';
+import { AuditAction, AuditDetails, AuditEvent, AuthUser } from '../types';
+
+const GENESIS_HASH = '0'.repeat(64);
+const MAX_APPEND_ATTEMPTS = 5;
+
+// Appends only if the list still ends with ARGV[1] (empty for an empty list),
+// so two instances cannot both link to the same previous event
+const COMPARE_AND_APPEND = `
+local last = redis.call('LINDEX', KEYS[1], -1)
+if (last or '') ~= ARGV[1] then return 0 end
+redis.call('RPUSH', KEYS[1], ARGV[2])
+return 1`;
+
+/**
+ * The ledger cannot be read or written, so usage cannot be counted against budgets
+ */
+export class LedgerUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LedgerUnavailableError';
+  }
+}
+
+interface LedgerBackend {
+  readLines(): Promise<string[]>;
+  lastLine(): Promise<string | null>;
+  // false when another writer appended after `previous` first
+  appendAfter(previous: string | null, line: string): Promise<boolean>;
+  checkWritable(): Promise<void>;
+}
+
+function logFile(): string {
+  return process.env.AUDIT_LOG_FILE || '.data/audit.jsonl';
+}
+
+const fileBackend: LedgerBackend = {
+  async readLines() {
+    let text: string;
+    try {
+      text = await readFile(logFile(), 'utf8');
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return [];
+      throw error;
+    }
+    return text.split('\n').filter(line => line.trim());
+  },
+
+  async lastLine() {
+    const lines = await this.readLines();
+    return lines[lines.length - 1] ?? null;
+  },
+
+  // A single process serialises its appends (see `queue`), so there is nobody to race
+  async appendAfter(_previous, line) {
+    await mkdir(dirname(logFile()), { recursive: true });
+    await appendFile(logFile(), line + '\n', 'utf8');
+    return true;
+  },
+
+  async checkWritable() {
+    if (process.env.VERCEL) {
+      throw new LedgerUnavailableError(
+        'No shared audit store is configured (KV_REST_API_URL, KV_REST_API_TOKEN); usage cannot be counted across function instances.'
+      );
+    }
+    try {
+      await mkdir(dirname(logFile()), { recursive: true });
+      await access(dirname(logFile()), constants.W_OK);
+      await access(logFile(), constants.W_OK).catch((error: any) => {
+        if (error?.code !== 'ENOENT') throw error;
+      });
+    } catch (error: any) {
+      throw new LedgerUnavailableError(`The audit log file ${logFile()} is not writable: ${error?.message || error}`);
+    }
+  },
+};
+
+function kvBackend(url: string, token: string): LedgerBackend {
+  const key = process.env.AUDIT_KV_KEY || 'audit:events';
+
+  const command = async <T>(args: Array<string | number>): Promise<T> => {
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+        body: JSON.stringify(args),
+      });
+    } catch (error: any) {
+      throw new LedgerUnavailableError(`The audit store is unreachable: ${error?.message || error}`);
+    }
+    const body = await response.json().catch(() => null);
+    if (!response.ok || !body || body.error) {
+      throw new LedgerUnavailableError(`The audit store refused ${args[0]}: ${body?.error || response.status}`);
+    }
+    return body.result as T;
+  };
+
+  return {
+    readLines: () => command<string[]>(['LRANGE', key, 0, -1]),
+    lastLine: () => command<string | null>(['LINDEX', key, -1]),
+    appendAfter: async (previous, line) =>
+      (await command<number>(['EVAL', COMPARE_AND_APPEND, 1, key, previous ?? '', line])) === 1,
+    // A failing store shows up as soon as the budgets are read
+    checkWritable: async () => {},
+  };
+}
+
+function ledgerBackend(): LedgerBackend {
+  const url = process.env.KV_REST_API_URL;
+  const token = process.env.KV_REST_API_TOKEN;
+  return url && token ? kvBackend(url, token) : fileBackend;
+}
+
+let tail: { seq: number; hash: string; line: string | null } | null = null;
+// Appends are serialised so the chain never forks within one process
+let queue: Promise<unknown> = Promise.resolve();
+
+async function sha256Hex(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Buffer.from(digest).toString('hex');
+}
+
+function eventHashInput(event: Omit<AuditEvent, 'hash'>): string {
+  const { seq, timestamp, user, action, details, prevHash } = event;
+  return JSON.stringify({ seq, timestamp, user, action, details, prevHash });
+}
+
+export async function readAuditEvents(): Promise<AuditEvent[]> {
+  const lines = await ledgerBackend().readLines();
+  return lines.map(line => JSON.parse(line) as AuditEvent);
+}
+
+/**
+ * Throws LedgerUnavailableError unless usage can be recorded; checked before billed calls
+ */
+export async function assertLedgerWritable(): Promise<void> {
+  await ledgerBackend().checkWritable();
+}
+
+async function loadTail(backend: LedgerBackend): Promise<{ seq: number; hash: string; line: string | null }> {
+  if (tail) return tail;
+  const line = await backend.lastLine();
+  const last = line ? (JSON.parse(line) as AuditEvent) : null;
+  return last ? { seq: last.seq, hash: last.hash, line } : { seq: 0, hash: GENESIS_HASH, line: null };
+}
+
+export function appendAuditEvent(user: AuthUser, action: AuditAction, details: AuditDetails = {}): Promise<AuditEvent> {
+  const next = queue.then(async () => {
+    const backend = ledgerBackend();
+
+    // Another instance may have appended since our cached tail; re-read it and relink
+    for (let attempt = 0; attempt < MAX_APPEND_ATTEMPTS; attempt++) {
+      const previous = await loadTail(backend);
+      const unsigned: Omit<AuditEvent, 'hash'> = {
+        seq: previous.seq + 1,
+        timestamp: Date.now(),
+        user: { username: user.username, name: user.name, role: user.role },
+        action,
+        details,
+        prevHash: previous.hash,
+      };
+      const event: AuditEvent = { ...unsigned, hash: await sha256Hex(eventHashInput(unsigned)) };
+      const line = JSON.stringify(event);
+
+      if (await backend.appendAfter(previous.line, line)) {
+        tail = { seq: event.seq, hash: event.hash, line };
+        return event;
+      }
+      tail = null;
+    }
+    throw new LedgerUnavailableError(`Could not append ${action} after ${MAX_APPEND_ATTEMPTS} attempts; the audit log kept changing.`);
+  });
+
+  queue = next.catch(() => undefined);
+  return next;
+}
+
+/**
+ * Sequence number of the first event whose hash or link does not match, or null if intact
+ */
+export async function verifyAuditChain(events: AuditEvent[]): Promise<number | null> {
+  let prevHash = GENESIS_HASH;
+  for (const event of events) {
+    const { hash, ...unsigned } = event;
+    if (event.prevHash !== prevHash || hash !== (await sha256Hex(eventHashInput(unsigned)))) {
+      return event.seq;
+    }
+    prevHash = hash;
+  }
+  return null;
+}
+
+/**
+ * Record without failing the caller; the audit log must not take the app down
+ */
+export async function tryAppendAuditEvent(user: AuthUser, action: AuditAction, details: AuditDetails = {}): Promise<void> {
+  try {
+    await appendAuditEvent(user, action, details);
+  } catch (error) {
+    console.error(`Failed to write audit event ${action} for ${user.username}:`, error);
+  }
+}
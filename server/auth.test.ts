@@ -0,0 +1,39 @@
+import { execFileSync } from 'child_process';
+import { beforeAll, describe, expect, it } from 'vitest';
+import { AuthUser } from '../types';
+import { authenticateUser, signToken, verifyToken } from './auth';
+
+const priya: AuthUser = { username: 'priya', name: 'Priyā Shāh', role: 'manager' };
+
+beforeAll(() => {
+  process.env.AUTH_SECRET = 'test-secret-with-at-least-thirty-two-chars';
+  // The same script operators use to create AUTH_USERS entries
+  const passwordHash = execFileSync('node', ['scripts/hash-password.mjs', 'correct horse'], { encoding: 'utf8' }).trim();
+  process.env.AUTH_USERS = JSON.stringify([{ ...priya, passwordHash }]);
+});
+
+describe('authenticateUser', () => {
+  it('accepts the password behind a hash from hash-password', async () => {
+    expect(await authenticateUser('Priya', 'correct horse')).toEqual(priya);
+    expect(await authenticateUser('priya', 'correct horse!')).toBeNull();
+    expect(await authenticateUser('ravi', 'correct horse')).toBeNull();
+  });
+});
+
+describe('tokens', () => {
+  it('round-trip the user, including non-ASCII names', async () => {
+    const { token } = await signToken(priya);
+    expect(token).toMatch(/^[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+$/);
+    expect(await verifyToken(token)).toEqual(priya);
+  });
+
+  it('reject tampered and malformed tokens', async () => {
+    const { token } = await signToken(priya);
+    const [body, signature] = token.split('.');
+    const forged = Buffer.from(JSON.stringify({ ...priya, role: 'admin', exp: Date.now() + 60000 })).toString('base64url');
+
+    for (const candidate of [`${forged}.${signature}`, `${body}.${signature.slice(1)}`, `${body}.not*base64`, body]) {
+      expect(await verifyToken(candidate)).toBeNull();
+    }
+  });
+});
@@ -0,0 +1,161 @@
+/**
+ * Server-side authentication
+ * Users come from the AUTH_USERS environment variable with PBKDF2 password hashes
+ * (create them with `npm run hash-password`). A successful login returns a bearer
+ * token signed with HMAC-SHA256 (AUTH_SECRET) that every API call must present.
+ * Web Crypto only, so it runs on Node and edge runtimes alike.
+ */
+
+import { AuthUser } from '../types';
+import { isUserRole } from '../utils/permissions';
+
+interface UserRecord extends AuthUser {
+  passwordHash: string; // pbkdf2$<iterations>$<salt b64>$<hash b64>
+}
+
+interface TokenPayload extends AuthUser {
+  iat: number;
+  exp: number;
+}
+
+export const TOKEN_TTL_MS = 8 * 60 * 60 * 1000; // One working day
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+// btoa/atob rather than Buffer, which edge runtimes do not have
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+}
+
+// Throws on characters outside the alphabet
+function fromBase64(text: string): Uint8Array {
+  const binary = atob(text);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  return toBase64(bytes).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(text: string): Uint8Array {
+  return fromBase64(text.replace(/-/g, '+').replace(/_/g, '/'));
+}
+
+function timingSafeEqual(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a[i] ^ b[i];
+  }
+  return diff === 0;
+}
+
+function requireSecret(): string {
+  const secret = process.env.AUTH_SECRET;
+  if (!secret || secret.length < 32) {
+    throw new Error('AUTH_SECRET must be set to at least 32 characters');
+  }
+  return secret;
+}
+
+/**
+ * Parse AUTH_USERS: a JSON array of { username, name, role, passwordHash }
+ */
+export function loadUsers(): UserRecord[] {
+  const raw = process.env.AUTH_USERS;
+  if (!raw) {
+    throw new Error('AUTH_USERS is not set on the server');
+  }
+
+  const parsed = JSON.parse(raw);
+  if (!Array.isArray(parsed)) {
+    throw new Error('AUTH_USERS must be a JSON array');
+  }
+
+  return parsed.map((user: any, index: number) => {
+    if (typeof user?.username !== 'string' || typeof user?.passwordHash !== 'string' || !isUserRole(user?.role)) {
+      throw new Error(`AUTH_USERS entry ${index} needs username, passwordHash and role (buyer, manager or admin)`);
+    }
+    return {
+      username: user.username.toLowerCase(),
+      name: typeof user.name === 'string' ? user.name : user.username,
+      role: user.role,
+      passwordHash: user.passwordHash,
+    };
+  });
+}
+
+async function verifyPassword(password: string, passwordHash: string): Promise<boolean> {
+  const [scheme, iterations, salt, hash] = passwordHash.split('$');
+  if (scheme !== 'pbkdf2' || !iterations || !salt || !hash) return false;
+
+  const material = await crypto.subtle.importKey('raw', encoder.encode(password), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', salt: fromBase64(salt), iterations: Number(iterations), hash: 'SHA-256' },
+    material,
+    256
+  );
+  return timingSafeEqual(new Uint8Array(bits), fromBase64(hash));
+}
+
+/**
+ * Check credentials; null for unknown user or wrong password (indistinguishable to the caller)
+ */
+export async function authenticateUser(username: string, password: string): Promise<AuthUser | null> {
+  const user = loadUsers().find(u => u.username === username.trim().toLowerCase());
+  if (!user || !(await verifyPassword(password, user.passwordHash))) return null;
+  return { username: user.username, name: user.name, role: user.role };
+}
+
+async function hmac(data: string): Promise<Uint8Array> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(requireSecret()),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  return new Uint8Array(await crypto.subtle.sign('HMAC', key, encoder.encode(data)));
+}
+
+/**
+ * Token format: base64url(JSON payload) + '.' + base64url(HMAC of the first part)
+ */
+export async function signToken(user: AuthUser, now: number = Date.now()): Promise<{ token: string; expiresAt: number }> {
+  const payload: TokenPayload = { ...user, iat: now, exp: now + TOKEN_TTL_MS };
+  const body = toBase64Url(encoder.encode(JSON.stringify(payload)));
+  return { token: `${body}.${toBase64Url(await hmac(body))}`, expiresAt: payload.exp };
+}
+
+export async function verifyToken(token: string, now: number = Date.now()): Promise<AuthUser | null> {
+  const [body, signature] = token.split('.');
+  if (!body || !signature) return null;
+
+  try {
+    if (!timingSafeEqual(await hmac(body), fromBase64Url(signature))) return null;
+
+    const payload: TokenPayload = JSON.parse(decoder.decode(fromBase64Url(body)));
+    if (typeof payload.exp !== 'number' || payload.exp < now || !isUserRole(payload.role)) return null;
+    return { username: payload.username, name: payload.name, role: payload.role };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * The user behind a request's `Authorization: Bearer <token>` header, if valid
+ */
+export async function authenticateRequest(request: Request): Promise<AuthUser | null> {
+  const header = request.headers.get('Authorization') || '';
+  const match = header.match(/^Bearer\s+(.+)$/i);
+  return match ? verifyToken(match[1]) : null;
+}
@@ -0,0 +1,135 @@
+/**
+ * Spend budgets
+ * Daily and monthly limits on tokens and/or cost, per user and for the whole
+ * dealership, checked against the usage ledger before every live valuation.
+ * Configure with USAGE_BUDGETS, e.g.
+ *   {"user":{"daily":{"costUsd":2}},"dealership":{"monthly":{"costUsd":150,"tokens":20000000}},
+ *    "users":{"priya":{"daily":{"costUsd":5}}}}
+ * Sections given in USAGE_BUDGETS replace the defaults below; omit a limit to leave it unbounded.
+ */
+
+import { AuthUser, BudgetCheck, BudgetState, BudgetStatus, UsagePeriods, UsageTotals } from '../types';
+import { can } from '../utils/permissions';
+import { totalTokens } from '../utils/tokenCounts';
+import { readAuditEvents } from './auditStore';
+import { periodsFor, summarizeUsage } from './usageLedger';
+
+export interface BudgetLimit {
+  tokens?: number;
+  costUsd?: number;
+}
+
+export interface PeriodLimits {
+  daily?: BudgetLimit;
+  monthly?: BudgetLimit;
+}
+
+export interface BudgetConfig {
+  user: PeriodLimits; // Applies to every user without an entry in `users`
+  dealership: PeriodLimits;
+  users?: Record<string, PeriodLimits>;
+}
+
+const WARNING_RATIO = 0.8;
+
+const DEFAULT_BUDGETS: BudgetConfig = {
+  user: { daily: { costUsd: 1 }, monthly: { costUsd: 20 } },
+  dealership: { daily: { costUsd: 5 }, monthly: { costUsd: 100 } },
+};
+
+let config: BudgetConfig | null = null;
+
+function loadConfig(): BudgetConfig {
+  if (config) return config;
+  config = DEFAULT_BUDGETS;
+
+  const raw = process.env.USAGE_BUDGETS;
+  if (raw) {
+    try {
+      config = { ...DEFAULT_BUDGETS, ...JSON.parse(raw) };
+    } catch {
+      console.warn('USAGE_BUDGETS is not valid JSON; using default budgets');
+    }
+  }
+  return config!;
+}
+
+const SCOPE_LABELS = { user: 'Your', dealership: "The dealership's" };
+const PERIOD_LABELS = { daily: 'daily', monthly: 'monthly' };
+const RESET_HINTS = { daily: 'It resets at midnight.', monthly: 'It resets on the 1st.' };
+
+function formatAmount(metric: BudgetCheck['metric'], value: number): string {
+  return metric === 'costUsd' ? `$${value < 1 ? value.toFixed(4) : value.toFixed(2)}` : `${Math.round(value).toLocaleString()} tokens`;
+}
+
+function checkPeriod(
+  scope: BudgetCheck['scope'],
+  period: BudgetCheck['period'],
+  limit: BudgetLimit | undefined,
+  totals: UsageTotals,
+  showAmounts: boolean
+): BudgetCheck[] {
+  const checks: BudgetCheck[] = [];
+  const usedBy = { tokens: totalTokens(totals), costUsd: totals.costUsd };
+
+  (['tokens', 'costUsd'] as const).forEach(metric => {
+    const max = limit?.[metric];
+    if (typeof max !== 'number' || max < 0) return;
+
+    const used = usedBy[metric];
+    const state: BudgetState = used >= max ? 'exceeded' : used >= max * WARNING_RATIO ? 'warning' : 'ok';
+    const percentUsed = max > 0 ? Math.floor((used / max) * 100) : 100;
+    const amounts = showAmounts ? ` (${formatAmount(metric, used)} of ${formatAmount(metric, max)})` : '';
+    const label = `${SCOPE_LABELS[scope]} ${PERIOD_LABELS[period]} ${metric === 'costUsd' ? 'spend' : 'token'} budget`;
+    checks.push({
+      scope,
+      period,
+      metric,
+      percentUsed,
+      ...(showAmounts ? { used, limit: max } : {}),
+      state,
+      message:
+        state === 'exceeded'
+          ? `${label} is used up${amounts}. ${RESET_HINTS[period]}`
+          : `${label} is ${percentUsed}% used${amounts}.`,
+    });
+  });
+  return checks;
+}
+
+function checkScope(
+  scope: BudgetCheck['scope'],
+  limits: PeriodLimits,
+  periods: UsagePeriods,
+  showAmounts: boolean
+): BudgetCheck[] {
+  return [
+    ...checkPeriod(scope, 'daily', limits.daily, periods.today, showAmounts),
+    ...checkPeriod(scope, 'monthly', limits.monthly, periods.month, showAmounts),
+  ];
+}
+
+/**
+ * Budget status for a user, given the current usage totals
+ */
+export function evaluateBudgets(
+  user: AuthUser,
+  usage: { all: UsagePeriods; byUser: Record<string, UsagePeriods> }
+): BudgetStatus {
+  const budgets = loadConfig();
+  const checks = [
+    ...checkScope('user', budgets.users?.[user.username] || budgets.user, periodsFor(usage.byUser, user.username), true),
+    ...checkScope('dealership', budgets.dealership, usage.all, can(user, 'view_costs')),
+  ];
+
+  const state: BudgetState = checks.some(c => c.state === 'exceeded')
+    ? 'exceeded'
+    : checks.some(c => c.state === 'warning')
+      ? 'warning'
+      : 'ok';
+  return { state, checks };
+}
+
+export async function checkBudgets(user: AuthUser): Promise<BudgetStatus> {
+  return evaluateBudgets(user, summarizeUsage(await readAuditEvents()));
+}
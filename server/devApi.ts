@@ -0,0 +1,72 @@
+/**
+ * Local dev server mode for /api/*
+ * Serves the same handlers as the Vercel functions from the Vite dev server.
+ * Modules are loaded through Vite's SSR loader so edits hot-reload.
+ */
+
+import type { IncomingMessage, ServerResponse } from 'http';
+import type { Plugin, ViteDevServer } from 'vite';
+
+// Route -> function module, mirroring the api/ directory on Vercel
+const ROUTES: Record<string, string> = {
+  '/api/valuate': '/api/valuate.ts',
+  '/api/login': '/api/login.ts',
+  '/api/audit': '/api/audit.ts',
+  '/api/usage': '/api/usage.ts',
+};
+
+async function toWebRequest(req: IncomingMessage): Promise<Request> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+
+  const headers = new Headers();
+  Object.entries(req.headers).forEach(([name, value]) => {
+    if (typeof value === 'string') headers.set(name, value);
+    else if (Array.isArray(value)) value.forEach(v => headers.append(name, v));
+  });
+
+  const hasBody = req.method !== 'GET' && req.method !== 'HEAD';
+  return new Request(`http://localhost${req.url || '/'}`, {
+    method: req.method,
+    headers,
+    body: hasBody && chunks.length > 0 ? Buffer.concat(chunks) : undefined,
+  });
+}
+
+async function sendWebResponse(response: Response, res: ServerResponse): Promise<void> {
+  res.statusCode = response.status;
+  response.headers.forEach((value, name) => res.setHeader(name, value));
+  res.end(Buffer.from(await response.arrayBuffer()));
+}
+
+async function handle(server: ViteDevServer, modulePath: string, req: IncomingMessage, res: ServerResponse) {
+  const mod = await server.ssrLoadModule(modulePath);
+  const handler = mod[req.method || 'GET'];
+  if (typeof handler !== 'function') {
+    res.statusCode = 405;
+    res.end();
+    return;
+  }
+  await sendWebResponse(await handler(await toWebRequest(req)), res);
+}
+
+export function devApi(): Plugin {
+  return {
+    name: 'autovaluate-dev-api',
+    configureServer(server) {
+      server.middlewares.use((req, res, next) => {
+        const path = (req.url || '').split('?')[0];
+        const modulePath = ROUTES[path];
+        if (!modulePath) return next();
+
+        handle(server, modulePath, req, res).catch(error => {
+          console.error(`Dev API ${path} failed:`, error);
+          res.statusCode = 500;
+          res.end();
+        });
+      });
+    },
+  };
+}
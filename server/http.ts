@@ -0,0 +1,28 @@
+/**
+ * JSON response helpers shared by the API handlers
+ */
+
+import { ApiErrorBody, ApiErrorCode } from '../types';
+
+export function json(status: number, body: unknown): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' },
+  });
+}
+
+export function errorResponse(status: number, code: ApiErrorCode, message: string, issues?: string[]): Response {
+  const body: ApiErrorBody = { error: { code, message, issues } };
+  return json(status, body);
+}
+
+/**
+ * Parse a JSON body; null if missing or malformed
+ */
+export async function readJson(request: Request): Promise<any | null> {
+  try {
+    return await request.json();
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,212 @@
+/**
+ * Inspection costs
+ * Maps each answer on the inspection checklist to a refurbishment cost (work we pay
+ * for before resale) or a deduction (value a retail buyer will not pay for, such as
+ * accident history). Replaces the flat refurbishment allowance for inspected cars.
+ */
+
+import { AccidentHistory, Deduction, InsuranceType, ServiceHistory, VehicleCondition } from '../types';
+
+interface Range {
+  min: number;
+  max: number;
+}
+
+export interface InspectionRules {
+  detailing: Range; // Always: cleaning, polishing, minor touch-ups
+  tyreCost: Range; // Per tyre
+  tyreReplaceBelowPct: number; // Replace all four below this tread
+  tyrePairBelowPct: number; // Replace one pair below this tread
+  service: Record<ServiceHistory, Range>;
+  floodRepair: Range;
+  accidentPct: Record<AccidentHistory, Range>; // % of market price
+  repaintPctPerPanel: number;
+  maxRepaintPct: number;
+  insurancePct: Record<InsuranceType, Range>;
+  claimPct: number; // Per claim in the last 3 years
+  maxClaimPct: number;
+  floodPct: Range;
+}
+
+export const DEFAULT_INSPECTION_RULES: InspectionRules = {
+  detailing: { min: 3000, max: 5000 },
+  tyreCost: { min: 4000, max: 7000 },
+  tyreReplaceBelowPct: 25,
+  tyrePairBelowPct: 50,
+  service: {
+    full_dealer: { min: 2000, max: 4000 },
+    partial: { min: 5000, max: 8000 },
+    none: { min: 8000, max: 15000 },
+  },
+  floodRepair: { min: 30000, max: 80000 },
+  accidentPct: {
+    none: { min: 0, max: 0 },
+    minor: { min: 2, max: 4 },
+    major: { min: 8, max: 12 },
+    structural: { min: 20, max: 30 },
+  },
+  repaintPctPerPanel: 1,
+  maxRepaintPct: 6,
+  insurancePct: {
+    zero_dep: { min: 0, max: 0 },
+    comprehensive: { min: 0, max: 0 },
+    third_party: { min: 1, max: 2 },
+    expired: { min: 2, max: 3 },
+  },
+  claimPct: 1.5,
+  maxClaimPct: 4.5,
+  floodPct: { min: 25, max: 40 },
+};
+
+const ACCIDENT_BASIS: Record<AccidentHistory, string> = {
+  none: '',
+  minor: 'Minor accident repaired',
+  major: 'Major accident',
+  structural: 'Structural damage',
+};
+
+const SERVICE_BASIS: Record<ServiceHistory, string> = {
+  full_dealer: 'Routine service (full dealer history)',
+  partial: 'Catch-up service (partial history)',
+  none: 'Full service and inspection (no records)',
+};
+
+const INSURANCE_BASIS: Record<InsuranceType, string> = {
+  zero_dep: '',
+  comprehensive: '',
+  third_party: 'Third-party cover only, no own-damage history',
+  expired: 'Policy expired, needs a break-in inspection before renewal',
+};
+
+function percentOf(amount: number, pct: number): number {
+  return Math.round((amount * pct) / 100);
+}
+
+function percentRange(marketPrice: number, pct: Range): Range {
+  return { min: percentOf(marketPrice, pct.min), max: percentOf(marketPrice, pct.max) };
+}
+
+/**
+ * Itemised refurbishment work for an inspected car
+ */
+export function refurbishmentItems(
+  condition: VehicleCondition,
+  rules: InspectionRules = DEFAULT_INSPECTION_RULES
+): Deduction[] {
+  const items: Deduction[] = [
+    {
+      id: 'refurb_detailing',
+      category: 'refurbishment',
+      label: 'Detailing',
+      basis: 'Cleaning, polishing and minor touch-ups',
+      ...rules.detailing,
+    },
+  ];
+
+  const tyres = condition.tyreLifePct < rules.tyreReplaceBelowPct
+    ? 4
+    : condition.tyreLifePct < rules.tyrePairBelowPct
+      ? 2
+      : 0;
+  if (tyres > 0) {
+    items.push({
+      id: 'refurb_tyres',
+      category: 'refurbishment',
+      label: 'Tyres',
+      basis: `${condition.tyreLifePct}% tread left: replace ${tyres === 4 ? 'all four' : 'one pair'}`,
+      min: tyres * rules.tyreCost.min,
+      max: tyres * rules.tyreCost.max,
+    });
+  }
+
+  items.push({
+    id: 'refurb_service',
+    category: 'refurbishment',
+    label: 'Service',
+    basis: SERVICE_BASIS[condition.serviceHistory],
+    ...rules.service[condition.serviceHistory],
+  });
+
+  if (condition.floodDamage) {
+    items.push({
+      id: 'refurb_flood',
+      category: 'refurbishment',
+      label: 'Flood repairs',
+      basis: 'Wiring, electronics, upholstery and carpets',
+      ...rules.floodRepair,
+    });
+  }
+
+  return items;
+}
+
+/**
+ * Value lost to the car's history, as a share of the market price
+ */
+export function conditionDeductions(
+  condition: VehicleCondition,
+  marketPrice: number,
+  rules: InspectionRules = DEFAULT_INSPECTION_RULES
+): Deduction[] {
+  const deductions: Deduction[] = [];
+
+  if (condition.accident !== 'none') {
+    const pct = rules.accidentPct[condition.accident];
+    deductions.push({
+      id: 'condition_accident',
+      category: 'condition',
+      label: 'Accident history',
+      basis: `${ACCIDENT_BASIS[condition.accident]}: ${pct.min}-${pct.max}% of market price`,
+      ...percentRange(marketPrice, pct),
+    });
+  }
+
+  if (condition.repaintedPanels > 0) {
+    const pct = Math.min(rules.maxRepaintPct, condition.repaintedPanels * rules.repaintPctPerPanel);
+    const amount = percentOf(marketPrice, pct);
+    deductions.push({
+      id: 'condition_repaint',
+      category: 'condition',
+      label: 'Repainted panels',
+      basis: `${condition.repaintedPanels} panel${condition.repaintedPanels === 1 ? '' : 's'}: ${pct}% of market price`,
+      min: amount,
+      max: amount,
+    });
+  }
+
+  const insurancePct = rules.insurancePct[condition.insurance];
+  if (insurancePct.max > 0) {
+    deductions.push({
+      id: 'condition_insurance',
+      category: 'condition',
+      label: 'Insurance',
+      basis: `${INSURANCE_BASIS[condition.insurance]}: ${insurancePct.min}-${insurancePct.max}%`,
+      ...percentRange(marketPrice, insurancePct),
+    });
+  }
+
+  if (condition.insuranceClaims > 0) {
+    const pct = Math.min(rules.maxClaimPct, condition.insuranceClaims * rules.claimPct);
+    const amount = percentOf(marketPrice, pct);
+    deductions.push({
+      id: 'condition_claims',
+      category: 'condition',
+      label: 'Insurance claims',
+      basis: `${condition.insuranceClaims} claim${condition.insuranceClaims === 1 ? '' : 's'} in 3 years: ${pct}%`,
+      min: amount,
+      max: amount,
+    });
+  }
+
+  if (condition.floodDamage) {
+    deductions.push({
+      id: 'condition_flood',
+      category: 'condition',
+      label: 'Flood damage',
+      basis: `Resale stigma and hidden electrical faults: ${rules.floodPct.min}-${rules.floodPct.max}%`,
+      ...percentRange(marketPrice, rules.floodPct),
+    });
+  }
+
+  return deductions;
+}
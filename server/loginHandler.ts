@@ -0,0 +1,35 @@
+/**
+ * POST /api/login
+ * Exchanges username + password for a signed bearer token.
+ */
+
+import { LoginResponse } from '../types';
+import { authenticateUser, signToken } from './auth';
+import { tryAppendAuditEvent } from './auditStore';
+import { errorResponse, json, readJson } from './http';
+
+export async function handleLogin(request: Request): Promise<Response> {
+  if (request.method !== 'POST') {
+    return errorResponse(405, 'method_not_allowed', 'Use POST.');
+  }
+
+  const body = await readJson(request);
+  if (typeof body?.username !== 'string' || typeof body?.password !== 'string') {
+    return errorResponse(400, 'bad_request', 'Username and password are required.');
+  }
+
+  try {
+    const user = await authenticateUser(body.username, body.password);
+    if (!user) {
+      return errorResponse(401, 'unauthorized', 'Incorrect username or password.');
+    }
+
+    const { token, expiresAt } = await signToken(user);
+    await tryAppendAuditEvent(user, 'login');
+    const response: LoginResponse = { token, user, expiresAt };
+    return json(200, response);
+  } catch (error) {
+    console.error('Login handler error:', error);
+    return errorResponse(500, 'server_error', 'Login is unavailable. Check the server auth configuration.');
+  }
+}
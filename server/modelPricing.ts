@@ -0,0 +1,75 @@
+/**
+ * Model price table (USD)
+ * Defaults follow Google's published paid-tier Gemini prices; override or add
+ * models with MODEL_PRICES, e.g. {"gemini-2.5-flash":{"inputPer1M":0.3,"outputPer1M":2.5}}
+ */
+
+import { TokenCounts } from '../types';
+
+export interface ModelPrice {
+  inputPer1M: number; // Prompt and search-result (tool use) tokens
+  outputPer1M: number; // Candidate and thinking tokens
+  cachedInputPer1M?: number; // Prompt tokens served from the context cache; defaults to inputPer1M
+  groundedCall?: number; // Per search-grounded call, once the free daily allowance is used up
+}
+
+const DEFAULT_PRICES: Record<string, ModelPrice> = {
+  'gemini-2.5-flash': { inputPer1M: 0.3, outputPer1M: 2.5, cachedInputPer1M: 0.075, groundedCall: 0 },
+  'gemini-2.5-flash-lite': { inputPer1M: 0.1, outputPer1M: 0.4, cachedInputPer1M: 0.025, groundedCall: 0 },
+  'gemini-2.5-pro': { inputPer1M: 1.25, outputPer1M: 10, cachedInputPer1M: 0.31, groundedCall: 0 },
+  'gemini-2.0-flash': { inputPer1M: 0.1, outputPer1M: 0.4, cachedInputPer1M: 0.025, groundedCall: 0 },
+  'mock-replay': { inputPer1M: 0, outputPer1M: 0 },
+};
+
+let prices: Record<string, ModelPrice> | null = null;
+
+function isModelPrice(value: any): value is ModelPrice {
+  const optional = (n: unknown) => n === undefined || (typeof n === 'number' && n >= 0);
+  return (
+    !!value &&
+    typeof value.inputPer1M === 'number' && value.inputPer1M >= 0 &&
+    typeof value.outputPer1M === 'number' && value.outputPer1M >= 0 &&
+    optional(value.cachedInputPer1M) &&
+    optional(value.groundedCall)
+  );
+}
+
+function loadPrices(): Record<string, ModelPrice> {
+  if (prices) return prices;
+  prices = { ...DEFAULT_PRICES };
+
+  const raw = process.env.MODEL_PRICES;
+  if (raw) {
+    try {
+      Object.entries(JSON.parse(raw)).forEach(([model, price]) => {
+        const merged = { ...prices![model], ...(price as object) };
+        if (isModelPrice(merged)) prices![model] = merged;
+        else console.warn(`Ignoring invalid MODEL_PRICES entry for ${model}`);
+      });
+    } catch {
+      console.warn('MODEL_PRICES is not valid JSON; using default prices');
+    }
+  }
+  return prices;
+}
+
+/**
+ * Cost of the given usage, or null when the model has no price
+ */
+export function costFor(model: string, tokens: TokenCounts, groundedCalls: number): number | null {
+  const price = loadPrices()[model];
+  if (!price) {
+    console.warn(`No price for model ${model}; add it to MODEL_PRICES`);
+    return null;
+  }
+
+  const uncachedInput = Math.max(0, tokens.promptTokens - tokens.cachedTokens) + tokens.toolUseTokens;
+  const output = tokens.candidatesTokens + tokens.thoughtsTokens;
+  const cost =
+    (uncachedInput / 1000000) * price.inputPer1M +
+    (tokens.cachedTokens / 1000000) * (price.cachedInputPer1M ?? price.inputPer1M) +
+    (output / 1000000) * price.outputPer1M +
+    groundedCalls * (price.groundedCall || 0);
+
+  return Math.round(cost * 1000000) / 1000000;
+}
@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+import { CarDetails, FuelType, Transmission } from '../types';
+import { DEFAULT_CONDITION } from '../utils/inspection';
+import { calculateBuyPrice } from './pricingEngine';
+
+const REFERENCE_YEAR = 2025;
+
+const swift: CarDetails = {
+  brand: 'Maruti Suzuki',
+  model: 'Swift',
+  variant: 'VXi',
+  year: 2023,
+  fuel: FuelType.PETROL,
+  transmission: Transmission.MANUAL,
+  ownership: 1,
+  kmDriven: 20000,
+  location: 'Mumbai, Maharashtra',
+};
+
+const price = (marketPrice: number, car: Partial<CarDetails> = {}, expectedDaysToSell?: number) =>
+  calculateBuyPrice(marketPrice, { ...swift, ...car }, { referenceYear: REFERENCE_YEAR, expectedDaysToSell });
+
+const deduction = (result: ReturnType<typeof price>, id: string) => result.deductions.find(d => d.id === id);
+
+describe('calculateBuyPrice', () => {
+  it('takes the dealer margin and flat refurbishment allowance from a clean car', () => {
+    const result = price(520000);
+
+    expect(result.deductions.map(d => d.id)).toEqual(['dealer_margin', 'refurbishment']);
+    expect(deduction(result, 'dealer_margin')).toMatchObject({ min: 78000, max: 104000 });
+    expect(deduction(result, 'refurbishment')).toMatchObject({ min: 15000, max: 25000 });
+    // 520000 - (104000 + 25000) and 520000 - (78000 + 15000)
+    expect(result.priceBand).toEqual({ min: 391000, max: 427000, currency: 'INR' });
+    expect(result.viable).toBe(true);
+  });
+
+  it('rounds the band down to the nearest thousand', () => {
+    const result = price(520500);
+    expect(result.priceBand.min % 1000).toBe(0);
+    expect(result.priceBand.max % 1000).toBe(0);
+    expect(result.priceBand.max).toBe(427000);
+  });
+
+  it('applies ownership, mileage and slow-mover penalties as a share of the market price', () => {
+    // 6 years old: 90,000 km allowance, 20,000 km over at 2% per 10,000 km
+    const result = price(500000, { year: 2019, kmDriven: 110000, ownership: 2 }, 105);
+
+    expect(deduction(result, 'ownership')).toMatchObject({ min: 50000, max: 50000 });
+    expect(deduction(result, 'mileage')).toMatchObject({ min: 20000, max: 20000 });
+    // 60 days over the 45-day target at 2% per 30 days
+    expect(deduction(result, 'slow_mover')).toMatchObject({ min: 20000, max: 20000 });
+    // Worst case: 100000 margin + 25000 refurbishment + 90000 penalties
+    expect(result.priceBand.min).toBe(285000);
+  });
+
+  it('caps the mileage penalty', () => {
+    const result = price(500000, { year: 2023, kmDriven: 400000 });
+    expect(deduction(result, 'mileage')).toMatchObject({ min: 75000, max: 75000 });
+  });
+
+  it('itemises refurbishment and deducts condition issues for inspected cars', () => {
+    const result = price(500000, {
+      condition: { ...DEFAULT_CONDITION, tyreLifePct: 20, accident: 'minor', repaintedPanels: 2 },
+    });
+
+    expect(deduction(result, 'refurbishment')).toBeUndefined();
+    expect(deduction(result, 'refurb_tyres')).toMatchObject({ category: 'refurbishment', min: 16000, max: 28000 });
+    expect(deduction(result, 'condition_accident')).toMatchObject({ category: 'condition', min: 10000, max: 20000 });
+    expect(deduction(result, 'condition_repaint')).toMatchObject({ min: 10000, max: 10000 });
+  });
+
+  it('charges road tax again, pro-rated, for a car registered in another state', () => {
+    const result = price(520000, { year: 2020, registration: 'KA05MN1234' });
+
+    // Maharashtra 11% for 10 of 15 years: 38133, plus 3000-6000 fees
+    expect(deduction(result, 'reregistration')).toMatchObject({ min: 41133, max: 44133 });
+    expect(deduction(result, 'reregistration')?.basis).toContain('Registered in Karnataka, bought in Maharashtra');
+  });
+
+  it('charges re-registration for plates from states whose RTOs are not listed', () => {
+    const result = price(520000, { year: 2020, registration: 'OD33AB1234' });
+
+    expect(deduction(result, 'reregistration')).toMatchObject({ min: 41133, max: 44133 });
+    expect(deduction(result, 'reregistration')?.basis).toContain('Registered in Odisha, bought in Maharashtra');
+  });
+
+  it('does not charge re-registration for same-state or Bharat-series plates', () => {
+    expect(deduction(price(520000, { registration: 'MH02AB1234' }), 'reregistration')).toBeUndefined();
+    expect(deduction(price(520000, { registration: '22BH1234AB' }), 'reregistration')).toBeUndefined();
+  });
+
+  it('reports a car as not viable when the deductions use up the market price', () => {
+    const result = price(180000, {
+      year: 2012,
+      ownership: 3,
+      kmDriven: 120000,
+      condition: { ...DEFAULT_CONDITION, floodDamage: true },
+    });
+
+    expect(result.viable).toBe(false);
+    expect(result.priceBand).toEqual({ min: 0, max: 0, currency: 'INR' });
+    expect(deduction(result, 'condition_flood')).toBeDefined();
+  });
+
+  it('rejects a non-positive market price', () => {
+    expect(() => price(0)).toThrow('Invalid market price');
+  });
+});
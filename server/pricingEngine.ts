@@ -0,0 +1,215 @@
+/**
+ * Rule-based pricing engine
+ * Turns a market transaction price into a dealer buy price using fixed, auditable rules.
+ * The same car and market price always produce the same ledger and price band.
+ */
+
+import { CarDetails, Deduction, PricingBreakdown } from '../types';
+import { stateName, stateTransfer } from '../utils/registration';
+import { DEFAULT_INSPECTION_RULES, InspectionRules, conditionDeductions, refurbishmentItems } from './inspectionCosts';
+
+export interface PricingRules {
+  dealerMarginPct: { min: number; max: number };
+  refurbishment: { min: number; max: number }; // Flat allowance for cars without an inspection
+  inspection: InspectionRules;
+  ownershipPenaltyPct: Record<number, number>; // keyed by owner number, highest key applies to later owners
+  mileage: {
+    allowancePerYear: number;
+    penaltyPctPer10k: number;
+    maxPenaltyPct: number;
+  };
+  slowMover: {
+    thresholdDays: number; // Expected days-to-sell beyond this is penalised
+    pctPer30Days: number;
+    maxPenaltyPct: number;
+  };
+  reregistration: {
+    fees: { min: number; max: number }; // NOC, agent and RTO fees
+    vehicleLifeYears: number; // Road tax in the new state is charged pro rata over this life
+  };
+  roundTo: number;
+}
+
+export const DEFAULT_PRICING_RULES: PricingRules = {
+  dealerMarginPct: { min: 15, max: 20 },
+  refurbishment: { min: 15000, max: 25000 },
+  inspection: DEFAULT_INSPECTION_RULES,
+  ownershipPenaltyPct: { 1: 0, 2: 10, 3: 20 },
+  mileage: {
+    allowancePerYear: 15000,
+    penaltyPctPer10k: 2,
+    maxPenaltyPct: 15,
+  },
+  slowMover: {
+    thresholdDays: 45,
+    pctPer30Days: 2,
+    maxPenaltyPct: 8,
+  },
+  reregistration: {
+    fees: { min: 3000, max: 6000 },
+    vehicleLifeYears: 15,
+  },
+  roundTo: 1000,
+};
+
+/**
+ * Ownership penalty for a given owner count
+ * Owners beyond the highest configured key get the highest configured penalty
+ */
+function ownershipPenaltyPct(ownership: number, rules: PricingRules): number {
+  const keys = Object.keys(rules.ownershipPenaltyPct).map(Number).sort((a, b) => a - b);
+  const applicable = keys.filter(k => k <= Math.max(1, ownership));
+  if (applicable.length === 0) return 0;
+  return rules.ownershipPenaltyPct[applicable[applicable.length - 1]];
+}
+
+/**
+ * Mileage penalty: percentage of market price for km driven above the yearly allowance
+ */
+function mileagePenalty(
+  car: CarDetails,
+  referenceYear: number,
+  rules: PricingRules
+): { pct: number; excessKm: number; allowedKm: number } {
+  const ageYears = Math.max(1, referenceYear - car.year);
+  const allowedKm = ageYears * rules.mileage.allowancePerYear;
+  const excessKm = Math.max(0, car.kmDriven - allowedKm);
+  const pct = Math.min(
+    rules.mileage.maxPenaltyPct,
+    (excessKm / 10000) * rules.mileage.penaltyPctPer10k
+  );
+  return { pct, excessKm, allowedKm };
+}
+
+function percentOf(amount: number, pct: number): number {
+  return Math.round((amount * pct) / 100);
+}
+
+/**
+ * Apply the dealer valuation rules to a market transaction price
+ * Returns an itemised deduction ledger and the final buy price band
+ */
+export function calculateBuyPrice(
+  marketPrice: number,
+  car: CarDetails,
+  options: {
+    rules?: PricingRules;
+    referenceYear?: number;
+    currency?: string;
+    expectedDaysToSell?: number; // From our history; slow movers cost more to hold
+  } = {}
+): PricingBreakdown {
+  const rules = options.rules || DEFAULT_PRICING_RULES;
+  const referenceYear = options.referenceYear ?? new Date().getFullYear();
+  const currency = options.currency || 'INR';
+
+  if (!Number.isFinite(marketPrice) || marketPrice <= 0) {
+    throw new Error(`Invalid market price: ${marketPrice}`);
+  }
+
+  const deductions: Deduction[] = [];
+
+  // 1. Dealer margin (profit + risk)
+  deductions.push({
+    id: 'dealer_margin',
+    label: 'Dealer margin',
+    basis: `${rules.dealerMarginPct.min}-${rules.dealerMarginPct.max}% of market price`,
+    min: percentOf(marketPrice, rules.dealerMarginPct.min),
+    max: percentOf(marketPrice, rules.dealerMarginPct.max),
+  });
+
+  // 2. Refurbishment: itemised from the inspection, or a flat allowance without one
+  if (car.condition) {
+    deductions.push(...refurbishmentItems(car.condition, rules.inspection));
+  } else {
+    deductions.push({
+      id: 'refurbishment',
+      label: 'Refurbishment',
+      basis: 'Flat allowance for tyres, paint and service (not inspected)',
+      min: rules.refurbishment.min,
+      max: rules.refurbishment.max,
+    });
+  }
+
+  // 3. Ownership penalty
+  const ownerPct = ownershipPenaltyPct(car.ownership, rules);
+  if (ownerPct > 0) {
+    const amount = percentOf(marketPrice, ownerPct);
+    deductions.push({
+      id: 'ownership',
+      label: 'Ownership penalty',
+      basis: `${car.ownership} owners: ${ownerPct}% of market price`,
+      min: amount,
+      max: amount,
+    });
+  }
+
+  // 4. Mileage penalty
+  const mileage = mileagePenalty(car, referenceYear, rules);
+  if (mileage.pct > 0) {
+    const amount = percentOf(marketPrice, mileage.pct);
+    deductions.push({
+      id: 'mileage',
+      label: 'Mileage penalty',
+      basis: `${mileage.excessKm.toLocaleString('en-IN')} km over ${mileage.allowedKm.toLocaleString('en-IN')} km allowance: ${mileage.pct.toFixed(1)}%`,
+      min: amount,
+      max: amount,
+    });
+  }
+
+  // 5. Condition: accident history, repaints, insurance and flood damage
+  if (car.condition) {
+    deductions.push(...conditionDeductions(car.condition, marketPrice, rules.inspection));
+  }
+
+  // 6. Cross-state re-registration: road tax is paid again in the state we buy in
+  const transfer = stateTransfer(car);
+  if (transfer) {
+    const remainingYears = Math.max(0, rules.reregistration.vehicleLifeYears - Math.max(0, referenceYear - car.year));
+    const tax = percentOf(marketPrice, (transfer.roadTaxPct * remainingYears) / rules.reregistration.vehicleLifeYears);
+    deductions.push({
+      id: 'reregistration',
+      label: 'Re-registration',
+      basis: `Registered in ${stateName(transfer.fromState)}, bought in ${stateName(transfer.toState)}: NOC, fees and ${transfer.roadTaxPct}% road tax for ${remainingYears} of ${rules.reregistration.vehicleLifeYears} years`,
+      min: tax + rules.reregistration.fees.min,
+      max: tax + rules.reregistration.fees.max,
+    });
+  }
+
+  // 7. Slow-mover penalty
+  const days = options.expectedDaysToSell;
+  if (days !== undefined && days > rules.slowMover.thresholdDays) {
+    const pct = Math.min(
+      rules.slowMover.maxPenaltyPct,
+      ((days - rules.slowMover.thresholdDays) / 30) * rules.slowMover.pctPer30Days
+    );
+    const amount = percentOf(marketPrice, pct);
+    deductions.push({
+      id: 'slow_mover',
+      label: 'Slow-mover penalty',
+      basis: `Expected ${days} days to sell vs ${rules.slowMover.thresholdDays}-day target: ${pct.toFixed(1)}%`,
+      min: amount,
+      max: amount,
+    });
+  }
+
+  // Lowest buy price takes the largest deductions and vice versa
+  const totalMax = deductions.reduce((sum, d) => sum + d.max, 0);
+  const totalMin = deductions.reduce((sum, d) => sum + d.min, 0);
+  const roundDown = (value: number) =>
+    Math.max(0, Math.floor(value / rules.roundTo) * rules.roundTo);
+
+  // Not worth buying when the worst case leaves nothing to pay for the car itself
+  const viable = roundDown(marketPrice - totalMax) > 0;
+
+  return {
+    marketPrice,
+    deductions,
+    priceBand: {
+      min: viable ? roundDown(marketPrice - totalMax) : 0,
+      max: viable ? roundDown(marketPrice - totalMin) : 0,
+      currency,
+    },
+    viable,
+  };
+}
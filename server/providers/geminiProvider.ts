@@ -0,0 +1,76 @@
+import { FinishReason, GenerateContentResponse, GenerateContentResponseUsageMetadata, GoogleGenAI } from '@google/genai';
+import { GroundingChunk, TokenCounts } from '../../types';
+import { ProviderRequest, ProviderResponse, ValuationProvider } from './types';
+
+export const DEFAULT_GEMINI_MODEL = 'gemini-2.5-flash';
+
+const BLOCKING_FINISH_REASONS: string[] = [
+  FinishReason.SAFETY,
+  FinishReason.PROHIBITED_CONTENT,
+  FinishReason.BLOCKLIST,
+  FinishReason.SPII,
+];
+
+function blockReasonOf(response: GenerateContentResponse): string | undefined {
+  if (response.promptFeedback?.blockReason) return response.promptFeedback.blockReason;
+  const finishReason = response.candidates?.[0]?.finishReason;
+  return finishReason && BLOCKING_FINISH_REASONS.includes(finishReason) ? finishReason : undefined;
+}
+
+function toTokenCounts(metadata: GenerateContentResponseUsageMetadata | undefined): TokenCounts | undefined {
+  if (!metadata) return undefined;
+  return {
+    promptTokens: metadata.promptTokenCount || 0,
+    candidatesTokens: metadata.candidatesTokenCount || 0,
+    toolUseTokens: metadata.toolUsePromptTokenCount || 0,
+    thoughtsTokens: metadata.thoughtsTokenCount || 0,
+    cachedTokens: metadata.cachedContentTokenCount || 0,
+  };
+}
+
+/**
+ * Gemini adapter
+ * The SDK client is created on first use so importing this module never needs a key.
+ */
+export function createGeminiProvider(options: {
+  apiKey: string;
+  modelId?: string;
+}): ValuationProvider {
+  const modelId = options.modelId || DEFAULT_GEMINI_MODEL;
+  let client: GoogleGenAI | null = null;
+
+  const getClient = () => {
+    if (!client) {
+      client = new GoogleGenAI({ apiKey: options.apiKey });
+    }
+    return client;
+  };
+
+  return {
+    id: 'gemini',
+    modelId,
+    async generate(request: ProviderRequest): Promise<ProviderResponse> {
+      const response = await getClient().models.generateContent({
+        model: modelId,
+        contents: request.prompt,
+        config: request.jsonSchema
+          ? {
+              responseMimeType: 'application/json',
+              responseJsonSchema: request.jsonSchema,
+              abortSignal: request.signal,
+            }
+          : {
+              tools: request.grounded ? [{ googleSearch: {} }] : undefined,
+              abortSignal: request.signal,
+            },
+      });
+
+      return {
+        text: response.text || '',
+        groundingChunks: (response.candidates?.[0]?.groundingMetadata?.groundingChunks || []) as GroundingChunk[],
+        usage: toTokenCounts(response.usageMetadata),
+        blockReason: blockReasonOf(response),
+      };
+    },
+  };
+}
@@ -0,0 +1,42 @@
+import { createGeminiProvider } from './geminiProvider';
+import { createMockProvider } from './mockProvider';
+import { ValuationProvider } from './types';
+
+export type { ProviderRequest, ProviderResponse, ValuationProvider } from './types';
+export { createGeminiProvider, DEFAULT_GEMINI_MODEL } from './geminiProvider';
+export { createMockProvider } from './mockProvider';
+
+let activeProvider: ValuationProvider | null = null;
+
+/**
+ * Resolve the provider from the server environment (never exposed to the browser)
+ * VALUATION_PROVIDER: 'gemini' (default) or 'mock' for offline replay
+ * GEMINI_API_KEY: required for gemini
+ * GEMINI_MODEL: model id override (default gemini-2.5-flash)
+ */
+export function getValuationProvider(): ValuationProvider {
+  if (activeProvider) return activeProvider;
+
+  const env = process.env;
+  if (env.VALUATION_PROVIDER === 'mock') {
+    activeProvider = createMockProvider();
+  } else {
+    if (!env.GEMINI_API_KEY) {
+      throw new Error('GEMINI_API_KEY is not set on the server');
+    }
+    activeProvider = createGeminiProvider({
+      apiKey: env.GEMINI_API_KEY,
+      modelId: env.GEMINI_MODEL,
+    });
+  }
+
+  console.log(`🤖 Valuation provider: ${activeProvider.id} (${activeProvider.modelId})`);
+  return activeProvider;
+}
+
+/**
+ * Override the active provider (tests, demos)
+ */
+export function setValuationProvider(provider: ValuationProvider | null): void {
+  activeProvider = provider;
+}
@@ -0,0 +1,61 @@
+import { extractValuationJson } from '../valuationSchema';
+import { TokenCounts } from '../../types';
+import { estimateTokens } from '../../utils/dataSanitizer';
+import { ProviderRequest, ProviderResponse, ValuationProvider } from './types';
+import { DEFAULT_RECORDINGS, RecordedResponse } from './recordings';
+
+/**
+ * Offline provider that replays recorded responses
+ * A recording is chosen when all of its `match` terms appear in the prompt
+ * (case-insensitive); the first recording without match terms is the fallback.
+ * Same prompt in, same response out - no network, no key.
+ */
+export function createMockProvider(options: {
+  recordings?: RecordedResponse[];
+  modelId?: string;
+} = {}): ValuationProvider {
+  const recordings = options.recordings || DEFAULT_RECORDINGS;
+
+  const findRecording = (prompt: string): RecordedResponse => {
+    const haystack = prompt.toLowerCase();
+    const matched = recordings.find(
+      r => r.match && r.match.length > 0 && r.match.every(term => haystack.includes(term.toLowerCase()))
+    );
+    const fallback = recordings.find(r => !r.match || r.match.length === 0);
+    const recording = matched || fallback;
+
+    if (!recording) {
+      throw new Error('Mock provider has no recording for this prompt');
+    }
+    return recording;
+  };
+
+  // Rough counts so usage accounting can be exercised offline
+  const usageFor = (prompt: string, text: string): TokenCounts => ({
+    promptTokens: estimateTokens(prompt),
+    candidatesTokens: estimateTokens(text),
+    toolUseTokens: 0,
+    thoughtsTokens: 0,
+    cachedTokens: 0,
+  });
+
+  return {
+    id: 'mock',
+    modelId: options.modelId || 'mock-replay',
+    async generate(request: ProviderRequest): Promise<ProviderResponse> {
+      const recording = findRecording(request.prompt);
+
+      // Structured (repair) requests get only the JSON portion of the recording
+      if (request.jsonSchema) {
+        const { json } = extractValuationJson(recording.response.text);
+        return { text: json || '', groundingChunks: [], usage: usageFor(request.prompt, json || '') };
+      }
+
+      return {
+        text: recording.response.text,
+        groundingChunks: request.grounded ? recording.response.groundingChunks : [],
+        usage: usageFor(request.prompt, recording.response.text),
+      };
+    },
+  };
+}
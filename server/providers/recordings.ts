@@ -0,0 +1,72 @@
+import { ProviderResponse } from './types';
+
+/**
+ * Recorded model responses replayed by the mock provider
+ */
+export interface RecordedResponse {
+  match?: string[];
+  response: ProviderResponse;
+}
+
+export const DEFAULT_RECORDINGS: RecordedResponse[] = [
+  {
+    match: ['maruti', 'swift'],
+    response: {
+      text: `**Past transactions**
+- No matching history supplied.
+
+**Valuation Reasoning**
+- Listings on CarWale/CarDekho: ₹5.4L - ₹6.1L.
+- Transaction discount ~12% below listings.
+- Strong resale demand for Swift in metro cities.
+- Market price ₹5.2L.
+
+\`\`\`json
+{"marketPrice": 520000, "listingPriceRange": {"min": 540000, "max": 610000}, "currency": "INR", "originalMsrp": "₹6.9L (Ex-Showroom 2021)"}
+\`\`\``,
+      groundingChunks: [
+        { web: { uri: 'https://www.cardekho.com/used-maruti-swift+cars+in+mumbai', title: 'Used Maruti Swift Cars in Mumbai - CarDekho' } },
+        { web: { uri: 'https://www.carwale.com/used/maruti-suzuki-swift-cars/', title: 'Used Maruti Suzuki Swift - CarWale' } },
+      ],
+    },
+  },
+  {
+    match: ['hyundai', 'creta'],
+    response: {
+      text: `**Past transactions**
+- No matching history supplied.
+
+**Valuation Reasoning**
+- Listings on CarWale/OLX: ₹11.5L - ₹13.2L.
+- Transaction discount ~10% below listings.
+- Diesel automatics hold value well.
+- Market price ₹11.2L.
+
+\`\`\`json
+{"marketPrice": 1120000, "listingPriceRange": {"min": 1150000, "max": 1320000}, "currency": "INR", "originalMsrp": "₹15.8L (Ex-Showroom 2020)"}
+\`\`\``,
+      groundingChunks: [
+        { web: { uri: 'https://www.carwale.com/used/hyundai-creta-cars/', title: 'Used Hyundai Creta - CarWale' } },
+        { web: { uri: 'https://www.olx.in/cars_c84/q-hyundai-creta', title: 'Hyundai Creta - OLX' } },
+      ],
+    },
+  },
+  {
+    response: {
+      text: `**Past transactions**
+- No matching history supplied.
+
+**Valuation Reasoning**
+- Offline demo response (mock provider).
+- Listings assumed ₹4.8L - ₹5.6L.
+- Market price ₹4.6L.
+
+\`\`\`json
+{"marketPrice": 460000, "listingPriceRange": {"min": 480000, "max": 560000}, "currency": "INR", "originalMsrp": "Unknown"}
+\`\`\``,
+      groundingChunks: [
+        { web: { uri: 'https://www.cardekho.com/usedCars', title: 'Used Cars - CarDekho' } },
+      ],
+    },
+  },
+];
@@ -0,0 +1,27 @@
+import { GroundingChunk, TokenCounts } from '../../types';
+
+/**
+ * A single generation request sent to an LLM provider
+ */
+export interface ProviderRequest {
+  prompt: string;
+  grounded?: boolean; // Enable live web search (market listings)
+  jsonSchema?: object; // Ask for structured JSON output matching this schema
+  signal?: AbortSignal; // Stop waiting when the caller goes away (the call may still be billed)
+}
+
+export interface ProviderResponse {
+  text: string;
+  groundingChunks: GroundingChunk[];
+  usage?: TokenCounts; // Omitted when the backend reports no usage
+  blockReason?: string; // Set when the reply was withheld by a safety filter
+}
+
+/**
+ * Adapter interface implemented by every LLM backend (Gemini, offline mock, ...)
+ */
+export interface ValuationProvider {
+  readonly id: string;
+  readonly modelId: string;
+  generate(request: ProviderRequest): Promise<ProviderResponse>;
+}
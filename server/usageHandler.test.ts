@@ -0,0 +1,53 @@
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { AuthUser, UsageSummaryResponse } from '../types';
+import { appendAuditEvent } from './auditStore';
+import { signToken } from './auth';
+import { handleUsage } from './usageHandler';
+
+const buyer: AuthUser = { username: 'asha', name: 'Asha', role: 'buyer' };
+const manager: AuthUser = { username: 'ravi', name: 'Ravi', role: 'manager' };
+const admin: AuthUser = { username: 'meera', name: 'Meera', role: 'admin' };
+
+async function usageFor(user: AuthUser): Promise<UsageSummaryResponse> {
+  const { token } = await signToken(user);
+  const response = await handleUsage(
+    new Request('http://localhost/api/usage', { headers: { Authorization: `Bearer ${token}` } })
+  );
+  expect(response.status).toBe(200);
+  return response.json();
+}
+
+let dataDir: string;
+
+beforeAll(async () => {
+  dataDir = mkdtempSync(join(tmpdir(), 'usage-handler-'));
+  process.env.AUTH_SECRET = 'test-secret-with-at-least-thirty-two-chars';
+  process.env.AUDIT_LOG_FILE = join(dataDir, 'audit.jsonl');
+  await appendAuditEvent(buyer, 'valuation', { cached: false, costUsd: 0.002, promptTokens: 900, candidatesTokens: 120 });
+});
+
+afterAll(() => {
+  rmSync(dataDir, { recursive: true, force: true });
+});
+
+describe('GET /api/usage', () => {
+  it('shows buyers only their own usage', async () => {
+    const usage = await usageFor(buyer);
+    expect(usage.user.today.valuations).toBe(1);
+    expect(usage.dealership).toBeUndefined();
+  });
+
+  it('gives managers the dealership totals but not the per-user breakdown', async () => {
+    const usage = await usageFor(manager);
+    expect(usage.dealership?.today.valuations).toBe(1);
+    expect(usage.dealership?.byUser).toBeUndefined();
+  });
+
+  it('gives admins the per-user breakdown', async () => {
+    const usage = await usageFor(admin);
+    expect(usage.dealership?.byUser?.asha.today.costUsd).toBeCloseTo(0.002);
+  });
+});
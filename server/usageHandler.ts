@@ -0,0 +1,43 @@
+/**
+ * GET /api/usage
+ * The caller's own model usage today and this month, their daily cache hits and
+ * misses, and their budget status; roles with view_costs also get the dealership
+ * totals, and roles with view_user_usage a per-user breakdown.
+ */
+
+import { UsageSummaryResponse } from '../types';
+import { can } from '../utils/permissions';
+import { authenticateRequest } from './auth';
+import { readAuditEvents } from './auditStore';
+import { evaluateBudgets } from './budgets';
+import { errorResponse, json } from './http';
+import { periodsFor, summarizeCacheTrend, summarizeUsage } from './usageLedger';
+
+export async function handleUsage(request: Request): Promise<Response> {
+  if (request.method !== 'GET') {
+    return errorResponse(405, 'method_not_allowed', 'Use GET.');
+  }
+
+  const user = await authenticateRequest(request).catch(() => null);
+  if (!user) {
+    return errorResponse(401, 'unauthorized', 'Your session has expired. Please log in again.');
+  }
+
+  try {
+    const events = await readAuditEvents();
+    const usage = summarizeUsage(events);
+    const { all, byUser } = usage;
+    const response: UsageSummaryResponse = {
+      user: periodsFor(byUser, user.username),
+      cacheTrend: summarizeCacheTrend(events, user.username),
+      budget: evaluateBudgets(user, usage),
+    };
+    if (can(user, 'view_costs')) {
+      response.dealership = { ...all, ...(can(user, 'view_user_usage') ? { byUser } : {}) };
+    }
+    return json(200, response);
+  } catch (error) {
+    console.error('Usage handler error:', error);
+    return errorResponse(500, 'server_error', 'Usage totals are unavailable.');
+  }
+}
@@ -0,0 +1,103 @@
+/**
+ * Model usage totals
+ * Built from the 'valuation' events in the audit log, which carry the token
+ * counts and cost of every live call, so there is a single record of spend.
+ * Days and months follow India time, matching how the dealership reports.
+ */
+
+import { AuditEvent, CacheTrendPoint, UsagePeriods, UsageTotals } from '../types';
+import { addTokenCounts, emptyTokenCounts } from '../utils/tokenCounts';
+
+const BILLING_TIME_ZONE = 'Asia/Kolkata';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const CACHE_TREND_DAYS = 14;
+
+function dayKey(timestamp: number): string {
+  // en-CA formats as YYYY-MM-DD
+  return new Date(timestamp).toLocaleDateString('en-CA', { timeZone: BILLING_TIME_ZONE });
+}
+
+export function emptyUsageTotals(): UsageTotals {
+  return { ...emptyTokenCounts(), valuations: 0, cacheHits: 0, costUsd: 0 };
+}
+
+function emptyPeriods(): UsagePeriods {
+  return { today: emptyUsageTotals(), month: emptyUsageTotals() };
+}
+
+function addEvent(totals: UsageTotals, event: AuditEvent): UsageTotals {
+  if (event.details.cached) {
+    return { ...totals, cacheHits: totals.cacheHits + 1 };
+  }
+  const cost = event.details.costUsd;
+  return {
+    ...addTokenCounts(totals, event.details),
+    valuations: totals.valuations + 1,
+    costUsd: totals.costUsd + (typeof cost === 'number' ? cost : 0),
+  };
+}
+
+/**
+ * Today's and this month's totals, overall and per username
+ */
+export function summarizeUsage(
+  events: AuditEvent[],
+  now: number = Date.now()
+): { all: UsagePeriods; byUser: Record<string, UsagePeriods> } {
+  const today = dayKey(now);
+  const month = today.slice(0, 7);
+  let all = emptyPeriods();
+  const byUser: Record<string, UsagePeriods> = {};
+
+  events.forEach(event => {
+    if (event.action !== 'valuation') return;
+    const day = dayKey(event.timestamp);
+    if (!day.startsWith(month)) return;
+
+    const user = byUser[event.user.username] || emptyPeriods();
+    byUser[event.user.username] = {
+      today: day === today ? addEvent(user.today, event) : user.today,
+      month: addEvent(user.month, event),
+    };
+    all = {
+      today: day === today ? addEvent(all.today, event) : all.today,
+      month: addEvent(all.month, event),
+    };
+  });
+
+  return { all, byUser };
+}
+
+export function periodsFor(byUser: Record<string, UsagePeriods>, username: string): UsagePeriods {
+  return byUser[username] || emptyPeriods();
+}
+
+/**
+ * Daily result-cache hits and misses for one user, one point per day including empty days
+ */
+export function summarizeCacheTrend(
+  events: AuditEvent[],
+  username: string,
+  now: number = Date.now(),
+  days: number = CACHE_TREND_DAYS
+): CacheTrendPoint[] {
+  const points = new Map<string, CacheTrendPoint>();
+  for (let i = days - 1; i >= 0; i--) {
+    const date = dayKey(now - i * DAY_MS);
+    points.set(date, { date, hits: 0, misses: 0 });
+  }
+
+  events.forEach(event => {
+    if (event.action !== 'valuation' || event.user.username !== username) return;
+    const point = points.get(dayKey(event.timestamp));
+    if (!point) return;
+    if (event.details.cached) {
+      point.hits++;
+    } else {
+      point.misses++;
+    }
+  });
+
+  return Array.from(points.values());
+}
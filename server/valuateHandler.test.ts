@@ -0,0 +1,242 @@
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { ApiErrorBody, AuthUser, FuelType, Transmission, ValuationResult } from '../types';
+import { signToken } from './auth';
+import { ProviderResponse, ValuationProvider } from './providers';
+import { handleValuate } from './valuateHandler';
+
+const buyer: AuthUser = { username: 'asha', name: 'Asha', role: 'buyer' };
+const manager: AuthUser = { username: 'ravi', name: 'Ravi', role: 'manager' };
+const overBudget: AuthUser = { username: 'broke', name: 'Broke', role: 'buyer' };
+
+const car = {
+  brand: 'Maruti Suzuki',
+  model: 'Swift',
+  variant: 'VXi',
+  year: new Date().getFullYear() - 2,
+  fuel: FuelType.PETROL,
+  transmission: Transmission.MANUAL,
+  ownership: 1,
+  kmDriven: 20000,
+  location: 'Mumbai, Maharashtra',
+};
+
+const validBody = {
+  car,
+  insights: 'No matching history supplied.',
+  historicalMargin: { percentage: 12, description: 'Average margin on 4 Swifts' },
+};
+
+const answer: ProviderResponse = {
+  text: '- Market price ₹5.2L\n```json\n{"marketPrice": 520000, "listingPriceRange": {"min": 540000, "max": 610000}, "currency": "INR"}\n```',
+  groundingChunks: [{ web: { uri: 'https://www.carwale.com/used/', title: 'CarWale' } }],
+  usage: { promptTokens: 900, candidatesTokens: 120, toolUseTokens: 0, thoughtsTokens: 0, cachedTokens: 0 },
+};
+
+function stubProvider(generate: ValuationProvider['generate'] = async () => answer): ValuationProvider {
+  return { id: 'stub', modelId: 'stub-model', generate };
+}
+
+async function post(body: unknown, options: { user?: AuthUser; token?: string; provider?: ValuationProvider } = {}) {
+  const token = options.token ?? (options.user ? (await signToken(options.user)).token : undefined);
+  const request = new Request('http://localhost/api/valuate', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    },
+    body: typeof body === 'string' ? body : JSON.stringify(body),
+  });
+  const response = await handleValuate(request, { provider: options.provider || stubProvider() });
+  return { status: response.status, body: await response.json() };
+}
+
+let dataDir: string;
+
+beforeAll(() => {
+  dataDir = mkdtempSync(join(tmpdir(), 'valuate-handler-'));
+  process.env.AUTH_SECRET = 'test-secret-with-at-least-thirty-two-chars';
+  process.env.AUDIT_LOG_FILE = join(dataDir, 'audit.jsonl');
+  process.env.USAGE_BUDGETS = JSON.stringify({ users: { broke: { daily: { costUsd: 0 } } } });
+  process.env.MODEL_PRICES = JSON.stringify({ 'stub-model': { inputPer1M: 0.3, outputPer1M: 2.5 } });
+});
+
+afterAll(() => {
+  rmSync(dataDir, { recursive: true, force: true });
+});
+
+describe('POST /api/valuate', () => {
+  it('returns the valuation and logs who was shown which price', async () => {
+    const { status, body } = await post(validBody, { user: manager });
+    const result = body as ValuationResult;
+
+    expect(status).toBe(200);
+    expect(result.priceBand).toEqual({ min: 391000, max: 427000, currency: 'INR' });
+    expect(result.marketPrice).toBe(520000);
+    expect(result.deductions?.map(d => d.id)).toEqual(['dealer_margin', 'refurbishment']);
+    expect(result.groundingSources).toHaveLength(1);
+    expect(result.historicalMargin?.percentage).toBe(12);
+    expect(result.usage).toMatchObject({ model: 'stub-model', calls: 1, promptTokens: 900, cacheHit: false });
+    expect(result.usage?.costUsd).toBeCloseTo((900 * 0.3 + 120 * 2.5) / 1000000);
+
+    const events = readFileSync(process.env.AUDIT_LOG_FILE!, 'utf8').trim().split('\n').map(line => JSON.parse(line));
+    expect(events[events.length - 1]).toMatchObject({
+      action: 'valuation',
+      user: { username: 'ravi' },
+      details: { priceMin: 391000, priceMax: 427000, model: 'stub-model', cached: false },
+    });
+  });
+
+  it('hides historical margins from buyers', async () => {
+    const { status, body } = await post(validBody, { user: buyer });
+    expect(status).toBe(200);
+    expect(body.historicalMargin).toBeUndefined();
+  });
+
+  it('rejects a missing or invalid token with 401', async () => {
+    for (const token of [undefined, 'not-a-token', `${(await signToken(buyer)).token}x`]) {
+      const { status, body } = await post(validBody, { token });
+      expect(status).toBe(401);
+      expect((body as ApiErrorBody).error.code).toBe('unauthorized');
+    }
+  });
+
+  it('rejects an expired token with 401', async () => {
+    const { token } = await signToken(buyer, Date.now() - 9 * 60 * 60 * 1000);
+    const { status } = await post(validBody, { token });
+    expect(status).toBe(401);
+  });
+
+  it('rejects other methods with 405', async () => {
+    const response = await handleValuate(new Request('http://localhost/api/valuate'), { provider: stubProvider() });
+    expect(response.status).toBe(405);
+  });
+
+  it('rejects a malformed or invalid body with 400 and lists the issues', async () => {
+    const notJson = await post('{"car":', { user: buyer });
+    expect(notJson.status).toBe(400);
+    expect((notJson.body as ApiErrorBody).error.code).toBe('bad_request');
+
+    const { status, body } = await post(
+      { car: { ...car, brand: '', kmDriven: -5, registration: 'XX99' } },
+      { user: buyer }
+    );
+    expect(status).toBe(400);
+    expect((body as ApiErrorBody).error.issues).toEqual(
+      expect.arrayContaining([
+        'car.brand must be a non-empty string',
+        'car.kmDriven must be a non-negative number',
+        'car.registration is not a valid Indian registration number',
+        'insights must be a string',
+      ])
+    );
+  });
+
+  it('accepts only whole, non-negative days to sell within the limit', async () => {
+    const withDays = (days: unknown) => ({ ...validBody, expectedDaysToSell: { days, sampleSize: 4, description: 'Median of 4 sales' } });
+
+    for (const days of [-30, 12.5, 731, '60', null]) {
+      const { status, body } = await post(withDays(days), { user: buyer });
+      expect(status).toBe(400);
+      expect((body as ApiErrorBody).error.issues).toEqual(['expectedDaysToSell.days must be a whole number from 0 to 730']);
+    }
+    expect((await post(withDays(0), { user: buyer })).status).toBe(200);
+    expect((await post(withDays(90), { user: buyer })).status).toBe(200);
+  });
+
+  it('treats a blank registration as absent but rejects one that is not a string', async () => {
+    for (const registration of ['', '   ']) {
+      expect((await post({ ...validBody, car: { ...car, registration } }, { user: buyer })).status).toBe(200);
+    }
+
+    const { status, body } = await post({ ...validBody, car: { ...car, registration: 1234 } }, { user: buyer });
+    expect(status).toBe(400);
+    expect((body as ApiErrorBody).error.issues).toEqual(['car.registration must be a string']);
+  });
+
+  it('refuses with 429 once the spend budget is used up, without calling the model', async () => {
+    let called = false;
+    const provider = stubProvider(async () => {
+      called = true;
+      return answer;
+    });
+
+    const { status, body } = await post(validBody, { user: overBudget, provider });
+
+    expect(status).toBe(429);
+    expect((body as ApiErrorBody).error.code).toBe('budget_exceeded');
+    expect(called).toBe(false);
+  });
+
+  it('refuses with 503 when usage cannot be recorded, without calling the model', async () => {
+    let called = false;
+    const provider = stubProvider(async () => {
+      called = true;
+      return answer;
+    });
+    const ledger = process.env.AUDIT_LOG_FILE;
+    const notADirectory = join(dataDir, 'plain-file');
+    writeFileSync(notADirectory, '');
+    process.env.AUDIT_LOG_FILE = join(notADirectory, 'audit.jsonl');
+
+    try {
+      const { status, body } = await post(validBody, { user: buyer, provider });
+      expect(status).toBe(503);
+      expect((body as ApiErrorBody).error.code).toBe('ledger_unavailable');
+      expect(called).toBe(false);
+    } finally {
+      process.env.AUDIT_LOG_FILE = ledger;
+    }
+  });
+
+  it('refuses with 429 when the user already has two valuations running', async () => {
+    let release!: () => void;
+    const gate = new Promise<void>(resolve => { release = resolve; });
+    let started = 0;
+    const provider = stubProvider(async () => {
+      started++;
+      await gate;
+      return answer;
+    });
+
+    const running = [post(validBody, { user: buyer, provider }), post(validBody, { user: buyer, provider })];
+    while (started < 2) await new Promise(resolve => setTimeout(resolve, 5));
+
+    const third = await post(validBody, { user: buyer, provider });
+    expect(third.status).toBe(429);
+    expect((third.body as ApiErrorBody).error.code).toBe('rate_limited');
+
+    release();
+    expect((await Promise.all(running)).map(r => r.status)).toEqual([200, 200]);
+    // The slots are freed again afterwards
+    expect((await post(validBody, { user: buyer })).status).toBe(200);
+  });
+
+  describe('maps provider failures to error codes', () => {
+    const cases: Array<[string, ValuationProvider['generate'], number, string]> = [
+      ['provider quota (429)', async () => { throw Object.assign(new Error('quota'), { status: 429 }); }, 503, 'quota_exceeded'],
+      ['provider outage (5xx)', async () => { throw Object.assign(new Error('down'), { status: 503 }); }, 503, 'model_unavailable'],
+      ['unreachable provider', async () => { throw new TypeError('fetch failed'); }, 503, 'model_unavailable'],
+      ['other provider error', async () => { throw Object.assign(new Error('bad key'), { status: 400 }); }, 502, 'valuation_failed'],
+      ['safety block', async () => ({ text: '', groundingChunks: [], blockReason: 'SAFETY' }), 422, 'safety_blocked'],
+      ['answer without listings', async () => ({ ...answer, groundingChunks: [] }), 502, 'no_grounding'],
+      ['unrepairable JSON', async () => ({ ...answer, text: '{"marketPrice": "lots"}' }), 502, 'malformed_valuation'],
+    ];
+
+    it.each(cases)('%s', async (_label, generate, expectedStatus, expectedCode) => {
+      const { status, body } = await post(validBody, { user: buyer, provider: stubProvider(generate) });
+      expect(status).toBe(expectedStatus);
+      expect((body as ApiErrorBody).error.code).toBe(expectedCode);
+      expect((body as ApiErrorBody).error.message).toBeTruthy();
+    });
+
+    it('logs billed failures to the usage ledger', async () => {
+      await post(validBody, { user: buyer, provider: stubProvider(async () => ({ ...answer, groundingChunks: [] })) });
+
+      const events = readFileSync(process.env.AUDIT_LOG_FILE!, 'utf8').trim().split('\n').map(line => JSON.parse(line));
+      expect(events[events.length - 1].details).toMatchObject({ error: 'no_grounding', calls: 1, promptTokens: 900 });
+    });
+  });
+});
@@ -0,0 +1,194 @@
+/**
+ * POST /api/valuate
+ * Web-standard Request -> Response handler shared by the Vercel function
+ * (api/valuate.ts) and the Vite dev middleware (server/devApi.ts).
+ */
+
+import { ApiErrorCode, AuditDetails, ValuateRequest, ValuationUsage } from '../types';
+import {
+  MalformedValuationError,
+  NetworkError,
+  NoGroundingError,
+  QuotaExceededError,
+  SafetyBlockedError,
+  ValuationError,
+} from '../services/errors';
+import { conditionIssues } from '../utils/inspection';
+import { MAX_DAYS_TO_SELL } from '../utils/inventoryAgeing';
+import { parseRegistration } from '../utils/registration';
+import { can } from '../utils/permissions';
+import { authenticateRequest } from './auth';
+import { LedgerUnavailableError, assertLedgerWritable, tryAppendAuditEvent } from './auditStore';
+import { checkBudgets } from './budgets';
+import { errorResponse, json, readJson } from './http';
+import { runValuation } from './valuationPipeline';
+import { ValuationProvider, getValuationProvider } from './providers';
+
+// Grounded searches are the expensive part; cap how many one user can run at once
+const MAX_CONCURRENT_PER_USER = 2;
+const inFlight = new Map<string, number>();
+
+/**
+ * Shape check on the untrusted request body
+ */
+function validateRequest(body: any): string[] {
+  const issues: string[] = [];
+  const car = body?.car;
+
+  if (!car || typeof car !== 'object') {
+    return ['car is required'];
+  }
+  ['brand', 'model', 'variant', 'fuel', 'transmission', 'location'].forEach(field => {
+    if (typeof car[field] !== 'string' || !car[field].trim()) issues.push(`car.${field} must be a non-empty string`);
+  });
+  ['year', 'kmDriven', 'ownership'].forEach(field => {
+    if (typeof car[field] !== 'number' || !Number.isFinite(car[field]) || car[field] < 0) {
+      issues.push(`car.${field} must be a non-negative number`);
+    }
+  });
+  // The form sends an empty string when the optional field is left blank
+  if (car.registration !== undefined && typeof car.registration !== 'string') {
+    issues.push('car.registration must be a string');
+  } else if (car.registration?.trim() && !parseRegistration(car.registration)) {
+    issues.push('car.registration is not a valid Indian registration number');
+  }
+  if (car.condition !== undefined) {
+    issues.push(...conditionIssues(car.condition));
+  }
+  if (typeof body.insights !== 'string') {
+    issues.push('insights must be a string');
+  }
+  if (body.expectedDaysToSell !== undefined) {
+    const days = body.expectedDaysToSell?.days;
+    if (!Number.isInteger(days) || days < 0 || days > MAX_DAYS_TO_SELL) {
+      issues.push(`expectedDaysToSell.days must be a whole number from 0 to ${MAX_DAYS_TO_SELL}`);
+    }
+  }
+
+  return issues;
+}
+
+function auditedCar(valuation: ValuateRequest): AuditDetails {
+  return {
+    car: `${valuation.car.year} ${valuation.car.brand} ${valuation.car.model} ${valuation.car.variant}`,
+    kmDriven: valuation.car.kmDriven,
+    location: valuation.car.location,
+    registration: valuation.car.registration?.trim() || null,
+    datasetVersion: typeof valuation.datasetVersion === 'string' ? valuation.datasetVersion : null,
+  };
+}
+
+/**
+ * Token counts and cost for the audit event (the source of the usage totals)
+ */
+function usageDetails(usage: ValuationUsage | undefined): AuditDetails {
+  if (!usage) return {};
+  const { promptTokens, candidatesTokens, toolUseTokens, thoughtsTokens, cachedTokens, calls, costUsd } = usage;
+  return { promptTokens, candidatesTokens, toolUseTokens, thoughtsTokens, cachedTokens, calls, costUsd };
+}
+
+/**
+ * HTTP status and code for a pipeline error; the client maps the code back to the same class
+ */
+function classifyError(error: ValuationError): { status: number; code: ApiErrorCode } {
+  if (error instanceof MalformedValuationError) return { status: 502, code: 'malformed_valuation' };
+  if (error instanceof QuotaExceededError) return { status: 503, code: 'quota_exceeded' };
+  if (error instanceof NetworkError) return { status: 503, code: 'model_unavailable' };
+  if (error instanceof SafetyBlockedError) return { status: 422, code: 'safety_blocked' };
+  if (error instanceof NoGroundingError) return { status: 502, code: 'no_grounding' };
+  return { status: 502, code: 'valuation_failed' };
+}
+
+export async function handleValuate(
+  request: Request,
+  options: { provider?: ValuationProvider } = {}
+): Promise<Response> {
+  if (request.method !== 'POST') {
+    return errorResponse(405, 'method_not_allowed', 'Use POST.');
+  }
+
+  const user = await authenticateRequest(request).catch(error => {
+    console.error('Token verification failed:', error);
+    return null;
+  });
+  if (!user) {
+    return errorResponse(401, 'unauthorized', 'Your session has expired. Please log in again.');
+  }
+
+  const body = await readJson(request);
+  if (!body) {
+    return errorResponse(400, 'bad_request', 'Request body must be JSON.');
+  }
+
+  const issues = validateRequest(body);
+  if (issues.length > 0) {
+    return errorResponse(400, 'bad_request', 'Invalid valuation request.', issues);
+  }
+
+  const running = inFlight.get(user.username) || 0;
+  if (running >= MAX_CONCURRENT_PER_USER) {
+    return errorResponse(429, 'rate_limited', `You already have ${running} valuations running. Wait for them to finish.`);
+  }
+  inFlight.set(user.username, running + 1);
+
+  try {
+    // Fail closed: a call whose cost cannot be recorded would escape the budgets
+    await assertLedgerWritable();
+    const budget = await checkBudgets(user);
+    if (budget.state === 'exceeded') {
+      const exceeded = budget.checks.filter(check => check.state === 'exceeded');
+      return errorResponse(429, 'budget_exceeded', exceeded[0].message, exceeded.map(check => check.message));
+    }
+
+    const provider = options.provider || getValuationProvider();
+    const valuation = body as ValuateRequest;
+    const result = await runValuation(valuation, provider, { signal: request.signal }).catch(async error => {
+      // Failed calls are billed too, so they go into the usage ledger
+      if (error instanceof ValuationError && error.usage) {
+        await tryAppendAuditEvent(user, 'valuation', {
+          ...auditedCar(valuation),
+          model: provider.modelId,
+          cached: false,
+          error: classifyError(error).code,
+          ...usageDetails(error.usage),
+        });
+      }
+      throw error;
+    });
+
+    // Who was shown which price, from which history dataset
+    await tryAppendAuditEvent(user, 'valuation', {
+      ...auditedCar(valuation),
+      priceMin: result.priceBand.min,
+      priceMax: result.priceBand.max,
+      marketPrice: result.marketPrice ?? null,
+      notViable: !!result.notViable,
+      model: provider.modelId,
+      cached: false,
+      ...usageDetails(result.usage),
+    });
+    if (!can(user, 'view_margins')) {
+      delete result.historicalMargin;
+    }
+    return json(200, result);
+  } catch (error) {
+    if (error instanceof LedgerUnavailableError) {
+      console.error('Usage ledger unavailable:', error);
+      return errorResponse(503, 'ledger_unavailable', 'Usage cannot be recorded right now, so live valuations are paused. Please try again later.');
+    }
+    if (error instanceof ValuationError) {
+      const { status, code } = classifyError(error);
+      const issues =
+        error instanceof MalformedValuationError ? error.issues
+        : error instanceof SafetyBlockedError ? [error.reason]
+        : undefined;
+      return errorResponse(status, code, error.message, issues);
+    }
+    console.error('Valuation handler error:', error);
+    return errorResponse(500, 'server_error', 'The valuation service is unavailable. Please try again later.');
+  } finally {
+    const remaining = (inFlight.get(user.username) || 1) - 1;
+    if (remaining > 0) inFlight.set(user.username, remaining);
+    else inFlight.delete(user.username);
+  }
+}
@@ -0,0 +1,137 @@
+import { describe, expect, it } from 'vitest';
+import { CarDetails, FuelType, Transmission, ValuateRequest } from '../types';
+import { MalformedValuationError, NoGroundingError, SafetyBlockedError } from '../services/errors';
+import { DEFAULT_CONDITION } from '../utils/inspection';
+import { calculateBuyPrice } from './pricingEngine';
+import { createMockProvider } from './providers';
+import { RecordedResponse } from './providers/recordings';
+import { runValuation } from './valuationPipeline';
+
+const swift: CarDetails = {
+  brand: 'Maruti Suzuki',
+  model: 'Swift',
+  variant: 'VXi',
+  year: new Date().getFullYear() - 2,
+  fuel: FuelType.PETROL,
+  transmission: Transmission.MANUAL,
+  ownership: 1,
+  kmDriven: 20000,
+  location: 'Mumbai, Maharashtra',
+};
+
+const request = (car: Partial<CarDetails> = {}): ValuateRequest => ({
+  car: { ...swift, ...car },
+  insights: 'No matching history supplied.',
+});
+
+const source = { web: { uri: 'https://www.carwale.com/used/', title: 'CarWale' } };
+
+const recording = (text: string, match?: string[]): RecordedResponse => ({
+  match,
+  response: { text, groundingChunks: [source] },
+});
+
+describe('runValuation with the mock provider', () => {
+  it('prices the recorded market price with the pricing engine', async () => {
+    const result = await runValuation(request(), createMockProvider());
+
+    expect(result.marketPrice).toBe(520000);
+    expect(result.listingPriceRange).toEqual({ min: 540000, max: 610000 });
+    expect(result.priceBand).toEqual(calculateBuyPrice(520000, request().car).priceBand);
+    expect(result.deductions?.map(d => d.id)).toEqual(['dealer_margin', 'refurbishment']);
+    expect(result.groundingSources).toHaveLength(2);
+    expect(result.reasoning).toContain('Market price ₹5.2L');
+    expect(result.reasoning).not.toContain('```json');
+    expect(result.notViable).toBeUndefined();
+    expect(result.usage).toMatchObject({ model: 'mock-replay', calls: 1, cacheHit: false });
+    expect(result.usage?.promptTokens).toBeGreaterThan(0);
+  });
+
+  it('passes the expected days to sell on to the slow-mover rule', async () => {
+    const result = await runValuation(
+      { ...request(), expectedDaysToSell: { days: 105, sampleSize: 4, description: 'Median of 4 sales' } },
+      createMockProvider()
+    );
+    expect(result.deductions?.find(d => d.id === 'slow_mover')).toMatchObject({ min: 20800, max: 20800 });
+  });
+
+  it('repairs an invalid JSON answer with a structured follow-up call', async () => {
+    const provider = createMockProvider({
+      recordings: [
+        recording('```json\n{"marketPrice": 515000, "listingPriceRange": {"min": 530000, "max": 600000}, "currency": "INR"}\n```', [
+          'did not contain a valid valuation JSON',
+        ]),
+        recording('- Market price about ₹5.2L\n```json\n{"marketPrice": "5.2 lakh", "currency": "INR"}\n```'),
+      ],
+    });
+
+    const result = await runValuation(request(), provider);
+
+    expect(result.marketPrice).toBe(515000);
+    expect(result.usage?.calls).toBe(2);
+  });
+
+  it('gives up with a MalformedValuationError when the repair is invalid too', async () => {
+    const provider = createMockProvider({
+      recordings: [recording('```json\n{"marketPrice": -1, "currency": "rupees"}\n```')],
+    });
+
+    const error = await runValuation(request(), provider).catch(e => e);
+
+    expect(error).toBeInstanceOf(MalformedValuationError);
+    expect(error.retryable).toBe(false);
+    expect(error.issues.length).toBeGreaterThan(0);
+    // Both calls were billed
+    expect(error.usage.calls).toBe(2);
+  });
+
+  it('returns a not-viable result with the ledger when deductions exceed the market price', async () => {
+    const provider = createMockProvider({
+      recordings: [recording('```json\n{"marketPrice": 180000, "listingPriceRange": {"min": 200000, "max": 240000}, "currency": "INR"}\n```')],
+    });
+
+    const result = await runValuation(
+      request({ year: 2012, ownership: 3, kmDriven: 120000, condition: { ...DEFAULT_CONDITION, floodDamage: true } }),
+      provider
+    );
+
+    expect(result.notViable).toBe(true);
+    expect(result.priceBand).toEqual({ min: 0, max: 0, currency: 'INR' });
+    expect(result.deductions?.some(d => d.id === 'condition_flood')).toBe(true);
+    expect(result.usage?.calls).toBe(1);
+  });
+
+  it('rejects an answer without market listings', async () => {
+    const provider = createMockProvider({
+      recordings: [{ response: { text: '```json\n{"marketPrice": 500000, "currency": "INR"}\n```', groundingChunks: [] } }],
+    });
+
+    const error = await runValuation(request(), provider).catch(e => e);
+
+    expect(error).toBeInstanceOf(NoGroundingError);
+    expect(error.retryable).toBe(true);
+  });
+
+  it('surfaces a safety block', async () => {
+    // Recordings do not carry a block reason, so stub the provider directly
+    const provider = {
+      id: 'stub',
+      modelId: 'mock-replay',
+      generate: async () => ({ text: '', groundingChunks: [], blockReason: 'SAFETY' }),
+    };
+
+    await expect(runValuation(request(), provider)).rejects.toBeInstanceOf(SafetyBlockedError);
+  });
+
+  it('puts the car, region and registration into the prompt', async () => {
+    const prompts: string[] = [];
+    const mock = createMockProvider();
+    const provider = { ...mock, generate: (req: Parameters<typeof mock.generate>[0]) => (prompts.push(req.prompt), mock.generate(req)) };
+
+    await runValuation(request({ location: 'Bangalore, KA', registration: 'KA05MN1234' }), provider);
+
+    expect(prompts[0]).toContain('Maruti Suzuki Swift VXi');
+    expect(prompts[0]).toContain('Location: Bengaluru, Karnataka');
+    expect(prompts[0]).toContain('Registration: KA-05');
+  });
+});
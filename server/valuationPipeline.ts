@@ -0,0 +1,229 @@
+/**
+ * Server-side valuation pipeline
+ * Builds the prompt, calls the model, validates its JSON and applies the
+ * dealer pricing rules. Runs only on the server so the API key, the prompt
+ * and the pricing formula never reach the browser.
+ */
+
+import { TokenCounts, ValuateRequest, ValuationResult, ValuationUsage } from "../types";
+import {
+  MalformedValuationError,
+  NetworkError,
+  NoGroundingError,
+  QuotaExceededError,
+  SafetyBlockedError,
+  ValuationCancelledError,
+  ValuationError,
+} from "../services/errors";
+import { formatRegion, parseRegistration } from "../utils/registration";
+import { addTokenCounts, emptyTokenCounts } from "../utils/tokenCounts";
+import { calculateBuyPrice } from "./pricingEngine";
+import { costFor } from "./modelPricing";
+import {
+  ValuationPayload,
+  VALUATION_JSON_EXAMPLE,
+  VALUATION_JSON_SCHEMA,
+  extractValuationJson,
+  parseValuationPayload,
+  validatePriceBand,
+} from "./valuationSchema";
+import { ProviderResponse, ValuationProvider } from "./providers";
+
+const MAX_REPAIR_ATTEMPTS = 1;
+
+/**
+ * Turn an SDK / transport failure into a typed error
+ */
+function toProviderError(error: any, signal?: AbortSignal): ValuationError {
+  if (signal?.aborted) {
+    return new ValuationCancelledError();
+  }
+  const status = typeof error?.status === 'number' ? error.status : undefined;
+  if (status === 429) {
+    return new QuotaExceededError();
+  }
+  if ((status !== undefined && status >= 500) || (status === undefined && error instanceof TypeError)) {
+    return new NetworkError("The AI service is temporarily unavailable. Please try again.");
+  }
+  return new ValuationError("Failed to analyze car value. Please try again.");
+}
+
+export async function runValuation(
+  request: ValuateRequest,
+  provider: ValuationProvider,
+  options: { signal?: AbortSignal } = {}
+): Promise<ValuationResult> {
+  const { car } = request;
+  const registration = parseRegistration(car.registration);
+  const registrationLine = !registration
+    ? ''
+    : registration.series === 'bharat'
+      ? '\nRegistration: Bharat (BH) series, valid in every state'
+      : `\nRegistration: ${registration.rtoCode}${registration.rto ? ` ${registration.rto.office}` : ''} (${registration.state})`;
+
+  // OPTIMIZED PROMPT: Reduced tokens + STRICTER VALUATION LOGIC
+  const prompt = `You are a TOUGH, CONSERVATIVE used car buyer for a dealership in India.
+
+TASK: Determine the SAFE DEALER BUYING PRICE. Your goal is to protect the dealer's profit.
+It is better to quote TOO LOW than too high.
+
+PRIORITY 1: YOUR BUSINESS HISTORY (Most Important)
+${request.insights}
+
+PRIORITY 2: MARKET SEARCH (Use with CAUTION)
+1. Find listings on CarWale, CarDekho, OLX.
+2. WARNING: Online asking prices are OFTEN INFLATED/UNREALISTIC. Do NOT anchor to them.
+3. Assume actual transaction prices are 10-15% LOWER than online listings.
+
+NOTE: Dealer margin, refurbishment, ownership, mileage, condition (accident, repaint,
+insurance, flood) and re-registration deductions are applied by our own pricing engine. Do NOT deduct them
+yourself. Only estimate the realistic Market Transaction Price of a clean car (what a
+private buyer actually pays, heavily discounted from online ads).
+
+CAR DETAILS:
+${car.brand} ${car.model} ${car.variant}
+Year: ${car.year} | Fuel: ${car.fuel} | Transmission: ${car.transmission}
+Ownership: ${car.ownership} | KM: ${car.kmDriven} | Location: ${formatRegion(car.location)}${registrationLine}
+
+OUTPUT:
+- **Start by listing the past transactions** provided above. Copy the details exactly (Date, Model, Price, Margin).
+- **Valuation Reasoning**:
+  - Use SHORT bullet points only.
+  - MAX 10 words per bullet.
+  - NO paragraphs. NO fluff.
+  - Focus purely on the market evidence: "Listings X-Y. Transaction discount Z. Market price W."
+- End with a fenced \`\`\`json block matching EXACTLY this shape:
+${VALUATION_JSON_EXAMPLE}
+  - marketPrice: realistic transaction price. listingPriceRange: online asking prices seen (min <= max).
+
+Note: Currency=INR, use Lakhs/Crores in text, JSON numbers as positive integers.`;
+
+  // Every model call is billed, including repairs of a rejected answer
+  let tokens: TokenCounts = emptyTokenCounts();
+  let calls = 0;
+  const track = (usage: TokenCounts | undefined) => {
+    calls++;
+    tokens = addTokenCounts(tokens, usage);
+  };
+  const usage = (): ValuationUsage => ({
+    ...tokens,
+    model: provider.modelId,
+    calls,
+    costUsd: costFor(provider.modelId, tokens, 1),
+    cacheHit: false,
+  });
+
+  let response: ProviderResponse;
+  try {
+    response = await provider.generate({ prompt, grounded: true, signal: options.signal });
+    track(response.usage);
+  } catch (error) {
+    console.error(`${provider.id} API Error:`, error);
+    throw toProviderError(error, options.signal);
+  }
+
+  try {
+    return await finishValuation(request, response, provider, track, usage, options.signal);
+  } catch (error) {
+    // The call was billed even though no valuation came of it
+    if (error instanceof ValuationError) error.usage = usage();
+    throw error;
+  }
+}
+
+async function finishValuation(
+  request: ValuateRequest,
+  response: ProviderResponse,
+  provider: ValuationProvider,
+  track: (usage: TokenCounts | undefined) => void,
+  usage: () => ValuationUsage,
+  signal?: AbortSignal
+): Promise<ValuationResult> {
+  const { car } = request;
+
+  if (response.blockReason) {
+    throw new SafetyBlockedError(response.blockReason);
+  }
+  // A price without market listings behind it is the model guessing
+  if (response.groundingChunks.length === 0) {
+    throw new NoGroundingError();
+  }
+
+  const { json, reasoning } = extractValuationJson(response.text);
+  const payload = await parseOrRepair(json, response.text, provider, track, signal);
+
+  // Deterministic deductions: the model only supplies the market price
+  const pricing = calculateBuyPrice(payload.marketPrice, car, {
+    currency: payload.currency,
+    expectedDaysToSell: request.expectedDaysToSell?.days,
+  });
+
+  // A valid answer whose deductions use up the market price: report it with the
+  // ledger rather than as a malformed reply, which the client would retry
+  const bandIssues = pricing.viable ? validatePriceBand(pricing.priceBand) : [];
+  if (bandIssues.length > 0) {
+    console.error("Rejected price band:", bandIssues, pricing);
+    throw new MalformedValuationError(bandIssues);
+  }
+
+  return {
+    priceBand: pricing.priceBand,
+    originalMsrp: payload.originalMsrp,
+    marketPrice: pricing.marketPrice,
+    listingPriceRange: payload.listingPriceRange,
+    deductions: pricing.deductions,
+    ...(pricing.viable ? {} : { notViable: true }),
+    reasoning,
+    groundingSources: response.groundingChunks,
+    historicalMargin: request.historicalMargin,
+    expectedDaysToSell: request.expectedDaysToSell,
+    usage: usage(),
+  };
+}
+
+/**
+ * Validate the model's JSON; if invalid, ask the model to repair it
+ * Repair calls use structured output (no search tool) so the reply is pure JSON
+ */
+async function parseOrRepair(
+  json: string | null,
+  originalText: string,
+  provider: ValuationProvider,
+  track: (usage: TokenCounts | undefined) => void,
+  signal?: AbortSignal
+): Promise<ValuationPayload> {
+  let parsed = parseValuationPayload(json);
+  let attempt = 0;
+
+  while (!parsed.value && attempt < MAX_REPAIR_ATTEMPTS) {
+    attempt++;
+    console.warn(`⚠️ Invalid valuation JSON (attempt ${attempt}):`, parsed.issues);
+
+    const repairPrompt = `Your previous answer did not contain a valid valuation JSON.
+Problems: ${parsed.issues.join('; ')}
+
+Previous answer:
+${originalText}
+
+Return ONLY the corrected JSON object. Use positive integers, listingPriceRange.min <= listingPriceRange.max, and a 3-letter currency code.`;
+
+    try {
+      const repair = await provider.generate({
+        prompt: repairPrompt,
+        jsonSchema: VALUATION_JSON_SCHEMA,
+        signal,
+      });
+      track(repair.usage);
+      parsed = parseValuationPayload(repair.text || null);
+    } catch (error) {
+      console.error(`${provider.id} repair call failed:`, error);
+      break;
+    }
+  }
+
+  if (!parsed.value) {
+    throw new MalformedValuationError(parsed.issues);
+  }
+
+  return parsed.value;
+}
@@ -0,0 +1,148 @@
+/**
+ * Valuation response schema
+ * Defines the JSON the model must return and validates it before any price is shown.
+ */
+
+export interface ValuationPayload {
+  marketPrice: number;
+  listingPriceRange: {
+    min: number;
+    max: number;
+  };
+  currency: string;
+  originalMsrp?: string;
+}
+
+export interface ValidationResult {
+  value: ValuationPayload | null;
+  issues: string[];
+}
+
+/**
+ * JSON Schema sent to the model when asking for a structured (repair) reply
+ */
+export const VALUATION_JSON_SCHEMA = {
+  type: 'object',
+  properties: {
+    marketPrice: { type: 'integer', minimum: 1 },
+    listingPriceRange: {
+      type: 'object',
+      properties: {
+        min: { type: 'integer', minimum: 1 },
+        max: { type: 'integer', minimum: 1 },
+      },
+      required: ['min', 'max'],
+    },
+    currency: { type: 'string', pattern: '^[A-Z]{3}$' },
+    originalMsrp: { type: 'string' },
+  },
+  required: ['marketPrice', 'listingPriceRange', 'currency'],
+};
+
+export const VALUATION_JSON_EXAMPLE = `{"marketPrice": 520000, "listingPriceRange": {"min": 540000, "max": 610000}, "currency": "INR", "originalMsrp": "₹9.5L (Ex-Showroom 2018)"}`;
+
+const JSON_BLOCK_REGEX = /```json\s*([\s\S]*?)```/gi;
+
+function isPositiveInteger(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value > 0;
+}
+
+/**
+ * Locate the valuation JSON in a model reply
+ * Prefers the last ```json fenced block, falls back to the whole reply being JSON.
+ */
+export function extractValuationJson(text: string): { json: string | null; reasoning: string } {
+  const blocks = [...text.matchAll(JSON_BLOCK_REGEX)];
+  if (blocks.length > 0) {
+    const last = blocks[blocks.length - 1];
+    const reasoning = (text.slice(0, last.index) + text.slice(last.index! + last[0].length)).trim();
+    return { json: last[1].trim(), reasoning };
+  }
+
+  const trimmed = text.trim();
+  if (trimmed.startsWith('{') && trimmed.endsWith('}')) {
+    return { json: trimmed, reasoning: '' };
+  }
+
+  return { json: null, reasoning: trimmed };
+}
+
+/**
+ * Validate an unknown value against the valuation schema
+ */
+export function validateValuationPayload(input: unknown): ValidationResult {
+  const issues: string[] = [];
+
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    return { value: null, issues: ['Response is not a JSON object'] };
+  }
+
+  const data = input as Record<string, unknown>;
+
+  if (!isPositiveInteger(data.marketPrice)) {
+    issues.push('marketPrice must be a positive integer');
+  }
+
+  const range = data.listingPriceRange as Record<string, unknown> | undefined;
+  if (typeof range !== 'object' || range === null) {
+    issues.push('listingPriceRange is missing');
+  } else {
+    if (!isPositiveInteger(range.min)) issues.push('listingPriceRange.min must be a positive integer');
+    if (!isPositiveInteger(range.max)) issues.push('listingPriceRange.max must be a positive integer');
+    if (isPositiveInteger(range.min) && isPositiveInteger(range.max) && range.min > range.max) {
+      issues.push('listingPriceRange.min must not exceed listingPriceRange.max');
+    }
+  }
+
+  if (typeof data.currency !== 'string' || !/^[A-Z]{3}$/.test(data.currency)) {
+    issues.push('currency must be a 3-letter ISO 4217 code');
+  }
+
+  if (data.originalMsrp !== undefined && typeof data.originalMsrp !== 'string') {
+    issues.push('originalMsrp must be a string');
+  }
+
+  if (issues.length > 0) {
+    return { value: null, issues };
+  }
+
+  return {
+    issues: [],
+    value: {
+      marketPrice: data.marketPrice as number,
+      listingPriceRange: {
+        min: range!.min as number,
+        max: range!.max as number,
+      },
+      currency: data.currency as string,
+      originalMsrp: data.originalMsrp as string | undefined,
+    },
+  };
+}
+
+/**
+ * Parse and validate a JSON string
+ */
+export function parseValuationPayload(json: string | null): ValidationResult {
+  if (!json) {
+    return { value: null, issues: ['No valuation JSON block found in response'] };
+  }
+
+  try {
+    return validateValuationPayload(JSON.parse(json));
+  } catch (e) {
+    return { value: null, issues: [`Invalid JSON: ${(e as Error).message}`] };
+  }
+}
+
+/**
+ * Final sanity check on the buy price band shown to the user
+ */
+export function validatePriceBand(band: { min: number; max: number; currency: string }): string[] {
+  const issues: string[] = [];
+  if (!isPositiveInteger(band.min)) issues.push('priceBand.min must be a positive integer');
+  if (!isPositiveInteger(band.max)) issues.push('priceBand.max must be a positive integer');
+  if (band.min > band.max) issues.push('priceBand.min must not exceed priceBand.max');
+  if (!/^[A-Z]{3}$/.test(band.currency)) issues.push('priceBand.currency must be a 3-letter ISO 4217 code');
+  return issues;
+}
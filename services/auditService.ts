@@ -0,0 +1,45 @@
+/**
+ * Client side of the audit log
+ * The server stamps every event with the verified user and time; the browser
+ * only reports what the server cannot see for itself.
+ */
+
+import { AuditAction, AuditDetails, AuditLogResponse, ApiErrorBody } from '../types';
+import { authHeaders } from './authService';
+
+const AUDIT_ENDPOINT = '/api/audit';
+
+/**
+ * Report an action; failures are logged, never thrown, so auditing cannot block work
+ * Pass `headers` captured earlier to report after the session has already been dropped
+ */
+export async function recordAuditEvent(
+  action: AuditAction,
+  details: AuditDetails = {},
+  headers: Record<string, string> = authHeaders()
+): Promise<void> {
+  try {
+    const response = await fetch(AUDIT_ENDPOINT, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify({ action, details }),
+    });
+    if (!response.ok) {
+      console.error(`Audit event ${action} rejected: ${response.status}`);
+    }
+  } catch (error) {
+    console.error(`Failed to record audit event ${action}:`, error);
+  }
+}
+
+/**
+ * Full audit log (managers only)
+ */
+export async function fetchAuditLog(): Promise<AuditLogResponse> {
+  const response = await fetch(AUDIT_ENDPOINT, { headers: authHeaders() });
+  if (!response.ok) {
+    const body: ApiErrorBody | null = await response.json().catch(() => null);
+    throw new Error(body?.error.message || `Audit log request failed (${response.status})`);
+  }
+  return response.json();
+}
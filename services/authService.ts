@@ -0,0 +1,55 @@
+/**
+ * Client session
+ * Holds the server-signed token in memory only; the server verifies it on every
+ * API call, so nothing the browser stores can grant access on its own.
+ */
+
+import { AuthUser, ApiErrorBody, LoginResponse } from '../types';
+
+export class AuthError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AuthError';
+  }
+}
+
+let session: LoginResponse | null = null;
+
+export async function login(username: string, password: string): Promise<AuthUser> {
+  let response: Response;
+  try {
+    response = await fetch('/api/login', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ username, password }),
+    });
+  } catch (error) {
+    throw new AuthError('Could not reach the login service. Check your connection.');
+  }
+
+  if (!response.ok) {
+    const body: ApiErrorBody | null = await response.json().catch(() => null);
+    throw new AuthError(body?.error.message || 'Login failed. Please try again.');
+  }
+
+  session = await response.json();
+  return session!.user;
+}
+
+export function logout(): void {
+  session = null;
+}
+
+export function getCurrentUser(): AuthUser | null {
+  if (session && session.expiresAt < Date.now()) {
+    session = null;
+  }
+  return session?.user || null;
+}
+
+/**
+ * Authorization header for API calls (empty when logged out)
+ */
+export function authHeaders(): Record<string, string> {
+  return session ? { Authorization: `Bearer ${session.token}` } : {};
+}
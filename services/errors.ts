@@ -0,0 +1,111 @@
+/**
+ * Typed errors raised by the valuation pipeline
+ * The UI shows `message` directly, so keep it short and actionable.
+ * `retryable` errors are retried with backoff by the client before they reach the UI.
+ */
+
+import { ValuationUsage } from '../types';
+
+export class ValuationError extends Error {
+  readonly retryable: boolean;
+  usage?: ValuationUsage; // Tokens already spent before the failure (server side)
+
+  constructor(message: string, options: { retryable?: boolean } = {}) {
+    super(message);
+    this.name = 'ValuationError';
+    this.retryable = options.retryable ?? false;
+  }
+}
+
+/**
+ * The model reply could not be turned into a valid valuation, even after repair
+ */
+export class MalformedValuationError extends ValuationError {
+  readonly issues: string[];
+
+  constructor(issues: string[]) {
+    super('The AI returned an invalid valuation. Please try again.');
+    this.name = 'MalformedValuationError';
+    this.issues = issues;
+  }
+}
+
+/**
+ * A daily or monthly spend budget is used up; retrying will not help until it resets
+ */
+export class BudgetExceededError extends ValuationError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+/**
+ * Too many valuations running or queued at once
+ */
+export class RateLimitError extends ValuationError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RateLimitError';
+  }
+}
+
+/**
+ * The model provider's own quota or rate limit (not our budgets)
+ */
+export class QuotaExceededError extends ValuationError {
+  constructor() {
+    super('The AI service is over its usage quota right now. Please try again in a few minutes.', { retryable: true });
+    this.name = 'QuotaExceededError';
+  }
+}
+
+/**
+ * The valuation service or the model could not be reached
+ */
+export class NetworkError extends ValuationError {
+  constructor(message = 'Could not reach the valuation service. Check your connection and try again.') {
+    super(message, { retryable: true });
+    this.name = 'NetworkError';
+  }
+}
+
+/**
+ * The model refused to answer on safety grounds
+ */
+export class SafetyBlockedError extends ValuationError {
+  readonly reason: string;
+
+  constructor(reason: string) {
+    super('The AI declined to value this car (content safety filter). Check the vehicle details for unusual text.');
+    this.name = 'SafetyBlockedError';
+    this.reason = reason;
+  }
+}
+
+/**
+ * The model answered without searching the market, so the price is not backed by listings
+ */
+export class NoGroundingError extends ValuationError {
+  constructor() {
+    super('The AI could not find current market listings for this car. Please try again.', { retryable: true });
+    this.name = 'NoGroundingError';
+  }
+}
+
+export class ValuationTimeoutError extends ValuationError {
+  constructor(timeoutMs: number) {
+    super(`The valuation took longer than ${Math.round(timeoutMs / 1000)} seconds and was stopped. Please try again.`);
+    this.name = 'ValuationTimeoutError';
+  }
+}
+
+/**
+ * Cancelled by the user; not an error to show
+ */
+export class ValuationCancelledError extends ValuationError {
+  constructor() {
+    super('Valuation cancelled.');
+    this.name = 'ValuationCancelledError';
+  }
+}
@@ -1,29 +1,90 @@
-import { GoogleGenAI } from "@google/genai";
-import { CarDetails, ValuationResult, GroundingChunk } from "../types";
+import { ApiErrorBody, CarDetails, HistoricalRecord, ValuateRequest, ValuationResult } from "../types";
 import { sanitizeHistoricalData, estimateTokens } from "../utils/dataSanitizer";
 import { getCachedResult, cacheResult } from "../utils/cacheManager";
-
-const apiKey = import.meta.env.VITE_GEMINI_API_KEY;
-
-// Initialize Gemini
-const ai = new GoogleGenAI({ apiKey: apiKey });
-
+import { buildCacheKey } from "../utils/cacheKey";
+import { expectedDaysToSell } from "../utils/inventoryAgeing";
+import {
+  BudgetExceededError,
+  MalformedValuationError,
+  NetworkError,
+  NoGroundingError,
+  QuotaExceededError,
+  RateLimitError,
+  SafetyBlockedError,
+  ValuationCancelledError,
+  ValuationError,
+  ValuationTimeoutError,
+} from "./errors";
+import { authHeaders } from "./authService";
+import { recordAuditEvent } from "./auditService";
+import { historyDatasetHash } from "../utils/datasetHash";
+import { emptyTokenCounts } from "../utils/tokenCounts";
+import { recordSessionUsage } from "./usageService";
+import { QueueFullError, createRequestQueue } from "../utils/requestQueue";
+
+const VALUATE_ENDPOINT = '/api/valuate';
+
+// Matches the server's per-user limit; a few more may wait, the rest are refused
+const valuationQueue = createRequestQueue({ concurrency: 2, maxPending: 3 });
+
+// A grounded search plus a possible repair call usually takes 10-40s
+const DEFAULT_TIMEOUT_MS = Number(import.meta.env.VITE_VALUATION_TIMEOUT_MS) || 90000;
+const DEFAULT_MAX_RETRIES = 2;
+const BACKOFF_BASE_MS = 1000;
+
+export interface AnalyzeOptions {
+  signal?: AbortSignal; // Abort to cancel, including any pending retry
+  timeoutMs?: number; // Per attempt
+  maxRetries?: number; // For retryable errors (network, quota, no grounding)
+  bypassCache?: boolean; // Skip the cache lookup and fetch a live quote; the result still refreshes the cache
+}
+
+/**
+ * Value a car through the server-side API
+ * The browser only sanitizes history and talks to /api/valuate; the model key,
+ * prompt and pricing rules live on the server (see server/valuationPipeline.ts).
+ */
 export const analyzeCarValue = async (
   car: CarDetails,
-  historyContext: string
+  history: HistoricalRecord[],
+  options: AnalyzeOptions = {}
 ): Promise<ValuationResult> => {
-  const modelId = "gemini-2.5-flash";
+  const datasetVersion = await historyDatasetHash(history);
+  const cacheKey = buildCacheKey(car, datasetVersion);
 
   // OPTIMIZATION: Check cache first
-  const cachedResult = getCachedResult(car);
-  if (cachedResult) {
+  const cached = options.bypassCache ? null : await getCachedResult(cacheKey);
+  if (cached) {
+    const cachedResult = cached.result;
     console.log('✅ Cache hit! Using cached result.');
-    return cachedResult;
+    // The server never sees cache hits, so report the quote shown
+    await recordAuditEvent('valuation', {
+      car: `${car.year} ${car.brand} ${car.model} ${car.variant}`,
+      kmDriven: car.kmDriven,
+      location: car.location,
+      priceMin: cachedResult.priceBand.min,
+      priceMax: cachedResult.priceBand.max,
+      marketPrice: cachedResult.marketPrice ?? null,
+      datasetVersion,
+    });
+    const result: ValuationResult = {
+      ...cachedResult,
+      usage: {
+        ...emptyTokenCounts(),
+        model: cachedResult.usage?.model || 'cache',
+        calls: 0,
+        costUsd: 0,
+        cacheHit: true,
+        cachedAt: cached.cachedAt,
+      },
+    };
+    recordSessionUsage(result.usage!);
+    return result;
   }
 
-  // SECURITY: Sanitize historical data before sending to API
+  // SECURITY: Sanitize historical data before it leaves the browser
   // OPTIMIZATION: This also reduces token count by 99%
-  const sanitizedData = sanitizeHistoricalData(historyContext, {
+  const sanitizedData = sanitizeHistoricalData(history, {
     brand: car.brand,
     model: car.model
   });
@@ -32,99 +93,154 @@ export const analyzeCarValue = async (
   const estimatedTokens = estimateTokens(sanitizedData.insights);
   console.log(`📊 Estimated tokens for historical data: ${estimatedTokens}`);
 
-  // OPTIMIZED PROMPT: Reduced tokens + STRICTER VALUATION LOGIC
-  const prompt = `You are a TOUGH, CONSERVATIVE used car buyer for a dealership in India.
-
-TASK: Determine the SAFE DEALER BUYING PRICE. Your goal is to protect the dealer's profit.
-It is better to quote TOO LOW than too high.
-
-PRIORITY 1: YOUR BUSINESS HISTORY (Most Important)
-${sanitizedData.insights}
-
-PRIORITY 2: MARKET SEARCH (Use with CAUTION)
-1. Find listings on CarWale, CarDekho, OLX.
-2. WARNING: Online asking prices are OFTEN INFLATED/UNREALISTIC. Do NOT anchor to them.
-3. Assume actual transaction prices are 10-15% LOWER than online listings.
-
-VALUATION FORMULA (Apply Strictly):
-1. Start with the estimated Market Transaction Price (heavily discounted from online ads).
-2. DEDUCT Dealer Margin: MINIMUM 15-20% (for profit + risk).
-3. DEDUCT Refurbishment: MINIMUM ₹15,000 - ₹25,000 (tires, paint, service).
-4. DEDUCT Ownership Penalty:
-   - 2nd Owner: -10%
-   - 3rd Owner: -20%
-5. DEDUCT Mileage Penalty: If >15k km/year, deduct extra.
-
-CAR DETAILS:
-${car.brand} ${car.model} ${car.variant}
-Year: ${car.year} | Fuel: ${car.fuel} | Transmission: ${car.transmission}
-Ownership: ${car.ownership} | KM: ${car.kmDriven} | Location: ${car.location}
-
-OUTPUT:
-- **Start by listing the past transactions** provided above. Copy the details exactly (Date, Model, Price, Margin).
-- **Valuation Reasoning**:
-  - Use SHORT bullet points only.
-  - MAX 10 words per bullet.
-  - NO paragraphs. NO fluff.
-  - Focus purely on the math: "Market price X. Margin Y. Refurb Z. Final Price W."
-- End with EXACT JSON: ||VALUATION_DATA|{"min": 400000, "max": 425000, "currency": "INR", "originalMsrp": "₹9.5L (Ex-Showroom 2018)"}||
-
-Note: Currency=INR, use Lakhs/Crores in text, JSON numbers as integers.`;
-
-  try {
-    const response = await ai.models.generateContent({
-      model: modelId,
-      contents: prompt,
-      config: {
-        tools: [{ googleSearch: {} }],
-      },
-    });
-
-    const text = response.text || "";
-    const groundingChunks =
-      response.candidates?.[0]?.groundingMetadata?.groundingChunks || [];
-
-    // Parse the special block
-    const regex = /\|\|VALUATION_DATA\|(.*?)\|\|/;
-    const match = text.match(regex);
-    
-    let priceData = {
-      min: 0,
-      max: 0,
-      currency: "INR",
-      originalMsrp: "Unknown"
-    };
+  const request: ValuateRequest = {
+    car,
+    insights: sanitizedData.insights,
+    historicalMargin: sanitizedData.marginData || undefined,
+    expectedDaysToSell: expectedDaysToSell(history, car) || undefined,
+    datasetVersion,
+  };
+
+  const result = await requestWithRetry(request, options);
+  if (result.usage) {
+    recordSessionUsage(result.usage);
+  }
 
-    if (match && match[1]) {
-      try {
-        priceData = JSON.parse(match[1]);
-      } catch (e) {
-        console.error("Failed to parse valuation JSON block", e);
+  // OPTIMIZATION: Cache the result
+  await cacheResult(cacheKey, car, result);
+  console.log('💾 Result cached');
+
+  return result;
+};
+
+/**
+ * Retry retryable failures with exponential backoff (1s, 2s, 4s... plus jitter)
+ * Each attempt takes its own slot in the queue, so waiting does not block others
+ */
+async function requestWithRetry(request: ValuateRequest, options: AnalyzeOptions): Promise<ValuationResult> {
+  const maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await valuationQueue.run(() =>
+        requestValuation(request, options.signal, options.timeoutMs ?? DEFAULT_TIMEOUT_MS)
+      );
+    } catch (error) {
+      if (error instanceof QueueFullError) {
+        throw new RateLimitError("Too many valuations are already running. Wait for them to finish and try again.");
       }
+      if (!(error instanceof ValuationError) || !error.retryable || attempt >= maxRetries) {
+        throw error;
+      }
+      const delay = BACKOFF_BASE_MS * 2 ** attempt + Math.random() * BACKOFF_BASE_MS;
+      console.warn(`${error.name}, retrying in ${Math.round(delay)}ms (attempt ${attempt + 2} of ${maxRetries + 1})`);
+      await sleep(delay, options.signal);
     }
+  }
+}
 
-    // Remove the data block from the reasoning text for cleaner display
-    const cleanReasoning = text.replace(regex, "").trim();
-
-    const result: ValuationResult = {
-      priceBand: {
-        min: priceData.min,
-        max: priceData.max,
-        currency: priceData.currency,
-      },
-      originalMsrp: priceData.originalMsrp,
-      reasoning: cleanReasoning,
-      groundingSources: groundingChunks,
-      historicalMargin: sanitizedData.marginData || undefined,
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new ValuationCancelledError());
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new ValuationCancelledError());
     };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+async function requestValuation(
+  request: ValuateRequest,
+  signal: AbortSignal | undefined,
+  timeoutMs: number
+): Promise<ValuationResult> {
+  if (signal?.aborted) {
+    throw new ValuationCancelledError();
+  }
 
-    // OPTIMIZATION: Cache the result
-    cacheResult(car, result);
-    console.log('💾 Result cached for 24 hours');
+  // One controller per attempt, aborted by the caller's signal or the timeout
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  const onAbort = () => controller.abort();
+  signal?.addEventListener('abort', onAbort, { once: true });
 
-    return result;
-  } catch (error) {
-    console.error("Gemini API Error:", error);
-    throw new Error("Failed to analyze car value. Please try again.");
+  try {
+    let response: Response;
+    try {
+      response = await fetch(VALUATE_ENDPOINT, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...authHeaders() },
+        body: JSON.stringify(request),
+        signal: controller.signal,
+      });
+    } catch (error) {
+      if (timedOut) throw new ValuationTimeoutError(timeoutMs);
+      if (signal?.aborted) throw new ValuationCancelledError();
+      console.error('Valuation API unreachable:', error);
+      throw new NetworkError();
+    }
+
+    if (!response.ok) {
+      throw await toValuationError(response);
+    }
+    try {
+      return await response.json();
+    } catch (error) {
+      // The body is read under the same signal
+      if (timedOut) throw new ValuationTimeoutError(timeoutMs);
+      if (signal?.aborted) throw new ValuationCancelledError();
+      throw new NetworkError();
+    }
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+  }
+}
+
+/**
+ * Map an API error body back to the typed errors the UI understands
+ */
+async function toValuationError(response: Response): Promise<ValuationError> {
+  const body: ApiErrorBody | null = await response.json().catch(() => null);
+  const error = body?.error;
+  console.error(`Valuation API error ${response.status}:`, error);
+
+  if (error?.code === 'malformed_valuation') {
+    return new MalformedValuationError(error.issues || []);
+  }
+  if (error?.code === 'budget_exceeded') {
+    return new BudgetExceededError(error.message);
+  }
+  if (error?.code === 'rate_limited') {
+    return new RateLimitError(error.message);
+  }
+  if (error?.code === 'quota_exceeded') {
+    return new QuotaExceededError();
+  }
+  if (error?.code === 'model_unavailable') {
+    return new NetworkError(error.message);
+  }
+  if (error?.code === 'safety_blocked') {
+    return new SafetyBlockedError(error.issues?.[0] || 'unknown');
+  }
+  if (error?.code === 'no_grounding') {
+    return new NoGroundingError();
+  }
+  // Gateway timeouts and crashes in front of the function are worth another try
+  if (!error && response.status >= 500) {
+    return new NetworkError();
   }
-};
\ No newline at end of file
+  return new ValuationError(error?.message || "Failed to analyze car value. Please try again.");
+}
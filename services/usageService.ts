@@ -0,0 +1,51 @@
+/**
+ * Model usage accounting in the browser
+ * Session totals are kept in memory since login; day and month totals come
+ * from the server, which records every live call in the audit log.
+ */
+
+import { ApiErrorBody, CacheTrendPoint, UsageSummaryResponse, UsageTotals, ValuationUsage } from '../types';
+import { addTokenCounts, emptyTokenCounts } from '../utils/tokenCounts';
+import { authHeaders } from './authService';
+
+const emptyTotals = (): UsageTotals => ({ ...emptyTokenCounts(), valuations: 0, cacheHits: 0, costUsd: 0 });
+
+let sessionTotals: UsageTotals = emptyTotals();
+
+export function recordSessionUsage(usage: ValuationUsage): void {
+  if (usage.cacheHit) {
+    sessionTotals = { ...sessionTotals, cacheHits: sessionTotals.cacheHits + 1 };
+    return;
+  }
+  sessionTotals = {
+    ...addTokenCounts(sessionTotals, usage),
+    valuations: sessionTotals.valuations + 1,
+    costUsd: sessionTotals.costUsd + (usage.costUsd || 0),
+  };
+}
+
+/**
+ * Share of valuations served from the result cache; rate is null before any valuation
+ */
+export function cacheHitRate(points: CacheTrendPoint[]): { hits: number; total: number; rate: number | null } {
+  const hits = points.reduce((sum, point) => sum + point.hits, 0);
+  const total = points.reduce((sum, point) => sum + point.hits + point.misses, 0);
+  return { hits, total, rate: total > 0 ? hits / total : null };
+}
+
+export function getSessionUsage(): UsageTotals {
+  return sessionTotals;
+}
+
+export function resetSessionUsage(): void {
+  sessionTotals = emptyTotals();
+}
+
+export async function fetchUsageSummary(): Promise<UsageSummaryResponse> {
+  const response = await fetch('/api/usage', { headers: authHeaders() });
+  if (!response.ok) {
+    const body: ApiErrorBody | null = await response.json().catch(() => null);
+    throw new Error(body?.error.message || `Usage request failed (${response.status})`);
+  }
+  return response.json();
+}
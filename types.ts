@@ -13,6 +13,23 @@ export enum Transmission {
   DCT = 'DCT'
 }
 
+export type AccidentHistory = 'none' | 'minor' | 'major' | 'structural';
+export type ServiceHistory = 'full_dealer' | 'partial' | 'none';
+export type InsuranceType = 'zero_dep' | 'comprehensive' | 'third_party' | 'expired';
+
+/**
+ * Inspection checklist results; each item maps to a refurbishment cost or a deduction
+ */
+export interface VehicleCondition {
+  accident: AccidentHistory;
+  repaintedPanels: number;
+  tyreLifePct: number; // Average tread left across the four tyres, 0-100
+  serviceHistory: ServiceHistory;
+  insurance: InsuranceType;
+  insuranceClaims: number; // Claims in the last 3 years
+  floodDamage: boolean;
+}
+
 export interface CarDetails {
   brand: string;
   model: string;
@@ -22,14 +39,50 @@ export interface CarDetails {
   transmission: Transmission;
   ownership: number; // 1st, 2nd, etc.
   kmDriven: number;
-  location: string;
+  location: string; // Where the car is bought, "City, State"
+  registration?: string; // Plate, e.g. "MH02AB1234"; see utils/registration
+  condition?: VehicleCondition; // Absent when the car was not inspected
 }
 
 export interface GroundingChunk {
   web?: {
-    uri: string;
-    title: string;
+    uri?: string;
+    title?: string;
+  };
+}
+
+export interface Deduction {
+  id: string;
+  category?: 'refurbishment' | 'condition'; // Items from the inspection checklist
+  label: string;
+  basis: string; // Human-readable rule that produced the amount
+  min: number;
+  max: number;
+}
+
+export interface PricingBreakdown {
+  marketPrice: number;
+  deductions: Deduction[];
+  priceBand: {
+    min: number;
+    max: number;
+    currency: string;
   };
+  viable: boolean; // false when the deductions use up the market price; the band is then zero
+}
+
+export interface DaysToSellEstimate {
+  days: number;
+  sampleSize: number;
+  description: string;
+}
+
+export interface MarginTrendPoint {
+  period: string; // "2024-03" or "2024-Q1"
+  label: string; // "Mar 24" or "Q1 24"
+  count: number;
+  avgMargin: number | null;
+  avgDaysToSell: number | null;
 }
 
 export interface ValuationResult {
@@ -39,14 +92,173 @@ export interface ValuationResult {
     currency: string;
   };
   originalMsrp?: string;
+  marketPrice?: number;
+  listingPriceRange?: {
+    min: number;
+    max: number;
+  };
+  deductions?: Deduction[];
+  notViable?: boolean; // Deductions exceed the market price: no buy price, priceBand is zero
   reasoning: string;
   groundingSources: GroundingChunk[];
   historicalMargin?: {
     percentage: number;
     description: string;
+    trend?: MarginTrendPoint[];
+  };
+  expectedDaysToSell?: DaysToSellEstimate;
+  usage?: ValuationUsage;
+}
+
+/**
+ * Token counts as reported by the model's usage metadata
+ */
+export interface TokenCounts {
+  promptTokens: number;
+  candidatesTokens: number;
+  toolUseTokens: number; // Search results fed back to the model (grounding)
+  thoughtsTokens: number;
+  cachedTokens: number; // Part of the prompt served from the model's context cache
+}
+
+/**
+ * What one valuation cost: summed over the grounded call and any repair call
+ */
+export interface ValuationUsage extends TokenCounts {
+  model: string;
+  calls: number;
+  costUsd: number | null; // null when the model is missing from the price table
+  cacheHit: boolean; // Served from our own result cache, no model call
+  cachedAt?: number; // When the cached result was fetched (cache hits only)
+}
+
+export interface UsageTotals extends TokenCounts {
+  valuations: number; // Live model calls
+  cacheHits: number;
+  costUsd: number;
+}
+
+export interface UsagePeriods {
+  today: UsageTotals;
+  month: UsageTotals;
+}
+
+export type BudgetState = 'ok' | 'warning' | 'exceeded';
+
+/**
+ * One configured limit and how much of it is used
+ */
+export interface BudgetCheck {
+  scope: 'user' | 'dealership';
+  period: 'daily' | 'monthly';
+  metric: 'tokens' | 'costUsd';
+  percentUsed: number;
+  used?: number; // Dealership amounts are only shown to roles with view_costs
+  limit?: number;
+  state: BudgetState;
+  message: string;
+}
+
+export interface BudgetStatus {
+  state: BudgetState; // Worst of the checks
+  checks: BudgetCheck[];
+}
+
+/**
+ * Result-cache hits (quotes served from the browser cache) and misses (live calls) on one day
+ */
+export interface CacheTrendPoint {
+  date: string; // YYYY-MM-DD, India time
+  hits: number;
+  misses: number;
+}
+
+/**
+ * GET /api/usage response; dealership totals only for roles with view_costs
+ */
+export interface UsageSummaryResponse {
+  user: UsagePeriods;
+  cacheTrend: CacheTrendPoint[]; // The caller's last 14 days, oldest first
+  dealership?: UsagePeriods & { byUser?: Record<string, UsagePeriods> }; // byUser only for view_user_usage
+  budget: BudgetStatus;
+}
+
+/**
+ * POST /api/valuate body
+ * History never leaves the browser raw: only the sanitized insights and aggregates are sent
+ */
+export interface ValuateRequest {
+  car: CarDetails;
+  insights: string;
+  historicalMargin?: ValuationResult['historicalMargin'];
+  expectedDaysToSell?: DaysToSellEstimate;
+  datasetVersion?: string; // Hash of the history used, for the audit log
+}
+
+export type ApiErrorCode =
+  | 'bad_request'
+  | 'unauthorized'
+  | 'forbidden'
+  | 'method_not_allowed'
+  | 'valuation_failed'
+  | 'malformed_valuation'
+  | 'budget_exceeded'
+  | 'rate_limited'
+  | 'ledger_unavailable'
+  | 'quota_exceeded'
+  | 'model_unavailable'
+  | 'safety_blocked'
+  | 'no_grounding'
+  | 'server_error';
+
+export interface ApiErrorBody {
+  error: {
+    code: ApiErrorCode;
+    message: string;
+    issues?: string[];
   };
 }
 
+export type UserRole = 'buyer' | 'manager' | 'admin';
+
+export interface AuthUser {
+  username: string;
+  name: string;
+  role: UserRole;
+}
+
+/**
+ * POST /api/login response; the token is a server-signed bearer token
+ */
+export interface LoginResponse {
+  token: string;
+  user: AuthUser;
+  expiresAt: number;
+}
+
+export type AuditAction = 'login' | 'logout' | 'valuation' | 'history_loaded' | 'history_cleared';
+
+export type AuditDetails = Record<string, string | number | boolean | null>;
+
+/**
+ * One line of the append-only audit log
+ * Each event carries the hash of the previous one, so edits or deletions break the chain
+ */
+export interface AuditEvent {
+  seq: number;
+  timestamp: number;
+  user: AuthUser;
+  action: AuditAction;
+  details: AuditDetails;
+  prevHash: string;
+  hash: string;
+}
+
+export interface AuditLogResponse {
+  events: AuditEvent[];
+  brokenAt: number | null; // First event failing the hash chain, if any
+}
+
 export interface SalesHistoryItem {
   brand: string;
   model: string;
@@ -54,4 +266,30 @@ export interface SalesHistoryItem {
   boughtPrice: number;
   soldPrice: number;
   date: string;
+  boughtDate?: string;
+  soldDate?: string;
+  refurbCost?: number;
+  incentives?: number;
+}
+
+export interface HistoricalRecord {
+  brand?: string;
+  model?: string;
+  variant?: string;
+  year?: number;
+  fuel?: FuelType;
+  transmission?: Transmission;
+  kmDriven?: number;
+  ownership?: number;
+  location?: string;
+  boughtPrice?: number;
+  soldPrice?: number;
+  netMargin?: number;
+  date?: string; // Transaction (sale) date
+  boughtDate?: string;
+  soldDate?: string;
+  daysToSell?: number; // From the sheet, or soldDate - boughtDate
+  refurbCost?: number;
+  incentives?: number; // OEM / finance / insurance payouts earned on the deal
+  rowNumber?: number; // Source spreadsheet row, for data-quality reporting
 }
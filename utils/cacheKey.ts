@@ -0,0 +1,119 @@
+/**
+ * Valuation cache key
+ * Covers every field the price depends on, plus the version of the history
+ * dataset, so a cached quote is only reused for the same car under the same data.
+ * Mileage and age are bucketed so near-identical cars still share an entry;
+ * override the buckets with VITE_CACHE_BUCKETS, e.g. {"kmBoundaries":[25000,50000,100000]}
+ */
+
+import { CarDetails, FuelType, Transmission } from '../types';
+import { conditionKey } from './inspection';
+import { brandKey, compactKey, modelKey } from './nameMatching';
+import { parseRegistration, regionKey } from './registration';
+
+export interface CacheBuckets {
+  kmBoundaries: number[]; // Ascending upper bounds (exclusive) in km
+  ageBoundaries: number[]; // Ascending upper bounds (exclusive) in years
+}
+
+export interface ValuationCacheKey {
+  brand: string;
+  model: string;
+  variant: string;
+  fuel: FuelType;
+  transmission: Transmission;
+  ownership: number;
+  kmBucket: string;
+  ageBucket: string;
+  location: string; // Normalised region, see regionKey
+  registrationState: string; // State on the plate, 'BH' for Bharat series, 'none' without a plate
+  condition: string; // See conditionKey; 'uninspected' without a checklist
+  datasetVersion: string;
+}
+
+export const DEFAULT_CACHE_BUCKETS: CacheBuckets = {
+  kmBoundaries: [10000, 20000, 30000, 45000, 60000, 80000, 100000, 130000],
+  ageBoundaries: [1, 2, 3, 4, 5, 6, 7, 8, 10, 12, 15],
+};
+
+function isAscending(values: unknown): values is number[] {
+  return Array.isArray(values) && values.every((v, i) => typeof v === 'number' && (i === 0 || v > values[i - 1]));
+}
+
+function loadBuckets(): CacheBuckets {
+  const raw = import.meta.env.VITE_CACHE_BUCKETS;
+  if (!raw) return DEFAULT_CACHE_BUCKETS;
+
+  try {
+    const overrides = JSON.parse(raw);
+    return {
+      kmBoundaries: isAscending(overrides.kmBoundaries) ? overrides.kmBoundaries : DEFAULT_CACHE_BUCKETS.kmBoundaries,
+      ageBoundaries: isAscending(overrides.ageBoundaries) ? overrides.ageBoundaries : DEFAULT_CACHE_BUCKETS.ageBoundaries,
+    };
+  } catch {
+    console.warn('VITE_CACHE_BUCKETS is not valid JSON; using default cache buckets');
+    return DEFAULT_CACHE_BUCKETS;
+  }
+}
+
+export const CACHE_BUCKETS = loadBuckets();
+
+/**
+ * "20000-30000", or "130000+" past the last boundary
+ */
+export function bucketLabel(value: number, boundaries: number[]): string {
+  let lower = 0;
+  for (const upper of boundaries) {
+    if (value < upper) return `${lower}-${upper}`;
+    lower = upper;
+  }
+  return `${lower}+`;
+}
+
+function registrationStateKey(registration: string | undefined): string {
+  const info = parseRegistration(registration);
+  if (!info) return 'none';
+  return info.series === 'bharat' ? 'BH' : info.stateCode!;
+}
+
+export function buildCacheKey(
+  car: CarDetails,
+  datasetVersion: string,
+  buckets: CacheBuckets = CACHE_BUCKETS,
+  now: Date = new Date()
+): ValuationCacheKey {
+  return {
+    brand: brandKey(car.brand),
+    model: modelKey(car.model),
+    variant: compactKey(car.variant),
+    fuel: car.fuel,
+    transmission: car.transmission,
+    ownership: car.ownership,
+    kmBucket: bucketLabel(car.kmDriven, buckets.kmBoundaries),
+    ageBucket: bucketLabel(Math.max(0, now.getFullYear() - car.year), buckets.ageBoundaries),
+    location: regionKey(car.location),
+    registrationState: registrationStateKey(car.registration),
+    condition: conditionKey(car.condition),
+    datasetVersion,
+  };
+}
+
+/**
+ * Stable string form (fixed field order), used as the input to the record id hash
+ */
+export function serializeCacheKey(key: ValuationCacheKey): string {
+  return [
+    key.brand,
+    key.model,
+    key.variant,
+    key.fuel,
+    key.transmission,
+    key.ownership,
+    key.kmBucket,
+    key.ageBucket,
+    key.location,
+    key.registrationState,
+    key.condition,
+    key.datasetVersion,
+  ].join('|');
+}
@@ -1,55 +1,127 @@
 /**
  * Cache manager for storing and retrieving valuation results
- * Reduces API calls and token usage by caching results for 24 hours
+ * Reduces API calls and token usage by caching results (24 hours unless a
+ * brand or segment rule in cacheTtl says otherwise)
+ * Entries are encrypted through secureStorage and wiped on logout
+ * Least-recently-used entries are evicted beyond CACHE_LIMITS
  */
 
+import { CarDetails, ValuationResult } from '../types';
+import { ValuationCacheKey, serializeCacheKey } from './cacheKey';
+import { CacheTtlRules, loadCacheTtlRules, ttlHoursFor } from './cacheTtl';
+import { STORES } from './indexedDb';
+import {
+  secureClear,
+  secureDelete,
+  secureGet,
+  secureGetAll,
+  secureListMeta,
+  secureSet,
+  secureUpdateMeta,
+} from './secureStorage';
+
 interface CachedResult {
-  data: any;
+  key: ValuationCacheKey;
+  car: CarDetails; // As entered, so the entry can be refreshed live
+  data: ValuationResult;
   timestamp: number;
   expiresAt: number;
 }
 
-const CACHE_DURATION = 24 * 60 * 60 * 1000; // 24 hours in milliseconds
-const CACHE_PREFIX = 'valuation_cache_';
+type CacheMeta = { timestamp: number; expiresAt: number; lastAccessed: number; size: number };
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * A cached valuation as shown in the cache inspector
+ */
+export interface CacheEntry {
+  id: string;
+  key: ValuationCacheKey;
+  car: CarDetails;
+  result: ValuationResult;
+  cachedAt: number;
+  expiresAt: number;
+  lastAccessed: number;
+  size: number;
+}
+
+export const CACHE_LIMITS = {
+  maxEntries: 200,
+  maxBytes: 2 * 1024 * 1024, // Plaintext size; the encrypted records are about a third larger
+};
+
+/**
+ * "45 s", "12 min", "3 h", "2 d"
+ */
+export function formatDuration(ms: number): string {
+  const minutes = Math.floor(ms / 60000);
+  if (minutes < 1) return `${Math.max(0, Math.floor(ms / 1000))} s`;
+  if (minutes < 60) return `${minutes} min`;
+  if (minutes < 48 * 60) return `${Math.floor(minutes / 60)} h`;
+  return `${Math.floor(minutes / 60 / 24)} d`;
+}
+
+/**
+ * "just now", "12 min ago", "3 h ago"
+ */
+export function formatCacheAge(ms: number): string {
+  return ms < 60000 ? 'just now' : `${formatDuration(ms)} ago`;
+}
 
 /**
- * Generate cache key from car details
+ * Record id: SHA-256 of the key, so car details are not readable from the id
  */
-function generateCacheKey(carDetails: {
-  brand: string;
-  model: string;
-  year: string;
-  kmDriven: string;
-  fuel: string;
-}): string {
-  // Normalize km driven to ranges for better cache hits
-  const km = parseInt(carDetails.kmDriven);
-  let kmRange = '';
-  if (km < 20000) kmRange = '0-20k';
-  else if (km < 40000) kmRange = '20-40k';
-  else if (km < 60000) kmRange = '40-60k';
-  else if (km < 80000) kmRange = '60-80k';
-  else if (km < 100000) kmRange = '80-100k';
-  else kmRange = '100k+';
-  
-  const key = `${carDetails.brand}_${carDetails.model}_${carDetails.year}_${kmRange}_${carDetails.fuel}`;
-  return CACHE_PREFIX + key.toLowerCase().replace(/\s+/g, '_');
+async function recordId(key: ValuationCacheKey): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(serializeCacheKey(key)));
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * Drop expired entries, then the least recently used until within limits
+ */
+async function enforceLimits(): Promise<void> {
+  const now = Date.now();
+  const entries = await secureListMeta<CacheMeta>(STORES.valuationCache);
+  const live = entries.filter(entry => entry.meta.expiresAt > now);
+  const evict = entries.filter(entry => entry.meta.expiresAt <= now);
+
+  live.sort((a, b) => (a.meta.lastAccessed || a.meta.timestamp) - (b.meta.lastAccessed || b.meta.timestamp));
+  let bytes = live.reduce((sum, entry) => sum + (entry.meta.size || 0), 0);
+  while (live.length > CACHE_LIMITS.maxEntries || (bytes > CACHE_LIMITS.maxBytes && live.length > 1)) {
+    const oldest = live.shift()!;
+    bytes -= oldest.meta.size || 0;
+    evict.push(oldest);
+  }
+
+  await Promise.all(evict.map(entry => secureDelete(STORES.valuationCache, entry.id)));
 }
 
 /**
  * Store result in cache
  */
-export function cacheResult(carDetails: any, result: any): void {
+export async function cacheResult(key: ValuationCacheKey, car: CarDetails, result: ValuationResult): Promise<void> {
   try {
-    const cacheKey = generateCacheKey(carDetails);
+    const now = Date.now();
     const cached: CachedResult = {
+      key,
+      car,
       data: result,
-      timestamp: Date.now(),
-      expiresAt: Date.now() + CACHE_DURATION
+      timestamp: now,
+      expiresAt: now + ttlHoursFor(key, loadCacheTtlRules()) * HOUR_MS
     };
-    
-    sessionStorage.setItem(cacheKey, JSON.stringify(cached));
+
+    await secureSet<CachedResult, CacheMeta>(STORES.valuationCache, await recordId(key), cached, {
+      timestamp: cached.timestamp,
+      expiresAt: cached.expiresAt,
+      lastAccessed: now,
+      size: JSON.stringify(cached).length,
+    });
+    await enforceLimits();
   } catch (error) {
+    // Never fall back to a plaintext cache; just skip caching
     console.warn('Failed to cache result:', error);
   }
 }
@@ -57,68 +129,108 @@ export function cacheResult(carDetails: any, result: any): void {
 /**
  * Retrieve result from cache if available and not expired
  */
-export function getCachedResult(carDetails: any): any | null {
+export async function getCachedResult(
+  key: ValuationCacheKey
+): Promise<{ result: ValuationResult; cachedAt: number } | null> {
   try {
-    const cacheKey = generateCacheKey(carDetails);
-    const cachedStr = sessionStorage.getItem(cacheKey);
-    
-    if (!cachedStr) return null;
-    
-    const cached: CachedResult = JSON.parse(cachedStr);
-    
+    const id = await recordId(key);
+    const cached = await secureGet<CachedResult>(STORES.valuationCache, id);
+
+    if (!cached) return null;
+
     // Check if expired
     if (Date.now() > cached.expiresAt) {
-      sessionStorage.removeItem(cacheKey);
+      await secureDelete(STORES.valuationCache, id);
       return null;
     }
-    
-    return cached.data;
+
+    await secureUpdateMeta<CacheMeta>(STORES.valuationCache, id, {
+      timestamp: cached.timestamp,
+      expiresAt: cached.expiresAt,
+      lastAccessed: Date.now(),
+      size: JSON.stringify(cached).length,
+    });
+    return { result: cached.data, cachedAt: cached.timestamp };
   } catch (error) {
     console.warn('Failed to retrieve cached result:', error);
     return null;
   }
 }
 
+/**
+ * Every live entry, decrypted, most recently used first
+ */
+export async function listCacheEntries(): Promise<CacheEntry[]> {
+  const now = Date.now();
+  const entries = await secureGetAll<CachedResult, CacheMeta>(STORES.valuationCache, meta => meta.expiresAt > now);
+  return entries
+    .map(({ id, meta, value }) => ({
+      id,
+      key: value.key,
+      car: value.car,
+      result: value.data,
+      cachedAt: value.timestamp,
+      expiresAt: meta.expiresAt,
+      lastAccessed: meta.lastAccessed || value.timestamp,
+      size: meta.size || 0,
+    }))
+    .sort((a, b) => b.lastAccessed - a.lastAccessed);
+}
+
+export async function deleteCacheEntry(id: string): Promise<void> {
+  await secureDelete(STORES.valuationCache, id);
+}
+
+/**
+ * Re-apply TTL rules to entries already cached (expiry counts from when each was fetched)
+ */
+export async function applyCacheTtl(rules: CacheTtlRules): Promise<void> {
+  const now = Date.now();
+  const entries = await secureGetAll<CachedResult, CacheMeta>(STORES.valuationCache);
+
+  await Promise.all(entries.map(async ({ id, meta, value }) => {
+    const expiresAt = value.timestamp + ttlHoursFor(value.key, rules) * HOUR_MS;
+    if (expiresAt <= now) {
+      await secureDelete(STORES.valuationCache, id);
+      return;
+    }
+    const updated: CachedResult = { ...value, expiresAt };
+    await secureSet<CachedResult, CacheMeta>(STORES.valuationCache, id, updated, { ...meta, expiresAt });
+  }));
+}
+
 /**
  * Clear all cached results
  */
-export function clearCache(): void {
+export async function clearCache(): Promise<void> {
   try {
-    const keys = Object.keys(sessionStorage);
-    keys.forEach(key => {
-      if (key.startsWith(CACHE_PREFIX)) {
-        sessionStorage.removeItem(key);
-      }
-    });
+    await secureClear(STORES.valuationCache);
   } catch (error) {
     console.warn('Failed to clear cache:', error);
   }
 }
 
 /**
- * Get cache statistics
+ * Get cache statistics (from clear-text metadata, nothing is decrypted)
  */
-export function getCacheStats(): { count: number; oldestAge: number } {
+export async function getCacheStats(): Promise<{ count: number; oldestAge: number; bytes: number }> {
   try {
-    const keys = Object.keys(sessionStorage);
-    const cacheKeys = keys.filter(key => key.startsWith(CACHE_PREFIX));
-    
+    const entries = await secureListMeta<CacheMeta>(STORES.valuationCache);
+    const now = Date.now();
+    const live = entries.filter(entry => entry.meta.expiresAt > now);
+
     let oldestAge = 0;
-    cacheKeys.forEach(key => {
-      try {
-        const cached: CachedResult = JSON.parse(sessionStorage.getItem(key) || '{}');
-        const age = Date.now() - cached.timestamp;
-        if (age > oldestAge) oldestAge = age;
-      } catch (e) {
-        // Ignore parse errors
-      }
+    live.forEach(entry => {
+      const age = now - entry.meta.timestamp;
+      if (age > oldestAge) oldestAge = age;
     });
-    
+
     return {
-      count: cacheKeys.length,
-      oldestAge: Math.floor(oldestAge / 1000 / 60) // in minutes
+      count: live.length,
+      oldestAge: Math.floor(oldestAge / 1000 / 60), // in minutes
+      bytes: live.reduce((sum, entry) => sum + (entry.meta.size || 0), 0),
     };
   } catch (error) {
-    return { count: 0, oldestAge: 0 };
+    return { count: 0, oldestAge: 0, bytes: 0 };
   }
 }
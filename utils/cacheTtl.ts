@@ -0,0 +1,63 @@
+/**
+ * How long cached quotes stay valid
+ * A brand rule wins over a segment rule, which wins over the default. Prices of
+ * fast-moving segments (EVs, new launches) go stale sooner than a 10-year-old hatchback.
+ * Rules are a device setting, kept in localStorage like the column mappings.
+ */
+
+import { ValuationCacheKey } from './cacheKey';
+import { VehicleSegment, segmentFor } from './vehicleSegments';
+
+export interface CacheTtlRules {
+  defaultHours: number;
+  segments: Partial<Record<VehicleSegment, number>>;
+  brands: Record<string, number>; // Keyed by brandKey
+}
+
+const TTL_STORAGE_KEY = 'cache_ttl_rules';
+
+export const MAX_TTL_HOURS = 24 * 30;
+
+export const DEFAULT_TTL_RULES: CacheTtlRules = {
+  defaultHours: 24,
+  segments: {},
+  brands: {},
+};
+
+function validHours(value: unknown): value is number {
+  return typeof value === 'number' && value > 0 && value <= MAX_TTL_HOURS;
+}
+
+function validRuleMap<K extends string>(value: unknown): Partial<Record<K, number>> {
+  if (!value || typeof value !== 'object') return {};
+  return Object.fromEntries(Object.entries(value).filter(([, hours]) => validHours(hours))) as Partial<Record<K, number>>;
+}
+
+export function loadCacheTtlRules(): CacheTtlRules {
+  try {
+    const raw = localStorage.getItem(TTL_STORAGE_KEY);
+    if (!raw) return DEFAULT_TTL_RULES;
+
+    const saved = JSON.parse(raw);
+    return {
+      defaultHours: validHours(saved.defaultHours) ? saved.defaultHours : DEFAULT_TTL_RULES.defaultHours,
+      segments: validRuleMap<VehicleSegment>(saved.segments),
+      brands: validRuleMap<string>(saved.brands) as Record<string, number>,
+    };
+  } catch (error) {
+    console.warn('Failed to load cache TTL rules:', error);
+    return DEFAULT_TTL_RULES;
+  }
+}
+
+export function saveCacheTtlRules(rules: CacheTtlRules): void {
+  try {
+    localStorage.setItem(TTL_STORAGE_KEY, JSON.stringify(rules));
+  } catch (error) {
+    console.warn('Failed to save cache TTL rules:', error);
+  }
+}
+
+export function ttlHoursFor(key: ValuationCacheKey, rules: CacheTtlRules): number {
+  return rules.brands[key.brand] ?? rules.segments[segmentFor(key.brand, key.model, key.fuel)] ?? rules.defaultHours;
+}
@@ -0,0 +1,199 @@
+/**
+ * Comparables engine
+ * Ranks our own past transactions by weighted similarity to the car being valued,
+ * decays older sales, and derives a history-based buy price band from the top matches.
+ */
+
+import { CarDetails, HistoricalRecord } from '../types';
+import { timeDecayWeight } from './dateParser';
+import { brandsMatch, compactKey, modelsMatch } from './nameMatching';
+import { normaliseRegion } from './registration';
+
+export interface ComparableWeights {
+  brand: number;
+  model: number;
+  variant: number;
+  year: number;
+  fuel: number;
+  transmission: number;
+  kmDriven: number;
+  ownership: number;
+  location: number;
+}
+
+export interface ComparablesOptions {
+  topN: number;
+  minSimilarity: number; // 0-1, comps below this are dropped
+  halfLifeDays: number; // Recency weight halves every N days
+  undatedWeight: number; // Recency weight for sales without a usable date
+  weights: ComparableWeights;
+  referenceDate?: Date;
+}
+
+export interface Comparable {
+  record: HistoricalRecord;
+  similarity: number; // 0-1, attribute match only
+  recencyWeight: number; // 0-1
+  weight: number; // similarity x recency, used for ranking and the price band
+}
+
+export interface ComparablesEstimate {
+  comparables: Comparable[];
+  priceBand: { min: number; max: number; median: number; currency: string } | null;
+}
+
+export const DEFAULT_COMPARABLE_WEIGHTS: ComparableWeights = {
+  brand: 4,
+  model: 8,
+  variant: 2,
+  year: 3,
+  fuel: 2,
+  transmission: 2,
+  kmDriven: 2,
+  ownership: 1,
+  location: 1,
+};
+
+export const DEFAULT_COMPARABLES_OPTIONS: ComparablesOptions = {
+  topN: 10,
+  minSimilarity: 0.7,
+  halfLifeDays: 180,
+  undatedWeight: 0.5,
+  weights: DEFAULT_COMPARABLE_WEIGHTS,
+};
+
+// Distances at which an attribute counts as completely different
+const YEAR_SCALE = 5;
+const KM_SCALE = 50000;
+const OWNER_SCALE = 2;
+
+// Distance used when the record does not have the attribute
+const UNKNOWN_DISTANCE = 0.5;
+
+function categoricalDistance(a: string | undefined, b: string | undefined): number {
+  if (!a || !b) return UNKNOWN_DISTANCE;
+  return compactKey(a) === compactKey(b) ? 0 : 1;
+}
+
+function numericDistance(a: number | undefined, b: number, scale: number): number {
+  if (a === undefined || !Number.isFinite(a)) return UNKNOWN_DISTANCE;
+  return Math.min(1, Math.abs(a - b) / scale);
+}
+
+/**
+ * Same city 0, same state 0.5, elsewhere 1; spellings like "Bangalore" / "Bengaluru, KA" are normalised first
+ */
+function regionDistance(a: string | undefined, b: string | undefined): number {
+  const regionA = normaliseRegion(a);
+  const regionB = normaliseRegion(b);
+  if (!regionA.city || !regionB.city) return UNKNOWN_DISTANCE;
+  if (compactKey(regionA.city) === compactKey(regionB.city)) return 0;
+  return regionA.stateCode && regionA.stateCode === regionB.stateCode ? 0.5 : 1;
+}
+
+/**
+ * Attribute similarity between a past transaction and the target car (0-1)
+ */
+export function similarity(
+  record: HistoricalRecord,
+  car: CarDetails,
+  weights: ComparableWeights = DEFAULT_COMPARABLE_WEIGHTS
+): number {
+  const distances: Record<keyof ComparableWeights, number> = {
+    brand: brandsMatch(record.brand, car.brand) ? 0 : 1,
+    model: modelsMatch(record.model, car.model) ? 0 : 1,
+    variant: categoricalDistance(record.variant, car.variant),
+    year: numericDistance(record.year, car.year, YEAR_SCALE),
+    fuel: categoricalDistance(record.fuel, car.fuel),
+    transmission: categoricalDistance(record.transmission, car.transmission),
+    kmDriven: numericDistance(record.kmDriven, car.kmDriven, KM_SCALE),
+    ownership: numericDistance(record.ownership, car.ownership, OWNER_SCALE),
+    location: regionDistance(record.location, car.location),
+  };
+
+  const keys = Object.keys(weights) as Array<keyof ComparableWeights>;
+  const totalWeight = keys.reduce((sum, key) => sum + weights[key], 0);
+  if (totalWeight === 0) return 0;
+
+  const distance = keys.reduce((sum, key) => sum + weights[key] * distances[key], 0) / totalWeight;
+  return 1 - distance;
+}
+
+/**
+ * Exponential time decay: 1 for today, 0.5 after one half-life
+ */
+export function recencyWeight(date: string | undefined, options: ComparablesOptions): number {
+  return timeDecayWeight(date, options.halfLifeDays, options);
+}
+
+/**
+ * Find the top-N comparable past transactions
+ */
+export function findComparables(
+  records: HistoricalRecord[],
+  car: CarDetails,
+  overrides: Partial<ComparablesOptions> = {}
+): Comparable[] {
+  const options = { ...DEFAULT_COMPARABLES_OPTIONS, ...overrides };
+
+  return records
+    .filter(record => record.boughtPrice && record.boughtPrice > 0)
+    .map(record => {
+      const sim = similarity(record, car, options.weights);
+      const recency = recencyWeight(record.date, options);
+      return { record, similarity: sim, recencyWeight: recency, weight: sim * recency };
+    })
+    .filter(comp => comp.similarity >= options.minSimilarity)
+    .sort((a, b) => b.weight - a.weight)
+    .slice(0, options.topN);
+}
+
+/**
+ * Weighted percentile over (value, weight) pairs
+ */
+function weightedPercentile(items: Array<{ value: number; weight: number }>, percentile: number): number {
+  const sorted = [...items].sort((a, b) => a.value - b.value);
+  const total = sorted.reduce((sum, item) => sum + item.weight, 0);
+  const target = total * percentile;
+
+  let cumulative = 0;
+  for (const item of sorted) {
+    cumulative += item.weight;
+    if (cumulative >= target) return item.value;
+  }
+  return sorted[sorted.length - 1].value;
+}
+
+/**
+ * History-based buy price band: weighted 25th-75th percentile of what we paid for the comps
+ */
+export function comparablesPriceBand(
+  comparables: Comparable[],
+  roundTo: number = 1000
+): ComparablesEstimate['priceBand'] {
+  const items = comparables
+    .filter(comp => comp.record.boughtPrice && comp.weight > 0)
+    .map(comp => ({ value: comp.record.boughtPrice!, weight: comp.weight }));
+
+  if (items.length === 0) return null;
+
+  const round = (value: number) => Math.round(value / roundTo) * roundTo;
+  return {
+    min: round(weightedPercentile(items, 0.25)),
+    max: round(weightedPercentile(items, 0.75)),
+    median: round(weightedPercentile(items, 0.5)),
+    currency: 'INR',
+  };
+}
+
+/**
+ * Comparables plus the band derived from them
+ */
+export function estimateFromHistory(
+  records: HistoricalRecord[],
+  car: CarDetails,
+  overrides: Partial<ComparablesOptions> = {}
+): ComparablesEstimate {
+  const comparables = findComparables(records, car, overrides);
+  return { comparables, priceBand: comparablesPriceBand(comparables) };
+}
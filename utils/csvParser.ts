@@ -0,0 +1,81 @@
+/**
+ * RFC 4180 CSV parser
+ * Handles quoted fields ("Swift, VXI"), escaped quotes (""), CRLF/LF/CR line endings,
+ * line breaks inside quotes and a leading UTF-8 BOM.
+ */
+
+export function parseCsv(text: string, delimiter: string = ','): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let i = 0;
+
+  // Strip BOM written by Excel "CSV UTF-8" exports
+  if (text.charCodeAt(0) === 0xfeff) i = 1;
+
+  const endField = () => {
+    row.push(field);
+    field = '';
+  };
+  const endRow = () => {
+    endField();
+    rows.push(row);
+    row = [];
+  };
+
+  for (; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      endField();
+    } else if (char === '\r') {
+      endRow();
+      if (text[i + 1] === '\n') i++;
+    } else if (char === '\n') {
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+
+  // Last row without a trailing newline
+  if (field !== '' || row.length > 0) {
+    endRow();
+  }
+
+  // Drop fully blank lines
+  return rows.filter(r => r.some(value => value.trim() !== ''));
+}
+
+/**
+ * Serialise rows to RFC 4180 CSV, quoting fields that need it
+ */
+export function toCsv(rows: (string | number | boolean | null | undefined)[][]): string {
+  return rows
+    .map(row =>
+      row
+        .map(value => {
+          const text = value === null || value === undefined ? '' : String(value);
+          return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+        })
+        .join(',')
+    )
+    .join('\r\n');
+}
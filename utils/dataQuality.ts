@@ -0,0 +1,222 @@
+/**
+ * Data-quality report for uploaded sales history
+ * Finds rows that would skew margins and spellings that split one car into several.
+ */
+
+import { HistoricalRecord } from '../types';
+import { parseIndianDate } from './dateParser';
+import { brandKey, canonicalBrand, compactKey, modelKey } from './nameMatching';
+
+export type QualityIssueType =
+  | 'missing_price'
+  | 'sold_below_bought'
+  | 'impossible_year'
+  | 'duplicate'
+  | 'unparseable_date'
+  | 'spelling_variant';
+
+export interface QualityIssue {
+  type: QualityIssueType;
+  message: string;
+  rowNumbers: number[];
+}
+
+/**
+ * Rewrites every listed spelling of a brand or model to one canonical spelling
+ */
+export interface NormalisationRule {
+  field: 'brand' | 'model';
+  brand?: string; // Model rules only apply within this canonical brand
+  from: string[];
+  to: string;
+  affectedRows: number;
+}
+
+export interface DataQualityReport {
+  totalRecords: number;
+  issues: QualityIssue[];
+  counts: Record<QualityIssueType, number>;
+  rules: NormalisationRule[];
+}
+
+export const QUALITY_ISSUE_LABELS: Record<QualityIssueType, string> = {
+  missing_price: 'Missing prices',
+  sold_below_bought: 'Sold below bought',
+  impossible_year: 'Impossible years',
+  duplicate: 'Duplicate transactions',
+  unparseable_date: 'Unparseable dates',
+  spelling_variant: 'Spelling variants',
+};
+
+const EARLIEST_YEAR = 1980;
+
+function rowLabel(record: HistoricalRecord, index: number): number {
+  return record.rowNumber ?? index + 1;
+}
+
+/**
+ * Group distinct spellings by key; keep groups with more than one spelling
+ * The most frequent spelling becomes the suggested canonical one
+ */
+function spellingGroups(
+  values: Array<string | undefined>,
+  keyOf: (value: string) => string,
+  preferred?: (value: string) => string
+): Array<{ spellings: string[]; to: string; count: number }> {
+  const groups = new Map<string, Map<string, number>>();
+
+  values.forEach(value => {
+    const trimmed = value?.trim();
+    if (!trimmed) return;
+    const key = keyOf(trimmed);
+    if (!groups.has(key)) groups.set(key, new Map());
+    const spellings = groups.get(key)!;
+    spellings.set(trimmed, (spellings.get(trimmed) || 0) + 1);
+  });
+
+  const result: Array<{ spellings: string[]; to: string; count: number }> = [];
+  groups.forEach(spellings => {
+    if (spellings.size < 2) return;
+    const sorted = [...spellings.entries()].sort((a, b) => b[1] - a[1]);
+    const to = preferred ? preferred(sorted[0][0]) : sorted[0][0];
+    const from = sorted.map(([spelling]) => spelling).filter(s => s !== to);
+    if (from.length === 0) return;
+    result.push({
+      spellings: from,
+      to,
+      count: sorted.filter(([spelling]) => spelling !== to).reduce((sum, [, n]) => sum + n, 0),
+    });
+  });
+
+  return result;
+}
+
+/**
+ * Suggest brand and model normalisation rules
+ */
+export function suggestNormalisationRules(records: HistoricalRecord[]): NormalisationRule[] {
+  const rules: NormalisationRule[] = [];
+
+  spellingGroups(records.map(r => r.brand), brandKey, canonicalBrand).forEach(group => {
+    rules.push({ field: 'brand', from: group.spellings, to: group.to, affectedRows: group.count });
+  });
+
+  // Models are compared within a brand so "Tata Nexon" and a hypothetical other "Nexon" stay apart
+  const byBrand = new Map<string, HistoricalRecord[]>();
+  records.forEach(record => {
+    const key = brandKey(record.brand);
+    if (!byBrand.has(key)) byBrand.set(key, []);
+    byBrand.get(key)!.push(record);
+  });
+
+  byBrand.forEach(brandRecords => {
+    const brand = canonicalBrand(brandRecords[0].brand);
+    spellingGroups(brandRecords.map(r => r.model), modelKey).forEach(group => {
+      rules.push({ field: 'model', brand, from: group.spellings, to: group.to, affectedRows: group.count });
+    });
+  });
+
+  return rules;
+}
+
+/**
+ * Apply normalisation rules, returning new records
+ */
+export function applyNormalisationRules(
+  records: HistoricalRecord[],
+  rules: NormalisationRule[]
+): HistoricalRecord[] {
+  return records.map(record => {
+    let next = record;
+    rules.forEach(rule => {
+      const current = next[rule.field];
+      if (!current || !rule.from.includes(current.trim())) return;
+      if (rule.brand && brandKey(next.brand) !== brandKey(rule.brand)) return;
+      next = { ...next, [rule.field]: rule.to };
+    });
+    return next;
+  });
+}
+
+/**
+ * Build the data-quality report
+ */
+export function buildQualityReport(
+  records: HistoricalRecord[],
+  currentYear: number = new Date().getFullYear()
+): DataQualityReport {
+  const missingPrice: number[] = [];
+  const soldBelowBought: number[] = [];
+  const impossibleYear: number[] = [];
+  const unparseableDate: number[] = [];
+  const seen = new Map<string, number[]>();
+
+  records.forEach((record, index) => {
+    const row = rowLabel(record, index);
+
+    if (!record.boughtPrice || !record.soldPrice) missingPrice.push(row);
+    if (record.boughtPrice && record.soldPrice && record.soldPrice < record.boughtPrice) {
+      soldBelowBought.push(row);
+    }
+    if (record.year !== undefined && (record.year < EARLIEST_YEAR || record.year > currentYear + 1)) {
+      impossibleYear.push(row);
+    }
+    if (record.date && !parseIndianDate(record.date)) unparseableDate.push(row);
+
+    const key = [
+      brandKey(record.brand),
+      modelKey(record.model),
+      compactKey(record.variant),
+      record.year,
+      record.boughtPrice,
+      record.soldPrice,
+      record.date?.trim(),
+    ].join('|');
+    if (!seen.has(key)) seen.set(key, []);
+    seen.get(key)!.push(row);
+  });
+
+  const duplicateGroups = [...seen.values()].filter(rows => rows.length > 1);
+  const rules = suggestNormalisationRules(records);
+
+  const issues: QualityIssue[] = [];
+  if (missingPrice.length > 0) {
+    issues.push({ type: 'missing_price', message: 'Bought or sold price is empty', rowNumbers: missingPrice });
+  }
+  if (soldBelowBought.length > 0) {
+    issues.push({ type: 'sold_below_bought', message: 'Sold for less than bought - check for typos or genuine losses', rowNumbers: soldBelowBought });
+  }
+  if (impossibleYear.length > 0) {
+    issues.push({ type: 'impossible_year', message: `Year before ${EARLIEST_YEAR} or after ${currentYear + 1}`, rowNumbers: impossibleYear });
+  }
+  duplicateGroups.forEach(rows => {
+    issues.push({ type: 'duplicate', message: `Same transaction repeated in rows ${rows.join(', ')}`, rowNumbers: rows.slice(1) });
+  });
+  if (unparseableDate.length > 0) {
+    issues.push({ type: 'unparseable_date', message: 'Date not in a recognised format (e.g. 15/03/2024)', rowNumbers: unparseableDate });
+  }
+  rules.forEach(rule => {
+    issues.push({
+      type: 'spelling_variant',
+      message: `${rule.from.map(s => `"${s}"`).join(', ')} probably means "${rule.to}"`,
+      rowNumbers: records
+        .map((record, index) => ({ value: record[rule.field]?.trim(), row: rowLabel(record, index) }))
+        .filter(item => item.value && rule.from.includes(item.value))
+        .map(item => item.row),
+    });
+  });
+
+  const counts = {
+    missing_price: 0,
+    sold_below_bought: 0,
+    impossible_year: 0,
+    duplicate: 0,
+    unparseable_date: 0,
+    spelling_variant: 0,
+  } as Record<QualityIssueType, number>;
+  issues.forEach(issue => {
+    counts[issue.type] += issue.rowNumbers.length;
+  });
+
+  return { totalRecords: records.length, issues, counts, rules };
+}
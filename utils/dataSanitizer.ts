@@ -4,65 +4,23 @@
  * OPTIMIZED: Smart filtering and aggregation to reduce token usage by 99%
  */
 
-interface HistoricalRecord {
-  brand?: string;
-  model?: string;
-  variant?: string;
-  year?: string;
-  boughtPrice?: number;
-  soldPrice?: number;
-  netMargin?: number;
-  date?: string;
-}
+import { HistoricalRecord, ValuationResult } from '../types';
+import { brandsMatch, canonicalBrand, modelKey, modelsMatch } from './nameMatching';
+import {
+  buildMarginTrend,
+  choosePeriod,
+  recordMargin,
+  sortByDateDesc,
+  weightedAverageMargin,
+} from './marginTrends';
+import { formatIndianDate } from './dateParser';
 
 interface AggregatedData {
   brandModel: string;
+  brand: string;
   count: number;
   avgMargin: number;
-  years: string[];
-}
-
-/**
- * Parse CSV data into structured records
- */
-function parseCSV(csvData: string): HistoricalRecord[] {
-  if (!csvData.trim()) return [];
-  
-  const lines = csvData.trim().split('\n');
-  if (lines.length < 2) return []; // Need at least header + 1 row
-  
-  const headers = lines[0].toLowerCase().split(',').map(h => h.trim());
-  const records: HistoricalRecord[] = [];
-  
-  for (let i = 1; i < lines.length; i++) {
-    const values = lines[i].split(',').map(v => v.trim());
-    const record: HistoricalRecord = {};
-    
-    headers.forEach((header, index) => {
-      const value = values[index];
-      if (header.includes('brand')) record.brand = value;
-      if (header.includes('model')) record.model = value;
-      if (header.includes('variant')) record.variant = value;
-      if (header.includes('year')) record.year = value;
-      if (header.includes('date')) record.date = value;
-      if (header.includes('bought') || header.includes('purchase')) {
-        record.boughtPrice = parseFloat(value);
-      }
-      if (header.includes('sold') || header.includes('sale')) {
-        record.soldPrice = parseFloat(value);
-      }
-      // Parse Net_Margin_After_Incentive
-      if (header.includes('net_margin') || header.includes('incentive')) {
-        // Handle percentage strings if present (e.g. "12%")
-        const cleanValue = value.replace('%', '');
-        record.netMargin = parseFloat(cleanValue);
-      }
-    });
-    
-    records.push(record);
-  }
-  
-  return records;
+  years: number[];
 }
 
 /**
@@ -72,20 +30,20 @@ function calculateRelevance(record: HistoricalRecord, target: { brand: string; m
   let score = 0;
   
   // Exact brand match
-  if (record.brand?.toLowerCase() === target.brand.toLowerCase()) {
+  if (brandsMatch(record.brand, target.brand)) {
     score += 50;
   }
   
   // Exact model match
-  if (record.model?.toLowerCase() === target.model.toLowerCase()) {
+  if (modelsMatch(record.model, target.model)) {
     score += 100;
   }
   
   // Partial model match
   if (record.model && target.model) {
-    const recordModel = record.model.toLowerCase();
-    const targetModel = target.model.toLowerCase();
-    if (recordModel.includes(targetModel) || targetModel.includes(recordModel)) {
+    const recordModel = modelKey(record.model);
+    const targetModel = modelKey(target.model);
+    if (recordModel && targetModel && (recordModel.includes(targetModel) || targetModel.includes(recordModel))) {
       score += 75;
     }
   }
@@ -117,9 +75,9 @@ function smartFilter(records: HistoricalRecord[], target: { brand: string; model
 function aggregateData(records: HistoricalRecord[]): AggregatedData[] {
   const groups = new Map<string, HistoricalRecord[]>();
   
-  // Group by brand+model
+  // Group by brand+model (spelling variants share a group)
   records.forEach(record => {
-    const key = `${record.brand || 'Unknown'} ${record.model || 'Unknown'}`;
+    const key = `${canonicalBrand(record.brand) || 'Unknown'} ${record.model ? modelKey(record.model) : 'Unknown'}`;
     if (!groups.has(key)) {
       groups.set(key, []);
     }
@@ -130,8 +88,8 @@ function aggregateData(records: HistoricalRecord[]): AggregatedData[] {
   const aggregated: AggregatedData[] = [];
   groups.forEach((groupRecords, brandModel) => {
     const margins = groupRecords
-      .filter(r => r.boughtPrice && r.soldPrice && r.boughtPrice > 0)
-      .map(r => ((r.soldPrice! - r.boughtPrice!) / r.boughtPrice!) * 100);
+      .map(recordMargin)
+      .filter((m): m is number => m !== null);
     
     const years = [...new Set(groupRecords.map(r => r.year).filter(Boolean))];
     
@@ -139,9 +97,10 @@ function aggregateData(records: HistoricalRecord[]): AggregatedData[] {
       const avgMargin = margins.reduce((a, b) => a + b, 0) / margins.length;
       aggregated.push({
         brandModel,
+        brand: canonicalBrand(groupRecords[0].brand),
         count: groupRecords.length,
         avgMargin,
-        years: years as string[]
+        years: years as number[]
       });
     }
   });
@@ -149,33 +108,21 @@ function aggregateData(records: HistoricalRecord[]): AggregatedData[] {
   return aggregated.sort((a, b) => b.count - a.count); // Sort by transaction count
 }
 
-/**
- * Sanitize historical data to remove sensitive pricing information
- * OPTIMIZED: Returns compact aggregated insights instead of processing all rows
- */
 /**
  * Sanitize historical data to remove sensitive pricing information
  * OPTIMIZED: Returns compact aggregated insights instead of processing all rows
  */
 export function sanitizeHistoricalData(
-  csvData: string, 
+  allRecords: HistoricalRecord[], 
   targetCar: { brand: string; model: string }
-): { insights: string; marginData: { percentage: number; description: string } | null } {
-  if (!csvData || !csvData.trim()) {
+): { insights: string; marginData: ValuationResult['historicalMargin'] | null } {
+  if (!allRecords || allRecords.length === 0) {
     return { 
       insights: "No historical data available.",
       marginData: null
     };
   }
   
-  const allRecords = parseCSV(csvData);
-  if (allRecords.length === 0) {
-    return { 
-      insights: "No valid historical data found.",
-      marginData: null
-    };
-  }
-  
   // OPTIMIZATION: Smart filter to reduce dataset size
   const relevantRecords = smartFilter(allRecords, targetCar, 50);
   
@@ -184,30 +131,26 @@ export function sanitizeHistoricalData(
   
   // Build sanitized insights
   const insights: string[] = [];
-  let marginData: { percentage: number; description: string } | null = null;
+  let marginData: ValuationResult['historicalMargin'] | null = null;
   
   // 1. LIST SPECIFIC TRANSACTIONS (Top Priority)
-  // Find exact matches for this model
-  const exactMatches = relevantRecords.filter(r => 
-    r.brand?.toLowerCase() === targetCar.brand.toLowerCase() &&
-    r.model?.toLowerCase() === targetCar.model.toLowerCase()
-  );
+  // Find exact matches for this model, most recent first
+  const exactMatches = sortByDateDesc(allRecords.filter(r => 
+    brandsMatch(r.brand, targetCar.brand) &&
+    modelsMatch(r.model, targetCar.model)
+  ));
 
   if (exactMatches.length > 0) {
     insights.push(`*** PRIORITY: YOUR PAST TRANSACTIONS FOR ${targetCar.brand.toUpperCase()} ${targetCar.model.toUpperCase()} ***`);
     
-    // Sort by date (most recent first) if available, or just take first few
     const recentTxns = exactMatches.slice(0, 5);
     
     recentTxns.forEach(txn => {
       if (txn.boughtPrice && txn.soldPrice) {
         // Use explicit net margin if available, otherwise calculate it
-        let margin = txn.netMargin;
-        if (margin === undefined || isNaN(margin)) {
-          margin = ((txn.soldPrice - txn.boughtPrice) / txn.boughtPrice) * 100;
-        }
+        const margin = recordMargin(txn)!;
         
-        const dateStr = txn.date ? `Date: ${txn.date}` : 'Date: N/A';
+        const dateStr = txn.date ? `Date: ${formatIndianDate(txn.date)}` : 'Date: N/A';
         const modelStr = `${txn.brand} ${txn.model}`;
         const variantStr = txn.variant ? ` ${txn.variant}` : '';
         const yearStr = txn.year ? ` (${txn.year})` : '';
@@ -220,22 +163,26 @@ export function sanitizeHistoricalData(
       }
     });
 
-    // Calculate average margin for UI display
-    const margins = exactMatches
-      .map(r => {
-        if (r.netMargin !== undefined && !isNaN(r.netMargin)) return r.netMargin;
-        if (r.boughtPrice && r.soldPrice) return ((r.soldPrice - r.boughtPrice) / r.boughtPrice) * 100;
-        return null;
-      })
-      .filter(m => m !== null) as number[];
+    // Recency-weighted average margin for UI display
+    const weighted = weightedAverageMargin(exactMatches);
       
-    if (margins.length > 0) {
-      const avgMargin = margins.reduce((a, b) => a + b, 0) / margins.length;
-      insights.push(`AVERAGE MARGIN for this model: ${avgMargin.toFixed(1)}% over ${margins.length} transactions.`);
+    if (weighted) {
+      insights.push(`AVERAGE MARGIN for this model: ${weighted.margin.toFixed(1)}% over ${weighted.count} transactions (recent deals weighted higher).`);
+
+      const trend = buildMarginTrend(exactMatches, choosePeriod(exactMatches));
+      const trendStr = trend
+        .filter(point => point.avgMargin !== null)
+        .slice(-4)
+        .map(point => `${point.label}: ${point.avgMargin!.toFixed(1)}%`)
+        .join(', ');
+      if (trendStr) {
+        insights.push(`MARGIN TREND: ${trendStr}`);
+      }
       
       marginData = {
-        percentage: avgMargin,
-        description: `${margins.length} similar ${targetCar.brand} ${targetCar.model} transactions`
+        percentage: weighted.margin,
+        description: `${weighted.count} similar ${targetCar.brand} ${targetCar.model} transactions, weighted to recent deals`,
+        trend: trend.length > 1 ? trend : undefined,
       };
     }
   } else {
@@ -243,7 +190,7 @@ export function sanitizeHistoricalData(
     
     // Fallback to brand level
     const brandMatches = aggregated.filter(a => 
-      a.brandModel.toLowerCase().includes(targetCar.brand.toLowerCase())
+      brandsMatch(a.brand, targetCar.brand)
     );
     
     if (brandMatches.length > 0) {
@@ -0,0 +1,22 @@
+/**
+ * Dataset version
+ * A short SHA-256 fingerprint of the history records, so an audit entry or a
+ * cached valuation can be tied to the exact dataset that produced it.
+ */
+
+import { HistoricalRecord } from '../types';
+
+export const EMPTY_DATASET_VERSION = 'none';
+
+export async function historyDatasetHash(records: HistoricalRecord[]): Promise<string> {
+  if (records.length === 0) return EMPTY_DATASET_VERSION;
+
+  // rowNumber is where a record sat in the sheet, not part of its content
+  const canonical = JSON.stringify(records.map(({ rowNumber, ...record }) =>
+    Object.keys(record).sort().map(key => [key, record[key as keyof typeof record]])
+  ));
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(canonical));
+  return Array.from(new Uint8Array(digest).slice(0, 8))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
@@ -0,0 +1,116 @@
+/**
+ * Date parsing for Indian spreadsheet formats
+ * Day-first by default: "05/03/2023" is 5 March, as entered in Indian sheets.
+ */
+
+const MONTHS: Record<string, number> = {
+  jan: 0, feb: 1, mar: 2, apr: 3, may: 4, jun: 5,
+  jul: 6, aug: 7, sep: 8, oct: 9, nov: 10, dec: 11,
+};
+
+function expandYear(year: number): number {
+  if (year >= 100) return year;
+  return year < 50 ? 2000 + year : 1900 + year;
+}
+
+function buildDate(year: number, month: number, day: number): Date | null {
+  const date = new Date(Date.UTC(year, month, day));
+  // Reject rollovers such as 31/02
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month || date.getUTCDate() !== day) {
+    return null;
+  }
+  return date;
+}
+
+function monthIndex(name: string): number | undefined {
+  return MONTHS[name.toLowerCase().slice(0, 3)];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Excel serial day 0 is 1899-12-30 (accounts for the 1900 leap-year bug)
+const EXCEL_EPOCH_MS = Date.UTC(1899, 11, 30);
+
+/**
+ * Parse a date string; returns a UTC midnight Date or null
+ * Supported: DD/MM/YYYY, DD-MM-YYYY, DD.MM.YYYY (2- or 4-digit year), YYYY-MM-DD,
+ * DD-Mon-YYYY, DD Mon YYYY, Mon DD, YYYY, Mon YYYY (first of month)
+ * and Excel serial numbers (e.g. 45000) from unformatted sheet exports
+ */
+export function parseIndianDate(raw: string | undefined | null): Date | null {
+  if (!raw) return null;
+  const value = raw.trim().replace(/,/g, ' ').replace(/\s+/g, ' ');
+  if (!value) return null;
+
+  // Excel serials: 5 digits covers 1927-2173
+  if (/^\d{5}$/.test(value)) {
+    const date = new Date(EXCEL_EPOCH_MS + Number(value) * DAY_MS);
+    return buildDate(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+  }
+
+  let match = value.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})(?:[ T].*)?$/);
+  if (match) {
+    return buildDate(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  }
+
+  match = value.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{2}|\d{4})(?: .*)?$/);
+  if (match) {
+    return buildDate(expandYear(Number(match[3])), Number(match[2]) - 1, Number(match[1]));
+  }
+
+  match = value.match(/^(\d{1,2})[- ]([a-z]{3,9})[- ](\d{2}|\d{4})$/i);
+  if (match) {
+    const month = monthIndex(match[2]);
+    if (month === undefined) return null;
+    return buildDate(expandYear(Number(match[3])), month, Number(match[1]));
+  }
+
+  match = value.match(/^([a-z]{3,9}) (\d{1,2}) (\d{4})$/i);
+  if (match) {
+    const month = monthIndex(match[1]);
+    if (month === undefined) return null;
+    return buildDate(Number(match[3]), month, Number(match[2]));
+  }
+
+  match = value.match(/^([a-z]{3,9})[- ](\d{2}|\d{4})$/i);
+  if (match) {
+    const month = monthIndex(match[1]);
+    if (month === undefined) return null;
+    return buildDate(expandYear(Number(match[2])), month, 1);
+  }
+
+  return null;
+}
+
+/**
+ * Whole days from `from` to `to` (negative if `to` is earlier)
+ */
+export function daysBetween(from: Date, to: Date): number {
+  return Math.round((to.getTime() - from.getTime()) / DAY_MS);
+}
+
+/**
+ * Exponential time decay: 1 for today, 0.5 after one half-life, `undatedWeight` if unparseable
+ */
+export function timeDecayWeight(
+  date: string | undefined,
+  halfLifeDays: number,
+  options: { referenceDate?: Date; undatedWeight?: number } = {}
+): number {
+  const parsed = parseIndianDate(date);
+  if (!parsed) return options.undatedWeight ?? 0.5;
+
+  const ageDays = Math.max(0, daysBetween(parsed, options.referenceDate || new Date()));
+  return Math.pow(0.5, ageDays / halfLifeDays);
+}
+
+/**
+ * Format as DD/MM/YYYY; falls back to the raw text if it cannot be parsed
+ */
+export function formatIndianDate(raw: string | undefined): string {
+  const date = parseIndianDate(raw);
+  if (!date) return raw || '';
+  const dd = String(date.getUTCDate()).padStart(2, '0');
+  const mm = String(date.getUTCMonth() + 1).padStart(2, '0');
+  return `${dd}/${mm}/${date.getUTCFullYear()}`;
+}
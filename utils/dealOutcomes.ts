@@ -0,0 +1,124 @@
+/**
+ * Deal outcomes
+ * Turns recorded outcomes of past quotes into history records and measures
+ * how well the quoted buy price band matched what cars actually traded at.
+ */
+
+import { HistoricalRecord } from '../types';
+import { daysBetween } from './dateParser';
+import { DealStatus, ValuationLogEntry } from './valuationLog';
+
+export interface AccuracySample {
+  entryId: string;
+  label: string;
+  status: DealStatus;
+  quotedMin: number;
+  quotedMax: number;
+  actualPrice: number;
+  deviationPct: number; // Actual vs band midpoint; positive means the car traded above our quote
+  position: 'below' | 'within' | 'above';
+}
+
+export interface AccuracySummary {
+  totalQuotes: number;
+  counts: Record<DealStatus | 'open', number>;
+  samples: AccuracySample[];
+  withinBandPct: number | null;
+  meanDeviationPct: number | null;
+  meanAbsDeviationPct: number | null;
+  // Later retail sale vs the market price the quote was built on
+  resaleSamples: number;
+  resaleDeviationPct: number | null;
+}
+
+function isoDate(timestamp: number): string {
+  return new Date(timestamp).toISOString().slice(0, 10);
+}
+
+function average(values: number[]): number | null {
+  return values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : null;
+}
+
+/**
+ * History records for cars we actually bought, so our own deals feed the
+ * margin insights and comparables just like rows from the sheet
+ */
+export function outcomesToHistory(entries: ValuationLogEntry[]): HistoricalRecord[] {
+  return entries
+    .filter(entry => entry.outcome?.status === 'bought' && entry.outcome.actualPrice)
+    .map(entry => {
+      const { car, outcome } = entry;
+      const boughtDate = isoDate(outcome!.decidedAt);
+      const soldDate = outcome!.soldPrice && outcome!.soldAt ? isoDate(outcome!.soldAt) : undefined;
+
+      return {
+        brand: car.brand,
+        model: car.model,
+        variant: car.variant,
+        year: car.year,
+        fuel: car.fuel,
+        transmission: car.transmission,
+        kmDriven: car.kmDriven,
+        ownership: car.ownership,
+        location: car.location,
+        boughtPrice: outcome!.actualPrice,
+        soldPrice: soldDate ? outcome!.soldPrice : undefined,
+        refurbCost: outcome!.refurbCost,
+        boughtDate,
+        soldDate,
+        date: soldDate || boughtDate,
+        daysToSell: soldDate
+          ? Math.max(0, daysBetween(new Date(outcome!.decidedAt), new Date(outcome!.soldAt!)))
+          : undefined,
+      };
+    });
+}
+
+/**
+ * Compare quoted price bands with real prices from bought and lost deals
+ */
+export function buildAccuracySummary(entries: ValuationLogEntry[]): AccuracySummary {
+  const counts: AccuracySummary['counts'] = { bought: 0, lost: 0, passed: 0, open: 0 };
+  const samples: AccuracySample[] = [];
+  const resaleDeviations: number[] = [];
+
+  entries.forEach(entry => {
+    const outcome = entry.outcome;
+    counts[outcome ? outcome.status : 'open']++;
+    if (!outcome) return;
+
+    const { min, max } = entry.result.priceBand;
+    if (outcome.status !== 'passed' && outcome.actualPrice && max > 0) {
+      const midpoint = (min + max) / 2;
+      samples.push({
+        entryId: entry.id,
+        label: `${entry.car.year} ${entry.car.brand} ${entry.car.model} ${entry.car.variant}`.trim(),
+        status: outcome.status,
+        quotedMin: min,
+        quotedMax: max,
+        actualPrice: outcome.actualPrice,
+        deviationPct: ((outcome.actualPrice - midpoint) / midpoint) * 100,
+        position: outcome.actualPrice < min ? 'below' : outcome.actualPrice > max ? 'above' : 'within',
+      });
+    }
+
+    const marketPrice = entry.result.marketPrice;
+    if (outcome.soldPrice && marketPrice) {
+      resaleDeviations.push(((outcome.soldPrice - marketPrice) / marketPrice) * 100);
+    }
+  });
+
+  const deviations = samples.map(s => s.deviationPct);
+  return {
+    totalQuotes: entries.length,
+    counts,
+    samples,
+    withinBandPct: samples.length > 0
+      ? (samples.filter(s => s.position === 'within').length / samples.length) * 100
+      : null,
+    meanDeviationPct: average(deviations),
+    meanAbsDeviationPct: average(deviations.map(Math.abs)),
+    resaleSamples: resaleDeviations.length,
+    resaleDeviationPct: average(resaleDeviations),
+  };
+}
@@ -1,66 +1,234 @@
-// Simple client-side encryption utilities
-// Note: This is basic obfuscation. For production, consider using Web Crypto API
+/**
+ * Client-side encryption
+ * AES-256-GCM via Web Crypto with a key derived (PBKDF2) from the login passphrase.
+ * The key lives in memory only; it is dropped on logout and on page reload.
+ * Every record gets a random IV and a versioned envelope: `v1:<iv>:<ciphertext>` (base64).
+ * Nothing here falls back to plaintext: failures throw EncryptionError.
+ * Persisting encrypted data is handled by secureStorage.ts.
+ */
 
-const ENCRYPTION_KEY = 'autovaluate-secure-2024'; // In production, use env variable
+export class EncryptionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EncryptionError';
+  }
+}
 
 /**
- * Simple XOR-based encryption for client-side data protection
- * This prevents casual inspection but is not cryptographically secure
+ * The data on this device was encrypted under another passphrase, typically because the
+ * password was changed on the server; it can be re-keyed with the old one or discarded
  */
-export function encryptData(data: string): string {
-  if (!data) return '';
-  
+export class PassphraseMismatchError extends EncryptionError {
+  constructor() {
+    super('This passphrase does not match the data stored on this device.');
+    this.name = 'PassphraseMismatchError';
+  }
+}
+
+const ENVELOPE_VERSION = 'v1';
+const PBKDF2_ITERATIONS = 310000;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+// The salt is not secret; it is per user and device so the same passphrase re-derives the same key
+const SALT_STORAGE_PREFIX = 'encryption_salt_';
+// A known value encrypted under the key, used to detect a different passphrase
+const VERIFIER_STORAGE_PREFIX = 'encryption_verifier_';
+const VERIFIER_PLAINTEXT = 'autovaluate-key-check';
+
+let activeKey: CryptoKey | null = null;
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+}
+
+function fromBase64(text: string): Uint8Array {
+  const binary = atob(text);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+function deviceSalt(userId: string): Uint8Array {
+  const stored = localStorage.getItem(SALT_STORAGE_PREFIX + userId);
+  if (stored) return fromBase64(stored);
+
+  const salt = newSalt();
+  localStorage.setItem(SALT_STORAGE_PREFIX + userId, toBase64(salt));
+  return salt;
+}
+
+function newSalt(): Uint8Array {
+  return crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+}
+
+function requireWebCrypto(): void {
+  if (!window.crypto?.subtle) {
+    throw new EncryptionError('Web Crypto is not available. Use a modern browser over HTTPS.');
+  }
+}
+
+async function deriveKey(passphrase: string, salt: Uint8Array): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false, // Non-extractable: the raw key never leaves Web Crypto
+    ['encrypt', 'decrypt']
+  );
+}
+
+async function encryptWithKey(key: CryptoKey, data: string): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    key,
+    new TextEncoder().encode(data)
+  );
+  return `${ENVELOPE_VERSION}:${toBase64(iv)}:${toBase64(new Uint8Array(ciphertext))}`;
+}
+
+async function decryptWithKey(key: CryptoKey, envelope: string): Promise<string> {
+  const parts = envelope.split(':');
+  if (parts.length !== 3 || parts[0] !== ENVELOPE_VERSION) {
+    throw new EncryptionError(`Unsupported ciphertext envelope (${parts[0] || 'empty'})`);
+  }
+
   try {
-    const encoded = btoa(
-      data.split('').map((char, i) => 
-        String.fromCharCode(char.charCodeAt(0) ^ ENCRYPTION_KEY.charCodeAt(i % ENCRYPTION_KEY.length))
-      ).join('')
+    const plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: fromBase64(parts[1]) },
+      key,
+      fromBase64(parts[2])
     );
-    return encoded;
+    return new TextDecoder().decode(plaintext);
   } catch (error) {
-    console.error('Encryption failed:', error);
-    return data;
+    // GCM authentication failure: wrong key or tampered data
+    throw new EncryptionError('Decryption failed: wrong passphrase or corrupted data');
   }
 }
 
+function requireKey(): CryptoKey {
+  if (!activeKey) {
+    throw new EncryptionError('Encryption is locked. Please log in again.');
+  }
+  return activeKey;
+}
+
 /**
- * Decrypt data encrypted with encryptData
+ * Derive the session key from the user's login passphrase
+ * Each user has their own key; throws if this user's data on this device was
+ * encrypted under a different passphrase
  */
-export function decryptData(encryptedData: string): string {
-  if (!encryptedData) return '';
-  
-  try {
-    const decoded = atob(encryptedData);
-    const decrypted = decoded.split('').map((char, i) => 
-      String.fromCharCode(char.charCodeAt(0) ^ ENCRYPTION_KEY.charCodeAt(i % ENCRYPTION_KEY.length))
-    ).join('');
-    return decrypted;
-  } catch (error) {
-    console.error('Decryption failed:', error);
-    return '';
+export async function unlockEncryption(passphrase: string, userId: string): Promise<void> {
+  requireWebCrypto();
+
+  const key = await deriveKey(passphrase, deviceSalt(userId));
+  const verifierKey = VERIFIER_STORAGE_PREFIX + userId;
+  const verifier = localStorage.getItem(verifierKey);
+
+  if (verifier) {
+    const check = await decryptWithKey(key, verifier).catch(() => null);
+    if (check !== VERIFIER_PLAINTEXT) {
+      throw new PassphraseMismatchError();
+    }
+  } else {
+    localStorage.setItem(verifierKey, await encryptWithKey(key, VERIFIER_PLAINTEXT));
+  }
+
+  activeKey = key;
+}
+
+/**
+ * Moving a user's data from an old passphrase to a new one
+ * `reencrypt` converts one envelope; nothing is stored until `commit`, which saves the
+ * new salt and verifier and unlocks with the new key
+ */
+export interface Rekey {
+  reencrypt(envelope: string): Promise<string>;
+  commit(): void;
+}
+
+/**
+ * Check the old passphrase against this device's verifier and prepare the new key
+ * Throws PassphraseMismatchError when the old passphrase is wrong too
+ */
+export async function beginRekey(oldPassphrase: string, newPassphrase: string, userId: string): Promise<Rekey> {
+  requireWebCrypto();
+
+  const verifier = localStorage.getItem(VERIFIER_STORAGE_PREFIX + userId);
+  const oldKey = await deriveKey(oldPassphrase, deviceSalt(userId));
+  const check = verifier ? await decryptWithKey(oldKey, verifier).catch(() => null) : null;
+  if (check !== VERIFIER_PLAINTEXT) {
+    throw new PassphraseMismatchError();
   }
+
+  const salt = newSalt();
+  const newKey = await deriveKey(newPassphrase, salt);
+  const newVerifier = await encryptWithKey(newKey, VERIFIER_PLAINTEXT);
+
+  return {
+    reencrypt: async envelope => encryptWithKey(newKey, await decryptWithKey(oldKey, envelope)),
+    commit: () => {
+      localStorage.setItem(SALT_STORAGE_PREFIX + userId, toBase64(salt));
+      localStorage.setItem(VERIFIER_STORAGE_PREFIX + userId, newVerifier);
+      activeKey = newKey;
+    },
+  };
+}
+
+/**
+ * Drop this user's salt and verifier and unlock under a fresh key
+ * Whatever was encrypted under the old key can no longer be read
+ */
+export async function resetEncryption(passphrase: string, userId: string): Promise<void> {
+  localStorage.removeItem(SALT_STORAGE_PREFIX + userId);
+  localStorage.removeItem(VERIFIER_STORAGE_PREFIX + userId);
+  await unlockEncryption(passphrase, userId);
+}
+
+/**
+ * Forget the session key; stored ciphertext stays unreadable until the next login
+ */
+export function lockEncryption(): void {
+  activeKey = null;
+}
+
+export function isEncryptionUnlocked(): boolean {
+  return activeKey !== null;
 }
 
 /**
- * Securely store encrypted data in sessionStorage
+ * Encrypt into a versioned envelope; throws EncryptionError when locked
  */
-export function secureStore(key: string, data: string): void {
-  const encrypted = encryptData(data);
-  sessionStorage.setItem(key, encrypted);
+export async function encryptData(data: string): Promise<string> {
+  return encryptWithKey(requireKey(), data);
 }
 
 /**
- * Retrieve and decrypt data from sessionStorage
+ * Decrypt an envelope produced by encryptData; throws EncryptionError on any failure
  */
-export function secureRetrieve(key: string): string {
-  const encrypted = sessionStorage.getItem(key);
-  if (!encrypted) return '';
-  return decryptData(encrypted);
+export async function decryptData(envelope: string): Promise<string> {
+  return decryptWithKey(requireKey(), envelope);
 }
 
 /**
- * Clear all secure data from sessionStorage
+ * Clear all secure data from sessionStorage and drop the key
  */
 export function clearSecureData(): void {
   sessionStorage.clear();
+  lockEncryption();
 }
@@ -0,0 +1,44 @@
+import * as XLSX from 'xlsx';
+import { describe, expect, it } from 'vitest';
+import { readXlsxRows } from './historyIngestion';
+
+// Excel serial for 5 March 2023
+const MARCH_5_2023 = 44990;
+
+function workbook(rows: Array<Array<string | number>>, formats: Record<string, string>): ArrayBuffer {
+  const sheet = XLSX.utils.aoa_to_sheet(rows);
+  Object.entries(formats).forEach(([address, format]) => {
+    sheet[address].z = format;
+  });
+  const book = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(book, sheet, 'Sales');
+  return XLSX.write(book, { type: 'array', bookType: 'xlsx' });
+}
+
+describe('readXlsxRows', () => {
+  it('reads date cells as ISO dates whatever their display format', async () => {
+    const buffer = workbook(
+      [
+        ['Purchase date', 'Sale date', 'Listed'],
+        [MARCH_5_2023, MARCH_5_2023, MARCH_5_2023],
+      ],
+      { A2: 'm/d/yy', B2: 'mm/dd/yyyy', C2: 'dd-mmm-yyyy' }
+    );
+
+    const rows = await readXlsxRows(buffer);
+
+    expect(rows[1]).toEqual(['2023-03-05', '2023-03-05', '2023-03-05']);
+  });
+
+  it('keeps other cells as formatted text', async () => {
+    const buffer = workbook(
+      [
+        ['Model', 'Price', 'Margin'],
+        ['Swift VXi', 520000, 0.12],
+      ],
+      { B2: '#,##0', C2: '0%' }
+    );
+
+    expect((await readXlsxRows(buffer))[1]).toEqual(['Swift VXi', '520,000', '12%']);
+  });
+});
@@ -0,0 +1,414 @@
+/**
+ * Sales history ingestion pipeline
+ * CSV / XLSX -> raw rows -> explicit column mapping -> typed HistoricalRecords
+ * Rows that cannot be used are reported with a reason instead of being silently dropped.
+ */
+
+import { FuelType, HistoricalRecord, Transmission } from '../types';
+import { parseCsv } from './csvParser';
+import { parseIndianNumber, parsePercentage } from './indianNumber';
+import { daysBetween, parseIndianDate } from './dateParser';
+
+export type HistoryField =
+  | 'brand'
+  | 'model'
+  | 'variant'
+  | 'year'
+  | 'fuel'
+  | 'transmission'
+  | 'kmDriven'
+  | 'ownership'
+  | 'location'
+  | 'boughtPrice'
+  | 'soldPrice'
+  | 'netMargin'
+  | 'date'
+  | 'boughtDate'
+  | 'soldDate'
+  | 'daysToSell'
+  | 'refurbCost'
+  | 'incentives';
+
+/**
+ * Field -> zero-based column index
+ */
+export type ColumnMapping = Partial<Record<HistoryField, number>>;
+
+export interface RejectedRow {
+  rowNumber: number; // 1-based, as shown in the spreadsheet (header is row 1)
+  reason: string;
+  values: string[];
+}
+
+export interface IngestionResult {
+  headers: string[];
+  mapping: ColumnMapping;
+  records: HistoricalRecord[];
+  rejected: RejectedRow[];
+  totalRows: number;
+}
+
+export const HISTORY_FIELDS: HistoryField[] = [
+  'brand',
+  'model',
+  'variant',
+  'year',
+  'fuel',
+  'transmission',
+  'kmDriven',
+  'ownership',
+  'location',
+  'boughtPrice',
+  'soldPrice',
+  'netMargin',
+  'date',
+  'boughtDate',
+  'soldDate',
+  'daysToSell',
+  'refurbCost',
+  'incentives',
+];
+
+export const HISTORY_FIELD_LABELS: Record<HistoryField, string> = {
+  brand: 'Brand',
+  model: 'Model',
+  variant: 'Variant',
+  year: 'Year',
+  fuel: 'Fuel',
+  transmission: 'Transmission',
+  kmDriven: 'KM Driven',
+  ownership: 'Owners',
+  location: 'Location',
+  boughtPrice: 'Bought Price',
+  soldPrice: 'Sold Price',
+  netMargin: 'Net Margin',
+  date: 'Date',
+  boughtDate: 'Bought Date',
+  soldDate: 'Sold Date',
+  daysToSell: 'Days to Sell',
+  refurbCost: 'Refurb Cost',
+  incentives: 'Incentives',
+};
+
+/**
+ * Accepted header spellings per field, compared after normalisation
+ * (lowercase, letters and digits only). Exact matches only - "Sale Date" is a date, not a price.
+ */
+const HEADER_ALIASES: Record<HistoryField, string[]> = {
+  brand: ['brand', 'make', 'manufacturer', 'oem'],
+  model: ['model', 'modelname', 'carmodel'],
+  variant: ['variant', 'trim', 'version', 'variantname'],
+  year: ['year', 'mfgyear', 'manufacturingyear', 'modelyear', 'regyear', 'registrationyear'],
+  fuel: ['fuel', 'fueltype'],
+  transmission: ['transmission', 'gearbox', 'trans'],
+  kmDriven: ['km', 'kms', 'kmdriven', 'kmsdriven', 'odometer', 'mileage'],
+  ownership: ['owner', 'owners', 'ownership', 'noofowners', 'ownerno'],
+  location: ['location', 'city', 'rto', 'rtocity'],
+  boughtPrice: ['boughtprice', 'bought', 'purchaseprice', 'purchase', 'buyprice', 'buyingprice', 'costprice'],
+  soldPrice: ['soldprice', 'sold', 'saleprice', 'sellingprice', 'salesprice'],
+  netMargin: ['netmargin', 'netmarginafterincentive', 'margin', 'marginpct', 'marginpercent'],
+  date: ['date', 'transactiondate', 'dealdate'],
+  boughtDate: ['boughtdate', 'purchasedate', 'buydate', 'procurementdate', 'stockindate', 'indate'],
+  soldDate: ['solddate', 'saledate', 'sellingdate', 'deliverydate', 'outdate'],
+  daysToSell: ['daystosell', 'daysinstock', 'daystosale', 'stockdays', 'holdingdays', 'ageing', 'aging'],
+  refurbCost: ['refurb', 'refurbcost', 'refurbishment', 'refurbishmentcost', 'reconditioning', 'recon', 'repaircost'],
+  incentives: ['incentive', 'incentives', 'dealerincentive', 'payout', 'bonus'],
+};
+
+export function normaliseHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Looser keywords used when no exact alias matches, in priority order.
+ * Date-like columns are claimed first and never fall through to a price field.
+ */
+const HEADER_KEYWORDS: Array<{ field: HistoryField; keywords: string[]; dateColumn?: boolean }> = [
+  { field: 'boughtDate', keywords: ['bought', 'purchase', 'buy', 'stockin'], dateColumn: true },
+  { field: 'soldDate', keywords: ['sold', 'sale', 'sell', 'delivery'], dateColumn: true },
+  { field: 'date', keywords: ['date'], dateColumn: true },
+  { field: 'daysToSell', keywords: ['days'] },
+  { field: 'year', keywords: ['year'] },
+  { field: 'brand', keywords: ['brand', 'make'] },
+  { field: 'model', keywords: ['model'] },
+  { field: 'variant', keywords: ['variant', 'trim'] },
+  { field: 'fuel', keywords: ['fuel'] },
+  { field: 'transmission', keywords: ['transmission', 'gear'] },
+  { field: 'kmDriven', keywords: ['km', 'odometer'] },
+  { field: 'ownership', keywords: ['owner'] },
+  { field: 'location', keywords: ['city', 'location'] },
+  { field: 'netMargin', keywords: ['margin'] },
+  { field: 'refurbCost', keywords: ['refurb', 'recon', 'repair'] },
+  { field: 'incentives', keywords: ['incentive', 'payout'] },
+  { field: 'boughtPrice', keywords: ['bought', 'purchase', 'buy', 'cost'] },
+  { field: 'soldPrice', keywords: ['sold', 'sale', 'sell'] },
+];
+
+/**
+ * Suggest a mapping from header names
+ * Exact aliases win; keywords fill the remaining fields. Each column is assigned to at most one field.
+ */
+export function suggestColumnMapping(headers: string[]): ColumnMapping {
+  const mapping: ColumnMapping = {};
+  const used = new Set<number>();
+  const normalised = headers.map(normaliseHeader);
+
+  HISTORY_FIELDS.forEach(field => {
+    const index = normalised.findIndex(
+      (header, i) => !used.has(i) && HEADER_ALIASES[field].includes(header)
+    );
+    if (index >= 0) {
+      mapping[field] = index;
+      used.add(index);
+    }
+  });
+
+  HEADER_KEYWORDS.forEach(({ field, keywords, dateColumn }) => {
+    if (mapping[field] !== undefined) return;
+    const index = normalised.findIndex(
+      (header, i) =>
+        !used.has(i) &&
+        // Date columns only map to date fields, and date fields only take date columns
+        header.includes('date') === Boolean(dateColumn) &&
+        keywords.some(keyword => header.includes(keyword))
+    );
+    if (index >= 0) {
+      mapping[field] = index;
+      used.add(index);
+    }
+  });
+
+  return mapping;
+}
+
+const FUEL_SPELLINGS: Record<string, FuelType> = {
+  petrol: FuelType.PETROL,
+  gasoline: FuelType.PETROL,
+  diesel: FuelType.DIESEL,
+  electric: FuelType.ELECTRIC,
+  ev: FuelType.ELECTRIC,
+  hybrid: FuelType.HYBRID,
+  cng: FuelType.CNG,
+  petrolcng: FuelType.CNG,
+};
+
+const TRANSMISSION_SPELLINGS: Record<string, Transmission> = {
+  manual: Transmission.MANUAL,
+  mt: Transmission.MANUAL,
+  automatic: Transmission.AUTOMATIC,
+  auto: Transmission.AUTOMATIC,
+  at: Transmission.AUTOMATIC,
+  amt: Transmission.AUTOMATIC,
+  cvt: Transmission.CVT,
+  dct: Transmission.DCT,
+  dsg: Transmission.DCT,
+};
+
+function cell(values: string[], index: number | undefined): string {
+  if (index === undefined) return '';
+  return (values[index] ?? '').trim();
+}
+
+/**
+ * Convert one data row to a record, or return the reason it was rejected
+ */
+function toRecord(values: string[], mapping: ColumnMapping): HistoricalRecord | string {
+  const record: HistoricalRecord = {};
+
+  const brand = cell(values, mapping.brand);
+  const model = cell(values, mapping.model);
+  if (!brand && !model) return 'Missing brand and model';
+  if (brand) record.brand = brand;
+  if (model) record.model = model;
+
+  const variant = cell(values, mapping.variant);
+  if (variant) record.variant = variant;
+
+  const year = cell(values, mapping.year);
+  if (year) {
+    if (!/^\d{4}$/.test(year)) return `Invalid year "${year}"`;
+    record.year = Number(year);
+  }
+
+  const fuel = cell(values, mapping.fuel);
+  if (fuel) {
+    const parsed = FUEL_SPELLINGS[normaliseHeader(fuel)];
+    if (!parsed) return `Unknown fuel type "${fuel}"`;
+    record.fuel = parsed;
+  }
+
+  const transmission = cell(values, mapping.transmission);
+  if (transmission) {
+    const parsed = TRANSMISSION_SPELLINGS[normaliseHeader(transmission)];
+    if (!parsed) return `Unknown transmission "${transmission}"`;
+    record.transmission = parsed;
+  }
+
+  const km = cell(values, mapping.kmDriven);
+  if (km) {
+    const parsed = parseIndianNumber(km.replace(/\s*kms?$/i, ''));
+    if (parsed === null || parsed < 0) return `Unparseable KM driven "${km}"`;
+    record.kmDriven = parsed;
+  }
+
+  const owners = cell(values, mapping.ownership);
+  if (owners) {
+    const match = owners.match(/^(\d+)/);
+    if (!match) return `Unparseable owner count "${owners}"`;
+    record.ownership = Number(match[1]);
+  }
+
+  const location = cell(values, mapping.location);
+  if (location) record.location = location;
+
+  const bought = cell(values, mapping.boughtPrice);
+  if (bought) {
+    const parsed = parseIndianNumber(bought);
+    if (parsed === null) return `Unparseable bought price "${bought}"`;
+    record.boughtPrice = parsed;
+  }
+
+  const sold = cell(values, mapping.soldPrice);
+  if (sold) {
+    const parsed = parseIndianNumber(sold);
+    if (parsed === null) return `Unparseable sold price "${sold}"`;
+    record.soldPrice = parsed;
+  }
+
+  const margin = cell(values, mapping.netMargin);
+  if (margin) {
+    const parsed = parsePercentage(margin);
+    if (parsed === null) return `Unparseable net margin "${margin}"`;
+    record.netMargin = parsed;
+  }
+
+  const date = cell(values, mapping.date);
+  if (date) record.date = date;
+
+  const boughtDate = cell(values, mapping.boughtDate);
+  if (boughtDate) record.boughtDate = boughtDate;
+
+  const soldDate = cell(values, mapping.soldDate);
+  if (soldDate) {
+    record.soldDate = soldDate;
+    // The sale date doubles as the transaction date for recency and trends
+    if (!record.date) record.date = soldDate;
+  }
+
+  const refurb = cell(values, mapping.refurbCost);
+  if (refurb) {
+    const parsed = parseIndianNumber(refurb);
+    if (parsed === null) return `Unparseable refurb cost "${refurb}"`;
+    record.refurbCost = parsed;
+  }
+
+  const incentives = cell(values, mapping.incentives);
+  if (incentives) {
+    const parsed = parseIndianNumber(incentives);
+    if (parsed === null) return `Unparseable incentives "${incentives}"`;
+    record.incentives = parsed;
+  }
+
+  const days = cell(values, mapping.daysToSell);
+  if (days) {
+    const parsed = parseIndianNumber(days.replace(/\s*days?$/i, ''));
+    if (parsed === null || parsed < 0) return `Unparseable days to sell "${days}"`;
+    record.daysToSell = Math.round(parsed);
+  } else {
+    const from = parseIndianDate(record.boughtDate);
+    const to = parseIndianDate(record.soldDate);
+    if (from && to) {
+      const held = daysBetween(from, to);
+      if (held < 0) return `Sold date "${record.soldDate}" is before bought date "${record.boughtDate}"`;
+      record.daysToSell = held;
+    }
+  }
+
+  return record;
+}
+
+/**
+ * Ingest raw rows (first row = headers)
+ * Uses the supplied mapping, or an auto-suggested one when none is given
+ */
+export function ingestRows(rows: string[][], mapping?: ColumnMapping): IngestionResult {
+  if (rows.length === 0) {
+    return { headers: [], mapping: {}, records: [], rejected: [], totalRows: 0 };
+  }
+
+  const headers = rows[0].map(h => h.trim());
+  const activeMapping = mapping || suggestColumnMapping(headers);
+  const records: HistoricalRecord[] = [];
+  const rejected: RejectedRow[] = [];
+
+  rows.slice(1).forEach((values, i) => {
+    const result = toRecord(values, activeMapping);
+    if (typeof result === 'string') {
+      rejected.push({ rowNumber: i + 2, reason: result, values });
+    } else {
+      records.push({ ...result, rowNumber: i + 2 });
+    }
+  });
+
+  return {
+    headers,
+    mapping: activeMapping,
+    records,
+    rejected,
+    totalRows: rows.length - 1,
+  };
+}
+
+/**
+ * Read raw rows from CSV text
+ */
+export function readCsvRows(text: string): string[][] {
+  return parseCsv(text);
+}
+
+/**
+ * Read raw rows from the first sheet of an XLSX/XLS workbook
+ * SheetJS is loaded on demand to keep it out of the main bundle
+ */
+export async function readXlsxRows(buffer: ArrayBuffer): Promise<string[][]> {
+  const XLSX = await import('xlsx');
+  const workbook = XLSX.read(buffer, { type: 'array', cellNF: true });
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  if (!sheet) return [];
+
+  // Date cells would otherwise be rendered with their Excel format, which is often
+  // US month-first ("3/5/23") and would be read day-first; use the date parts instead
+  Object.keys(sheet).forEach(address => {
+    const cell = sheet[address];
+    if (address.startsWith('!') || cell.t !== 'n' || !cell.z || !XLSX.SSF.is_date(cell.z)) return;
+    const { y, m, d } = XLSX.SSF.parse_date_code(cell.v);
+    cell.w = `${y}-${String(m).padStart(2, '0')}-${String(d).padStart(2, '0')}`;
+  });
+
+  const rows = XLSX.utils.sheet_to_json<unknown[]>(sheet, {
+    header: 1,
+    raw: false, // Formatted text, so dates and amounts match what users see
+    defval: '',
+    blankrows: false,
+  });
+
+  return rows.map(row => row.map(value => String(value ?? '')));
+}
+
+export function ingestCsv(text: string, mapping?: ColumnMapping): IngestionResult {
+  return ingestRows(readCsvRows(text), mapping);
+}
+
+export async function ingestXlsx(buffer: ArrayBuffer, mapping?: ColumnMapping): Promise<IngestionResult> {
+  return ingestRows(await readXlsxRows(buffer), mapping);
+}
+
+/**
+ * Read a user-selected file (.csv, .xlsx, .xls) into raw rows
+ */
+export async function readFileRows(file: File): Promise<string[][]> {
+  if (/\.(xlsx|xls)$/i.test(file.name)) {
+    return readXlsxRows(await file.arrayBuffer());
+  }
+  return readCsvRows(await file.text());
+}
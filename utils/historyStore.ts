@@ -0,0 +1,29 @@
+/**
+ * Encrypted persistence for the loaded sales history
+ * Survives a page reload (after logging in again) but is wiped on logout and timeout.
+ */
+
+import { IngestionResult } from './historyIngestion';
+import { STORES } from './indexedDb';
+import { secureDelete, secureGet, secureSet } from './secureStorage';
+
+export interface HistorySnapshot {
+  rawRows: string[][] | null; // Kept so the column mapping can still be edited
+  ingestion: IngestionResult;
+  mappingSource: string | null;
+  fileName: string;
+}
+
+const SNAPSHOT_ID = 'current';
+
+export function saveHistorySnapshot(snapshot: HistorySnapshot): Promise<void> {
+  return secureSet(STORES.history, SNAPSHOT_ID, snapshot, { savedAt: Date.now() });
+}
+
+export function loadHistorySnapshot(): Promise<HistorySnapshot | null> {
+  return secureGet<HistorySnapshot>(STORES.history, SNAPSHOT_ID);
+}
+
+export function clearHistorySnapshot(): Promise<void> {
+  return secureDelete(STORES.history, SNAPSHOT_ID);
+}
@@ -0,0 +1,79 @@
+/**
+ * Minimal promise wrapper around IndexedDB
+ * One database for the app; each feature owns an object store keyed by `id`.
+ */
+
+const DB_NAME = 'autovaluate';
+const DB_VERSION = 2; // Bump when adding a store
+
+export const STORES = {
+  valuationLog: 'valuation_log',
+  history: 'history',
+  valuationCache: 'valuation_cache',
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      Object.values(STORES).forEach(store => {
+        if (!db.objectStoreNames.contains(store)) {
+          db.createObjectStore(store, { keyPath: 'id' });
+        }
+      });
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+
+  return dbPromise;
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withStore<T>(
+  store: StoreName,
+  mode: IDBTransactionMode,
+  run: (objectStore: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  const tx = db.transaction(store, mode);
+  return promisify(run(tx.objectStore(store)));
+}
+
+export function idbPut<T extends { id: string }>(store: StoreName, value: T): Promise<IDBValidKey> {
+  return withStore(store, 'readwrite', s => s.put(value));
+}
+
+export function idbGet<T>(store: StoreName, id: string): Promise<T | undefined> {
+  return withStore(store, 'readonly', s => s.get(id));
+}
+
+export function idbGetAll<T>(store: StoreName): Promise<T[]> {
+  return withStore(store, 'readonly', s => s.getAll());
+}
+
+export function idbDelete(store: StoreName, id: string): Promise<undefined> {
+  return withStore(store, 'readwrite', s => s.delete(id));
+}
+
+export function idbClear(store: StoreName): Promise<undefined> {
+  return withStore(store, 'readwrite', s => s.clear());
+}
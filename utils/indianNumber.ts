@@ -0,0 +1,61 @@
+/**
+ * Indian number normalisation
+ * Converts "4,50,000", "₹4.5L", "Rs. 4.5 Lakh", "1.2 Cr", "85k" and "(12,000)" to plain numbers.
+ */
+
+const UNIT_MULTIPLIERS: Array<{ pattern: RegExp; multiplier: number }> = [
+  { pattern: /(crores?|cr)$/, multiplier: 10000000 },
+  { pattern: /(lakhs?|lacs?|lac|l)$/, multiplier: 100000 },
+  { pattern: /(thousand|k)$/, multiplier: 1000 },
+];
+
+/**
+ * Parse an Indian-formatted amount
+ * Returns null when the value is empty or not a number
+ */
+export function parseIndianNumber(raw: string | number | undefined | null): number | null {
+  if (raw === undefined || raw === null) return null;
+  if (typeof raw === 'number') return Number.isFinite(raw) ? raw : null;
+
+  let value = raw.trim().toLowerCase();
+  if (!value) return null;
+
+  // Accounting negatives: (12,000)
+  let sign = 1;
+  if (/^\(.*\)$/.test(value)) {
+    sign = -1;
+    value = value.slice(1, -1).trim();
+  }
+  if (value.startsWith('-')) {
+    sign = -sign;
+    value = value.slice(1).trim();
+  }
+
+  // Currency markers
+  value = value.replace(/^(₹|rs\.?|inr)\s*/, '').replace(/\s*(₹|rs\.?|inr|\/-)$/, '');
+  value = value.replace(/,/g, '').replace(/\s+/g, '');
+
+  let multiplier = 1;
+  for (const unit of UNIT_MULTIPLIERS) {
+    if (unit.pattern.test(value)) {
+      multiplier = unit.multiplier;
+      value = value.replace(unit.pattern, '');
+      break;
+    }
+  }
+
+  if (!/^\d*\.?\d+$/.test(value)) return null;
+
+  const parsed = parseFloat(value);
+  if (!Number.isFinite(parsed)) return null;
+
+  return sign * Math.round(parsed * multiplier * 100) / 100;
+}
+
+/**
+ * Parse a percentage such as "12%" or "12.5 %"
+ */
+export function parsePercentage(raw: string | undefined | null): number | null {
+  if (raw === undefined || raw === null) return null;
+  return parseIndianNumber(raw.replace('%', ''));
+}
@@ -0,0 +1,78 @@
+/**
+ * Vehicle inspection checklist
+ * Options, labels and validation for the condition fields on CarDetails.
+ * The costs and deductions each answer leads to live on the server (server/inspectionCosts.ts).
+ */
+
+import { AccidentHistory, InsuranceType, ServiceHistory, VehicleCondition } from '../types';
+
+export const DEFAULT_CONDITION: VehicleCondition = {
+  accident: 'none',
+  repaintedPanels: 0,
+  tyreLifePct: 60,
+  serviceHistory: 'full_dealer',
+  insurance: 'comprehensive',
+  insuranceClaims: 0,
+  floodDamage: false,
+};
+
+export const ACCIDENT_LABELS: Record<AccidentHistory, string> = {
+  none: 'No accident',
+  minor: 'Minor (bumper, door, scratches)',
+  major: 'Major (airbags, several panels)',
+  structural: 'Structural (pillars, chassis)',
+};
+
+export const SERVICE_LABELS: Record<ServiceHistory, string> = {
+  full_dealer: 'Full authorised-dealer history',
+  partial: 'Partial or outside workshops',
+  none: 'No records',
+};
+
+export const INSURANCE_LABELS: Record<InsuranceType, string> = {
+  zero_dep: 'Zero depreciation',
+  comprehensive: 'Comprehensive',
+  third_party: 'Third party only',
+  expired: 'Expired',
+};
+
+const isOption = (labels: Record<string, string>, value: unknown) =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(labels, value);
+
+const isCount = (value: unknown, max: number) =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 0 && value <= max;
+
+/**
+ * Shape check for an untrusted condition object; empty when valid
+ */
+export function conditionIssues(condition: any): string[] {
+  if (!condition || typeof condition !== 'object') return ['car.condition must be an object'];
+
+  const issues: string[] = [];
+  if (!isOption(ACCIDENT_LABELS, condition.accident)) issues.push('car.condition.accident is not a known value');
+  if (!isOption(SERVICE_LABELS, condition.serviceHistory)) issues.push('car.condition.serviceHistory is not a known value');
+  if (!isOption(INSURANCE_LABELS, condition.insurance)) issues.push('car.condition.insurance is not a known value');
+  if (!isCount(condition.repaintedPanels, 20)) issues.push('car.condition.repaintedPanels must be 0-20');
+  if (!isCount(condition.insuranceClaims, 10)) issues.push('car.condition.insuranceClaims must be 0-10');
+  if (typeof condition.tyreLifePct !== 'number' || condition.tyreLifePct < 0 || condition.tyreLifePct > 100) {
+    issues.push('car.condition.tyreLifePct must be 0-100');
+  }
+  if (typeof condition.floodDamage !== 'boolean') issues.push('car.condition.floodDamage must be true or false');
+  return issues;
+}
+
+/**
+ * Compact, stable form for cache keys; tyre life in 25% steps so small differences share an entry
+ */
+export function conditionKey(condition: VehicleCondition | undefined): string {
+  if (!condition) return 'uninspected';
+  return [
+    condition.accident,
+    condition.repaintedPanels,
+    Math.min(3, Math.floor(condition.tyreLifePct / 25)),
+    condition.serviceHistory,
+    condition.insurance,
+    condition.insuranceClaims,
+    condition.floodDamage ? 'flood' : 'dry',
+  ].join('.');
+}
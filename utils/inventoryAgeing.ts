@@ -0,0 +1,92 @@
+/**
+ * Inventory ageing
+ * Days-to-sell, holding cost and true net margin for past deals, plus the
+ * expected days-to-sell for a model so slow movers can be priced lower.
+ */
+
+import { CarDetails, DaysToSellEstimate, HistoricalRecord } from '../types';
+import { brandsMatch, modelsMatch } from './nameMatching';
+
+export interface HoldingCostConfig {
+  annualInterestPct: number; // Cost of capital tied up in the car
+  perDayCost: number; // Parking, insurance, upkeep (₹/day)
+}
+
+export const DEFAULT_HOLDING_COST: HoldingCostConfig = {
+  annualInterestPct: 12,
+  perDayCost: 150,
+};
+
+// Need at least this many model-level deals before falling back to the brand
+const MIN_MODEL_SAMPLES = 3;
+
+// Longest days-to-sell the valuation API accepts; older stock is capped to it
+export const MAX_DAYS_TO_SELL = 730;
+
+/**
+ * Cost of holding a car in stock for its days-to-sell (0 if unknown)
+ */
+export function holdingCost(
+  record: HistoricalRecord,
+  config: HoldingCostConfig = DEFAULT_HOLDING_COST
+): number {
+  if (!record.daysToSell || !record.boughtPrice) return 0;
+  const interest = record.boughtPrice * (config.annualInterestPct / 100) * (record.daysToSell / 365);
+  return interest + config.perDayCost * record.daysToSell;
+}
+
+/**
+ * Net margin % after refurbishment, incentives and holding cost
+ * Returns null when bought or sold price is missing
+ */
+export function netMarginAfterHolding(
+  record: HistoricalRecord,
+  config: HoldingCostConfig = DEFAULT_HOLDING_COST
+): number | null {
+  if (!record.boughtPrice || !record.soldPrice || record.boughtPrice <= 0) return null;
+
+  const profit =
+    record.soldPrice +
+    (record.incentives || 0) -
+    record.boughtPrice -
+    (record.refurbCost || 0) -
+    holdingCost(record, config);
+
+  return (profit / record.boughtPrice) * 100;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+/**
+ * Median days-to-sell for this model, falling back to the brand
+ */
+export function expectedDaysToSell(
+  records: HistoricalRecord[],
+  car: Pick<CarDetails, 'brand' | 'model'>
+): DaysToSellEstimate | null {
+  const withDays = records.filter(r => r.daysToSell !== undefined && brandsMatch(r.brand, car.brand));
+
+  const modelDays = withDays.filter(r => modelsMatch(r.model, car.model)).map(r => r.daysToSell!);
+  if (modelDays.length >= MIN_MODEL_SAMPLES) {
+    return {
+      days: Math.min(MAX_DAYS_TO_SELL, Math.round(median(modelDays))),
+      sampleSize: modelDays.length,
+      description: `Median of ${modelDays.length} ${car.brand} ${car.model} sales`,
+    };
+  }
+
+  const brandDays = withDays.map(r => r.daysToSell!);
+  if (brandDays.length >= MIN_MODEL_SAMPLES) {
+    return {
+      days: Math.min(MAX_DAYS_TO_SELL, Math.round(median(brandDays))),
+      sampleSize: brandDays.length,
+      description: `Median of ${brandDays.length} ${car.brand} sales (brand average)`,
+    };
+  }
+
+  return null;
+}
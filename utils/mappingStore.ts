@@ -0,0 +1,54 @@
+/**
+ * Saved column mappings per sheet
+ * Remembers how each Google Sheet's columns map to history fields so the
+ * wizard only appears again when the sheet's headers change.
+ */
+
+import { ColumnMapping, normaliseHeader } from './historyIngestion';
+
+const MAPPING_PREFIX = 'column_mapping_';
+
+interface SavedMapping {
+  headerSignature: string;
+  mapping: ColumnMapping;
+  savedAt: number;
+}
+
+function headerSignature(headers: string[]): string {
+  return headers.map(normaliseHeader).join('|');
+}
+
+/**
+ * Save the confirmed mapping for a sheet URL
+ */
+export function saveColumnMapping(sourceUrl: string, headers: string[], mapping: ColumnMapping): void {
+  try {
+    const saved: SavedMapping = {
+      headerSignature: headerSignature(headers),
+      mapping,
+      savedAt: Date.now(),
+    };
+    localStorage.setItem(MAPPING_PREFIX + sourceUrl, JSON.stringify(saved));
+  } catch (error) {
+    console.warn('Failed to save column mapping:', error);
+  }
+}
+
+/**
+ * Load the saved mapping for a sheet URL
+ * Returns null if none is saved or the sheet's headers have changed since
+ */
+export function loadColumnMapping(sourceUrl: string, headers: string[]): ColumnMapping | null {
+  try {
+    const savedStr = localStorage.getItem(MAPPING_PREFIX + sourceUrl);
+    if (!savedStr) return null;
+
+    const saved: SavedMapping = JSON.parse(savedStr);
+    if (saved.headerSignature !== headerSignature(headers)) return null;
+
+    return saved.mapping;
+  } catch (error) {
+    console.warn('Failed to load column mapping:', error);
+    return null;
+  }
+}
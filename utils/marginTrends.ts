@@ -0,0 +1,123 @@
+/**
+ * Date-aware margin analysis
+ * Sorts transactions by date, buckets margins per month or quarter and
+ * weights recent deals more heavily than old ones.
+ */
+
+import { HistoricalRecord, MarginTrendPoint } from '../types';
+import { parseIndianDate, timeDecayWeight } from './dateParser';
+import { netMarginAfterHolding } from './inventoryAgeing';
+
+export type TrendPeriod = 'month' | 'quarter';
+
+export const DEFAULT_MARGIN_HALF_LIFE_DAYS = 180;
+
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+/**
+ * Margin % for a record: the sheet's net margin if present, otherwise
+ * computed after refurbishment, incentives and holding cost
+ */
+export function recordMargin(record: HistoricalRecord): number | null {
+  if (record.netMargin !== undefined && !isNaN(record.netMargin)) return record.netMargin;
+  return netMarginAfterHolding(record);
+}
+
+/**
+ * Most recent first; undated records go last in their original order
+ */
+export function sortByDateDesc(records: HistoricalRecord[]): HistoricalRecord[] {
+  return records
+    .map((record, index) => ({ record, index, time: parseIndianDate(record.date)?.getTime() }))
+    .sort((a, b) => {
+      if (a.time === undefined && b.time === undefined) return a.index - b.index;
+      if (a.time === undefined) return 1;
+      if (b.time === undefined) return -1;
+      return b.time - a.time;
+    })
+    .map(item => item.record);
+}
+
+/**
+ * Time-decayed average margin; recent deals dominate
+ */
+export function weightedAverageMargin(
+  records: HistoricalRecord[],
+  halfLifeDays: number = DEFAULT_MARGIN_HALF_LIFE_DAYS,
+  referenceDate?: Date
+): { margin: number; count: number } | null {
+  let weightedSum = 0;
+  let totalWeight = 0;
+  let count = 0;
+
+  records.forEach(record => {
+    const margin = recordMargin(record);
+    if (margin === null) return;
+    const weight = timeDecayWeight(record.date, halfLifeDays, { referenceDate });
+    weightedSum += margin * weight;
+    totalWeight += weight;
+    count++;
+  });
+
+  if (count === 0 || totalWeight === 0) return null;
+  return { margin: weightedSum / totalWeight, count };
+}
+
+function periodKey(date: Date, period: TrendPeriod): { key: string; label: string } {
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth();
+  if (period === 'month') {
+    return {
+      key: `${year}-${String(month + 1).padStart(2, '0')}`,
+      label: `${MONTH_NAMES[month]} ${String(year).slice(2)}`,
+    };
+  }
+  const quarter = Math.floor(month / 3) + 1;
+  return { key: `${year}-Q${quarter}`, label: `Q${quarter} ${String(year).slice(2)}` };
+}
+
+/**
+ * Pick monthly buckets for short histories and quarterly ones beyond a year
+ */
+export function choosePeriod(records: HistoricalRecord[]): TrendPeriod {
+  const times = records
+    .map(r => parseIndianDate(r.date)?.getTime())
+    .filter((t): t is number => t !== undefined);
+  if (times.length === 0) return 'month';
+
+  const spanDays = (Math.max(...times) - Math.min(...times)) / (24 * 60 * 60 * 1000);
+  return spanDays > 366 ? 'quarter' : 'month';
+}
+
+/**
+ * Average margin and days-to-sell per period, oldest first
+ */
+export function buildMarginTrend(records: HistoricalRecord[], period: TrendPeriod): MarginTrendPoint[] {
+  const buckets = new Map<string, { label: string; margins: number[]; days: number[] }>();
+
+  records.forEach(record => {
+    const date = parseIndianDate(record.date);
+    if (!date) return;
+
+    const { key, label } = periodKey(date, period);
+    if (!buckets.has(key)) buckets.set(key, { label, margins: [], days: [] });
+    const bucket = buckets.get(key)!;
+
+    const margin = recordMargin(record);
+    if (margin !== null) bucket.margins.push(margin);
+    if (record.daysToSell !== undefined) bucket.days.push(record.daysToSell);
+  });
+
+  const average = (values: number[]) =>
+    values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : null;
+
+  return [...buckets.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([period, bucket]) => ({
+      period,
+      label: bucket.label,
+      count: Math.max(bucket.margins.length, bucket.days.length),
+      avgMargin: average(bucket.margins),
+      avgDaysToSell: average(bucket.days),
+    }));
+}
@@ -0,0 +1,74 @@
+/**
+ * Brand / model name matching
+ * Treats "Maruti" / "Maruti Suzuki" / "MSIL" and "i20" / "I-20" as the same car.
+ */
+
+/**
+ * Known brand spellings -> canonical brand name
+ * Keys are compact keys (see compactKey)
+ */
+const BRAND_ALIASES: Record<string, string> = {
+  maruti: 'Maruti Suzuki',
+  marutisuzuki: 'Maruti Suzuki',
+  msil: 'Maruti Suzuki',
+  suzuki: 'Maruti Suzuki',
+  hyundai: 'Hyundai',
+  hyundaimotor: 'Hyundai',
+  tata: 'Tata',
+  tatamotors: 'Tata',
+  mahindra: 'Mahindra',
+  mahindramahindra: 'Mahindra',
+  mm: 'Mahindra',
+  honda: 'Honda',
+  hondacars: 'Honda',
+  toyota: 'Toyota',
+  toyotakirloskar: 'Toyota',
+  kia: 'Kia',
+  kiamotors: 'Kia',
+  mg: 'MG',
+  mgmotor: 'MG',
+  vw: 'Volkswagen',
+  volkswagen: 'Volkswagen',
+  skoda: 'Skoda',
+  renault: 'Renault',
+  nissan: 'Nissan',
+  ford: 'Ford',
+  mercedes: 'Mercedes-Benz',
+  mercedesbenz: 'Mercedes-Benz',
+  merc: 'Mercedes-Benz',
+  bmw: 'BMW',
+  audi: 'Audi',
+};
+
+/**
+ * Lowercase, letters and digits only: "I-20 " -> "i20"
+ */
+export function compactKey(name: string | undefined): string {
+  return (name || '').toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Canonical brand name for a spelling, or the trimmed input if unknown
+ */
+export function canonicalBrand(brand: string | undefined): string {
+  const key = compactKey(brand);
+  return BRAND_ALIASES[key] || (brand || '').trim();
+}
+
+export function brandKey(brand: string | undefined): string {
+  return compactKey(canonicalBrand(brand));
+}
+
+export function modelKey(model: string | undefined): string {
+  return compactKey(model);
+}
+
+export function brandsMatch(a: string | undefined, b: string | undefined): boolean {
+  const keyA = brandKey(a);
+  return keyA !== '' && keyA === brandKey(b);
+}
+
+export function modelsMatch(a: string | undefined, b: string | undefined): boolean {
+  const keyA = modelKey(a);
+  return keyA !== '' && keyA === modelKey(b);
+}
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { can, isUserRole } from './permissions';
+
+describe('isUserRole', () => {
+  it('accepts the configured roles', () => {
+    expect(['buyer', 'manager', 'admin'].every(isUserRole)).toBe(true);
+  });
+
+  it('rejects prototype keys and other values', () => {
+    ['toString', 'constructor', '__proto__', 'hasOwnProperty', 'Admin', '', null, 1].forEach(value => {
+      expect(isUserRole(value)).toBe(false);
+    });
+  });
+});
+
+describe('can', () => {
+  it('grants margins to managers but not buyers', () => {
+    expect(can({ role: 'manager' }, 'view_margins')).toBe(true);
+    expect(can({ role: 'buyer' }, 'view_margins')).toBe(false);
+    expect(can(null, 'view_margins')).toBe(false);
+  });
+
+  it('lets only managers and admins force live quotes past the cache', () => {
+    expect(can({ role: 'buyer' }, 'refresh_cache')).toBe(false);
+    expect(can({ role: 'manager' }, 'refresh_cache')).toBe(true);
+    expect(can({ role: 'admin' }, 'refresh_cache')).toBe(true);
+  });
+
+  it('keeps per-user usage and cache rules to admins', () => {
+    (['view_user_usage', 'manage_cache_rules'] as const).forEach(permission => {
+      expect(can({ role: 'admin' }, permission)).toBe(true);
+      expect(can({ role: 'manager' }, permission)).toBe(false);
+      expect(can({ role: 'buyer' }, permission)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,38 @@
+/**
+ * Role-based permissions
+ * Shared by the UI (what to show) and the server (what to return).
+ */
+
+import { AuthUser, UserRole } from '../types';
+
+export type Permission =
+  | 'view_margins' // Raw P&L: historical margins, bought/sold prices of comparables
+  | 'upload_history' // Connect or upload the sales history sheet
+  | 'view_audit_log'
+  | 'view_costs' // Dealership-wide model usage and spend
+  | 'refresh_cache' // Force a live (billed) quote by refreshing or deleting cached results
+  | 'view_user_usage' // Usage and spend of every user, not only the caller
+  | 'manage_cache_rules'; // How long cached quotes are kept
+
+const MANAGER_PERMISSIONS: Permission[] = ['view_margins', 'upload_history', 'view_audit_log', 'view_costs', 'refresh_cache'];
+
+const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  buyer: [],
+  manager: MANAGER_PERMISSIONS,
+  admin: [...MANAGER_PERMISSIONS, 'view_user_usage', 'manage_cache_rules'],
+};
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  buyer: 'Buyer',
+  manager: 'Manager',
+  admin: 'Admin',
+};
+
+export function isUserRole(value: unknown): value is UserRole {
+  // Own keys only: `in` would also accept "toString", "constructor" and the like
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(ROLE_PERMISSIONS, value);
+}
+
+export function can(user: Pick<AuthUser, 'role'> | null | undefined, permission: Permission): boolean {
+  return !!user && ROLE_PERMISSIONS[user.role].includes(permission);
+}
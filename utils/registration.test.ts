@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { normaliseRegion, parseRegistration, stateTransfer } from './registration';
+
+describe('parseRegistration', () => {
+  it('parses a state-series plate with a listed RTO', () => {
+    expect(parseRegistration('mh-02 ab 1234')).toEqual({
+      number: 'MH 02 AB 1234',
+      series: 'state',
+      stateCode: 'MH',
+      state: 'Maharashtra',
+      rtoCode: 'MH-02',
+      rto: { office: 'Mumbai West (Andheri)', city: 'Mumbai' },
+    });
+  });
+
+  it('knows the state of every state and union territory, even without the RTO', () => {
+    expect(parseRegistration('OD02AB1234')).toMatchObject({ stateCode: 'OD', state: 'Odisha', rtoCode: 'OD-02' });
+    expect(parseRegistration('BR 99 X 1')).toMatchObject({ stateCode: 'BR', state: 'Bihar', rto: undefined });
+    ['JH01AB1234', 'AS01AB1234', 'UK07AB1234', 'HP03AB1234', 'JK02AB1234', 'CG04AB1234', 'LA01A1234'].forEach(plate => {
+      expect(parseRegistration(plate)?.state).toBeTruthy();
+    });
+  });
+
+  it('maps older state codes to the current state', () => {
+    expect(parseRegistration('OR05AB1234')).toMatchObject({ number: 'OR 05 AB 1234', stateCode: 'OD', state: 'Odisha' });
+    expect(parseRegistration('TG09AB1234')).toMatchObject({ stateCode: 'TS', state: 'Telangana' });
+  });
+
+  it('parses Bharat-series plates without a state', () => {
+    expect(parseRegistration('22BH1234AB')).toEqual({ number: '22 BH 1234 AB', series: 'bharat' });
+  });
+
+  it('rejects malformed plates and codes that are not states', () => {
+    ['', 'XX99', 'ZZ01AB1234', 'MH02AB12345', '1234'].forEach(plate => {
+      expect(parseRegistration(plate)).toBeNull();
+    });
+  });
+});
+
+describe('normaliseRegion', () => {
+  it('resolves aliases and state codes', () => {
+    expect(normaliseRegion('Bangalore, KA')).toEqual({ city: 'Bengaluru', stateCode: 'KA' });
+    expect(normaliseRegion('Bhubaneswar')).toEqual({ city: 'Bhubaneswar', stateCode: 'OD' });
+    expect(normaliseRegion('Maharashtra')).toEqual({ city: undefined, stateCode: 'MH' });
+  });
+});
+
+describe('stateTransfer', () => {
+  it('flags a plate from another state, including states without listed RTOs', () => {
+    expect(stateTransfer({ registration: 'OD02AB1234', location: 'Mumbai, Maharashtra' })).toEqual({
+      fromState: 'OD',
+      toState: 'MH',
+      roadTaxPct: 11,
+    });
+    expect(stateTransfer({ registration: 'BR99X1', location: 'Pune' })?.fromState).toBe('BR');
+  });
+
+  it('does not flag same-state, older-code or Bharat-series plates', () => {
+    expect(stateTransfer({ registration: 'MH12AB1234', location: 'Mumbai' })).toBeNull();
+    expect(stateTransfer({ registration: 'OR02AB1234', location: 'Bhubaneswar, Odisha' })).toBeNull();
+    expect(stateTransfer({ registration: '22BH1234AB', location: 'Mumbai' })).toBeNull();
+  });
+});
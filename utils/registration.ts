@@ -0,0 +1,178 @@
+/**
+ * Indian registration numbers and regions
+ * Parses plates like "MH02AB1234" (state MH, RTO 02 Mumbai West) and "22BH1234AB"
+ * (Bharat series) against the bundled data/rtoRegions.json, and normalises free-text
+ * locations ("Bangalore, KA") to one region so comparables, cache keys and the prompt
+ * all see the same city and state. A car registered in another state than the one it
+ * is bought in has to be re-registered, with road tax paid again in the new state.
+ */
+
+import rtoData from '../data/rtoRegions.json';
+import { CarDetails } from '../types';
+import { compactKey } from './nameMatching';
+
+export interface RtoOffice {
+  office: string;
+  city: string;
+}
+
+interface StateEntry {
+  name: string;
+  roadTaxPct: number; // Approximate one-time road tax for a mid-priced petrol car, % of value
+  rtos: Record<string, RtoOffice>;
+}
+
+interface RtoTable {
+  version: string;
+  codeAliases: Record<string, string>; // Older plate codes still on the road: "OR" -> "OD"
+  cityAliases: Record<string, string[]>;
+  states: Record<string, StateEntry>;
+}
+
+const RTO_TABLE = rtoData as RtoTable;
+
+export interface RegistrationInfo {
+  number: string; // Display form: "MH 02 AB 1234"
+  series: 'state' | 'bharat';
+  stateCode?: string; // Current code ("OD" for an "OR" plate); absent for Bharat series
+  state?: string;
+  rtoCode?: string; // "MH-02", as on the plate
+  rto?: RtoOffice; // Only when the office is in the table; the state is known regardless
+}
+
+export interface Region {
+  city?: string;
+  stateCode?: string;
+}
+
+export interface StateTransfer {
+  fromState: string;
+  toState: string;
+  roadTaxPct: number; // In the state the car is bought in
+}
+
+const STATE_SERIES = /^([A-Z]{2})(\d{1,2})([A-Z]{0,3})(\d{1,4})$/;
+const BHARAT_SERIES = /^(\d{2})BH(\d{4})([A-Z]{1,2})$/;
+
+// compactKey of a city name or alias -> canonical city and the states it is in
+const CITY_INDEX = new Map<string, { city: string; stateCodes: Set<string> }>();
+Object.entries(RTO_TABLE.states).forEach(([stateCode, entry]) => {
+  Object.values(entry.rtos).forEach(({ city }) => {
+    [city, ...(RTO_TABLE.cityAliases[city] || [])].forEach(name => {
+      const indexed = CITY_INDEX.get(compactKey(name)) || { city, stateCodes: new Set<string>() };
+      indexed.stateCodes.add(stateCode);
+      CITY_INDEX.set(compactKey(name), indexed);
+    });
+  });
+});
+
+// compactKey of a state name or code -> state code
+const STATE_INDEX = new Map<string, string>();
+Object.entries(RTO_TABLE.states).forEach(([stateCode, entry]) => {
+  STATE_INDEX.set(compactKey(entry.name), stateCode);
+  STATE_INDEX.set(compactKey(stateCode), stateCode);
+});
+Object.entries(RTO_TABLE.codeAliases).forEach(([alias, stateCode]) => STATE_INDEX.set(compactKey(alias), stateCode));
+
+export function stateName(stateCode: string | undefined): string | undefined {
+  return stateCode ? RTO_TABLE.states[stateCode]?.name : undefined;
+}
+
+export function roadTaxPct(stateCode: string): number | undefined {
+  return RTO_TABLE.states[stateCode]?.roadTaxPct;
+}
+
+/**
+ * Upper case, letters and digits only: "mh-02 ab 1234" -> "MH02AB1234"
+ */
+export function normaliseRegistration(input: string): string {
+  return input.toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
+
+/**
+ * Parse a registration number; null when it is not a valid plate
+ * Every state and union territory code is in the table, so a null means a typo rather
+ * than an unlisted state; an RTO missing from the table just leaves `rto` unset.
+ */
+export function parseRegistration(input: string | undefined): RegistrationInfo | null {
+  const plate = normaliseRegistration(input || '');
+
+  const bharat = plate.match(BHARAT_SERIES);
+  if (bharat) {
+    return { number: `${bharat[1]} BH ${bharat[2]} ${bharat[3]}`, series: 'bharat' };
+  }
+
+  const match = plate.match(STATE_SERIES);
+  if (!match) return null;
+
+  const [, plateCode, district, letters, digits] = match;
+  const stateCode = RTO_TABLE.codeAliases[plateCode] || plateCode;
+  const state = RTO_TABLE.states[stateCode];
+  if (!state) return null;
+
+  const rtoNumber = district.padStart(2, '0');
+  return {
+    number: [plateCode, rtoNumber, letters, digits].filter(Boolean).join(' '),
+    series: 'state',
+    stateCode,
+    state: state.name,
+    rtoCode: `${plateCode}-${rtoNumber}`,
+    rto: state.rtos[rtoNumber],
+  };
+}
+
+/**
+ * "Mumbai, Maharashtra" for the registering RTO, when it is in the table
+ */
+export function registeredLocation(info: RegistrationInfo): string | undefined {
+  return info.rto && info.state ? `${info.rto.city}, ${info.state}` : undefined;
+}
+
+/**
+ * City and state from free text such as "Bangalore, KA", "Mumbai" or "Andheri, Maharashtra"
+ */
+export function normaliseRegion(location: string | undefined): Region {
+  const parts = (location || '').split(',').map(part => part.trim()).filter(Boolean);
+  if (parts.length === 0) return {};
+
+  const stateCode = parts.slice(1).map(part => STATE_INDEX.get(compactKey(part))).find(Boolean)
+    || (parts.length === 1 ? STATE_INDEX.get(compactKey(parts[0])) : undefined);
+  const known = CITY_INDEX.get(compactKey(parts[0]));
+
+  if (known) {
+    const inferred = known.stateCodes.size === 1 ? Array.from(known.stateCodes)[0] : undefined;
+    return { city: known.city, stateCode: stateCode || inferred };
+  }
+  // A state on its own ("Maharashtra") is not a city
+  return { city: parts.length === 1 && stateCode ? undefined : parts[0], stateCode };
+}
+
+/**
+ * Stable key for caching: "MH:mumbai"; empty parts when unknown
+ */
+export function regionKey(location: string | undefined): string {
+  const region = normaliseRegion(location);
+  return `${region.stateCode || ''}:${compactKey(region.city)}`;
+}
+
+/**
+ * "Mumbai, Maharashtra" for known places, otherwise the text as entered
+ */
+export function formatRegion(location: string): string {
+  const region = normaliseRegion(location);
+  const state = stateName(region.stateCode);
+  if (!region.city || !state) return location.trim();
+  return `${region.city}, ${state}`;
+}
+
+/**
+ * Re-registration needed when a state-series plate differs from the state the car is bought in
+ */
+export function stateTransfer(car: Pick<CarDetails, 'registration' | 'location'>): StateTransfer | null {
+  const info = parseRegistration(car.registration);
+  const toState = normaliseRegion(car.location).stateCode;
+  if (!info?.stateCode || !toState || info.stateCode === toState) return null;
+
+  const pct = roadTaxPct(toState);
+  return pct === undefined ? null : { fromState: info.stateCode, toState, roadTaxPct: pct };
+}
@@ -0,0 +1,54 @@
+/**
+ * Promise queue with a concurrency limit
+ * Tasks beyond `concurrency` wait their turn; beyond `maxPending` waiting tasks
+ * new ones are refused straight away instead of piling up.
+ */
+
+export class QueueFullError extends Error {
+  constructor() {
+    super('Request queue is full');
+    this.name = 'QueueFullError';
+  }
+}
+
+export interface RequestQueue {
+  run<T>(task: () => Promise<T>): Promise<T>;
+  readonly active: number;
+  readonly pending: number;
+}
+
+export function createRequestQueue(options: { concurrency: number; maxPending: number }): RequestQueue {
+  let active = 0;
+  const waiting: (() => void)[] = [];
+
+  const next = () => {
+    active--;
+    waiting.shift()?.();
+  };
+
+  return {
+    get active() {
+      return active;
+    },
+    get pending() {
+      return waiting.length;
+    },
+    async run<T>(task: () => Promise<T>): Promise<T> {
+      if (active >= options.concurrency) {
+        if (waiting.length >= options.maxPending) {
+          throw new QueueFullError();
+        }
+        // Claimed synchronously in next(), so no other caller can take the slot first
+        await new Promise<void>(resolve => waiting.push(() => { active++; resolve(); }));
+      } else {
+        active++;
+      }
+
+      try {
+        return await task();
+      } finally {
+        next();
+      }
+    },
+  };
+}
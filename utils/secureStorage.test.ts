@@ -0,0 +1,76 @@
+import 'fake-indexeddb/auto';
+import { beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { PassphraseMismatchError, lockEncryption, unlockEncryption } from './encryption';
+import { STORES } from './indexedDb';
+import { secureClear, secureGetAll, secureRekey, secureReset, secureSet } from './secureStorage';
+
+class MemoryStorage {
+  private items = new Map<string, string>();
+  getItem(key: string) { return this.items.get(key) ?? null; }
+  setItem(key: string, value: string) { this.items.set(key, String(value)); }
+  removeItem(key: string) { this.items.delete(key); }
+  clear() { this.items.clear(); }
+}
+
+const logEntry = (id: string, owner: string) =>
+  secureSet(STORES.valuationLog, id, { id, note: `${owner}'s valuation` }, { createdAt: 1, owner });
+
+const readLog = async (owner: string) =>
+  (await secureGetAll<{ id: string }>(STORES.valuationLog, meta => meta.owner === owner)).map(entry => entry.id);
+
+beforeAll(() => {
+  vi.stubGlobal('window', globalThis);
+  vi.stubGlobal('localStorage', new MemoryStorage());
+  vi.stubGlobal('sessionStorage', new MemoryStorage());
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+// Asha saved a valuation under her old password, Ravi one under his own on the same device
+beforeEach(async () => {
+  localStorage.clear();
+  await secureClear(STORES.valuationLog);
+  await unlockEncryption('ravi-password', 'ravi');
+  await logEntry('ravi-1', 'ravi');
+  await unlockEncryption('old-password', 'asha');
+  await logEntry('asha-1', 'asha');
+  await secureSet(STORES.history, 'records', []);
+  lockEncryption();
+});
+
+describe('after a password change', () => {
+  it('refuses to unlock with the new password', async () => {
+    await expect(unlockEncryption('new-password', 'asha')).rejects.toBeInstanceOf(PassphraseMismatchError);
+  });
+
+  it('re-encrypts the owner’s valuation log under the new password', async () => {
+    await secureRekey('asha', 'old-password', 'new-password');
+    expect(await readLog('asha')).toEqual(['asha-1']);
+
+    lockEncryption();
+    await unlockEncryption('new-password', 'asha');
+    expect(await readLog('asha')).toEqual(['asha-1']);
+    await expect(unlockEncryption('old-password', 'asha')).rejects.toBeInstanceOf(PassphraseMismatchError);
+    // Session stores are cleared rather than converted
+    expect(await secureGetAll(STORES.history)).toEqual([]);
+
+    await unlockEncryption('ravi-password', 'ravi');
+    expect(await readLog('ravi')).toEqual(['ravi-1']);
+  });
+
+  it('keeps everything as it was when the previous password is wrong', async () => {
+    await expect(secureRekey('asha', 'guess', 'new-password')).rejects.toBeInstanceOf(PassphraseMismatchError);
+
+    await unlockEncryption('old-password', 'asha');
+    expect(await readLog('asha')).toEqual(['asha-1']);
+  });
+
+  it('can start fresh, deleting only the owner’s entries', async () => {
+    await secureReset('asha', 'new-password');
+    expect(await readLog('asha')).toEqual([]);
+
+    lockEncryption();
+    await unlockEncryption('new-password', 'asha');
+    await unlockEncryption('ravi-password', 'ravi');
+    expect(await readLog('ravi')).toEqual(['ravi-1']);
+  });
+});
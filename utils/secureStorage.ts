@@ -0,0 +1,153 @@
+/**
+ * Encrypted storage layer
+ * Everything the app persists goes through here: values are encrypted with the
+ * session key (see encryption.ts) and written to IndexedDB. Only the id and
+ * small clear-text metadata used for filtering or expiry are stored unencrypted.
+ */
+
+import { beginRekey, clearSecureData, decryptData, encryptData, isEncryptionUnlocked, resetEncryption } from './encryption';
+import { STORES, StoreName, idbClear, idbDelete, idbGet, idbGetAll, idbPut } from './indexedDb';
+
+type Meta = Record<string, string | number>;
+
+interface SecureRecord<M extends Meta> {
+  id: string;
+  meta: M;
+  payload: string; // Versioned AES-GCM envelope
+}
+
+export interface SecureEntry<T, M extends Meta> {
+  id: string;
+  meta: M;
+  value: T;
+}
+
+// Session data is wiped on logout and timeout; the valuation log is kept
+// (still encrypted, unreadable until the next login with the same passphrase)
+const SESSION_STORES: StoreName[] = [STORES.history, STORES.valuationCache];
+
+async function decodeRecord<T>(record: { id: string; payload: string }): Promise<T | null> {
+  try {
+    return JSON.parse(await decryptData(record.payload)) as T;
+  } catch (error) {
+    if (!isEncryptionUnlocked()) throw error;
+    // Unreadable under the current key (or corrupted); skip rather than break the whole store
+    console.warn(`Failed to decrypt record ${record.id}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Encrypt and store a value; throws EncryptionError when locked
+ */
+export async function secureSet<T, M extends Meta = Meta>(
+  store: StoreName,
+  id: string,
+  value: T,
+  meta: M = {} as M
+): Promise<void> {
+  await idbPut<SecureRecord<M>>(store, {
+    id,
+    meta,
+    payload: await encryptData(JSON.stringify(value)),
+  });
+}
+
+export async function secureGet<T>(store: StoreName, id: string): Promise<T | null> {
+  const record = await idbGet<SecureRecord<Meta>>(store, id);
+  return record ? decodeRecord<T>(record) : null;
+}
+
+/**
+ * Decrypt every record whose clear-text metadata passes the filter
+ */
+export async function secureGetAll<T, M extends Meta = Meta>(
+  store: StoreName,
+  filter: (meta: M) => boolean = () => true
+): Promise<SecureEntry<T, M>[]> {
+  const records = await idbGetAll<SecureRecord<M>>(store);
+  const entries: SecureEntry<T, M>[] = [];
+
+  for (const record of records.filter(r => filter(r.meta))) {
+    const value = await decodeRecord<T>(record);
+    if (value !== null) entries.push({ id: record.id, meta: record.meta, value });
+  }
+  return entries;
+}
+
+/**
+ * Ids and metadata only, without decrypting
+ */
+export async function secureListMeta<M extends Meta = Meta>(store: StoreName): Promise<{ id: string; meta: M }[]> {
+  const records = await idbGetAll<SecureRecord<M>>(store);
+  return records.map(record => ({ id: record.id, meta: record.meta }));
+}
+
+/**
+ * Replace the clear-text metadata of a record without touching its payload
+ */
+export async function secureUpdateMeta<M extends Meta>(store: StoreName, id: string, meta: M): Promise<void> {
+  const record = await idbGet<SecureRecord<M>>(store, id);
+  if (record) {
+    await idbPut<SecureRecord<M>>(store, { ...record, meta });
+  }
+}
+
+export async function secureDelete(store: StoreName, id: string): Promise<void> {
+  await idbDelete(store, id);
+}
+
+export async function secureClear(store: StoreName): Promise<void> {
+  await idbClear(store);
+}
+
+/**
+ * Logout / timeout: delete session stores, clear sessionStorage and drop the key
+ * The key is dropped even if deleting a store fails
+ */
+export async function secureWipe(): Promise<void> {
+  try {
+    await Promise.all(SESSION_STORES.map(store => idbClear(store)));
+  } finally {
+    clearSecureData();
+  }
+}
+
+/**
+ * After a password change: re-encrypt this user's valuation log from the old passphrase to
+ * the new one. Session stores are cleared rather than converted. Records that do not open
+ * under the old key are left as they are, so a re-key interrupted before the new verifier is
+ * saved can simply be run again.
+ */
+export async function secureRekey(userId: string, oldPassphrase: string, newPassphrase: string): Promise<void> {
+  const rekey = await beginRekey(oldPassphrase, newPassphrase, userId);
+  const records = await idbGetAll<SecureRecord<Meta>>(STORES.valuationLog);
+
+  const converted: SecureRecord<Meta>[] = [];
+  for (const record of records.filter(r => r.meta.owner === userId)) {
+    try {
+      converted.push({ ...record, payload: await rekey.reencrypt(record.payload) });
+    } catch (error) {
+      console.warn(`Failed to re-encrypt record ${record.id}:`, error);
+    }
+  }
+
+  await Promise.all(SESSION_STORES.map(store => idbClear(store)));
+  for (const record of converted) {
+    await idbPut(STORES.valuationLog, record);
+  }
+  rekey.commit();
+}
+
+/**
+ * Start fresh on this device: delete this user's valuation log and unlock under a new key.
+ * Other users' entries are not touched.
+ */
+export async function secureReset(userId: string, passphrase: string): Promise<void> {
+  const records = await idbGetAll<SecureRecord<Meta>>(STORES.valuationLog);
+  for (const record of records.filter(r => r.meta.owner === userId)) {
+    await idbDelete(STORES.valuationLog, record.id);
+  }
+  await Promise.all(SESSION_STORES.map(store => idbClear(store)));
+  await resetEncryption(passphrase, userId);
+}
@@ -0,0 +1,48 @@
+/**
+ * Inactivity timeout per role
+ * Buyers work on the lot between inspections; managers and admins can see raw
+ * margins and the audit log, so their sessions lock sooner.
+ * Override per role with VITE_SESSION_POLICY, e.g. {"buyer":{"timeoutMinutes":45}}
+ */
+
+import { AuthUser, UserRole } from '../types';
+import { isUserRole } from './permissions';
+
+export interface SessionPolicy {
+  timeoutMinutes: number;
+  warningMinutes: number; // Countdown shown this long before the lock
+}
+
+const DEFAULT_POLICIES: Record<UserRole, SessionPolicy> = {
+  buyer: { timeoutMinutes: 30, warningMinutes: 2 },
+  manager: { timeoutMinutes: 15, warningMinutes: 2 },
+  admin: { timeoutMinutes: 10, warningMinutes: 2 },
+};
+
+function loadPolicies(): Record<UserRole, SessionPolicy> {
+  const policies = { ...DEFAULT_POLICIES };
+  const raw = import.meta.env.VITE_SESSION_POLICY;
+  if (!raw) return policies;
+
+  try {
+    const overrides = JSON.parse(raw);
+    for (const [role, override] of Object.entries(overrides ?? {})) {
+      if (!isUserRole(role) || !override || typeof override !== 'object') continue;
+      const merged = { ...policies[role], ...(override as Partial<SessionPolicy>) };
+      if (merged.timeoutMinutes > 0 && merged.warningMinutes >= 0 && merged.warningMinutes < merged.timeoutMinutes) {
+        policies[role] = merged;
+      } else {
+        console.warn(`Ignoring invalid session policy for ${role}`);
+      }
+    }
+  } catch {
+    console.warn('VITE_SESSION_POLICY is not valid JSON; using default session policy');
+  }
+  return policies;
+}
+
+const SESSION_POLICIES = loadPolicies();
+
+export function sessionPolicyFor(user: Pick<AuthUser, 'role'>): SessionPolicy {
+  return SESSION_POLICIES[user.role];
+}
@@ -0,0 +1,37 @@
+/**
+ * Token count arithmetic shared by the server (per-valuation and per-period
+ * totals) and the browser (session totals)
+ */
+
+import { TokenCounts } from '../types';
+
+export const TOKEN_FIELDS: (keyof TokenCounts)[] = [
+  'promptTokens',
+  'candidatesTokens',
+  'toolUseTokens',
+  'thoughtsTokens',
+  'cachedTokens',
+];
+
+export function emptyTokenCounts(): TokenCounts {
+  return { promptTokens: 0, candidatesTokens: 0, toolUseTokens: 0, thoughtsTokens: 0, cachedTokens: 0 };
+}
+
+/**
+ * a + b; missing or non-numeric counts in b are treated as 0
+ */
+export function addTokenCounts<T extends TokenCounts>(a: T, b: Partial<Record<keyof TokenCounts, unknown>> | undefined): T {
+  const sum = { ...a };
+  TOKEN_FIELDS.forEach(field => {
+    const value = b?.[field];
+    if (typeof value === 'number' && Number.isFinite(value)) sum[field] += value;
+  });
+  return sum;
+}
+
+/**
+ * Tokens billed for the call (prompt + search results + output + thinking)
+ */
+export function totalTokens(counts: TokenCounts): number {
+  return counts.promptTokens + counts.toolUseTokens + counts.candidatesTokens + counts.thoughtsTokens;
+}
@@ -0,0 +1,116 @@
+/**
+ * Persistent valuation log
+ * Every quote is stored encrypted in IndexedDB so buyers can look up what
+ * they quoted a seller last week and re-open or re-run it.
+ */
+
+import { AuthUser, CarDetails, ValuationResult } from '../types';
+import { STORES } from './indexedDb';
+import { secureDelete, secureGet, secureGetAll, secureSet } from './secureStorage';
+
+export type DealStatus = 'bought' | 'lost' | 'passed';
+
+export interface DealOutcome {
+  status: DealStatus;
+  actualPrice?: number; // What we paid, or what the car went for when lost
+  decidedAt: number;
+  soldPrice?: number; // Later retail sale of a bought car
+  soldAt?: number;
+  refurbCost?: number;
+  recordedBy?: string; // Username
+}
+
+export interface ValuationLogEntry {
+  id: string;
+  createdAt: number;
+  car: CarDetails;
+  result: ValuationResult; // Includes grounding sources
+  createdBy: Pick<AuthUser, 'username' | 'name'>;
+  outcome?: DealOutcome;
+}
+
+export interface ValuationLogFilter {
+  owner?: string; // Username; each user's entries are encrypted under their own key
+  query?: string; // Matches brand, model or variant
+  from?: number; // Timestamp, inclusive
+  to?: number; // Timestamp, inclusive
+}
+
+// Kept in clear text so filters do not need to decrypt every entry
+type LogMeta = { createdAt: number; owner: string };
+
+function saveEntry(entry: ValuationLogEntry): Promise<void> {
+  return secureSet<ValuationLogEntry, LogMeta>(STORES.valuationLog, entry.id, entry, {
+    createdAt: entry.createdAt,
+    owner: entry.createdBy.username,
+  });
+}
+
+/**
+ * Append a valuation to the log
+ */
+export async function addValuationLogEntry(
+  car: CarDetails,
+  result: ValuationResult,
+  user: AuthUser
+): Promise<ValuationLogEntry> {
+  const entry: ValuationLogEntry = {
+    id: crypto.randomUUID(),
+    createdAt: Date.now(),
+    car,
+    result,
+    createdBy: { username: user.username, name: user.name },
+  };
+
+  await saveEntry(entry);
+  return entry;
+}
+
+/**
+ * Record what happened after the quote: bought, lost or passed, and later the sale
+ */
+export async function recordDealOutcome(
+  id: string,
+  outcome: DealOutcome | null,
+  user: AuthUser
+): Promise<ValuationLogEntry> {
+  const entry = await getValuationLogEntry(id);
+  if (!entry) {
+    throw new Error(`Valuation log entry ${id} not found`);
+  }
+
+  const updated: ValuationLogEntry = {
+    ...entry,
+    outcome: outcome ? { ...outcome, recordedBy: user.username } : undefined,
+  };
+  await saveEntry(updated);
+  return updated;
+}
+
+export async function getValuationLogEntry(id: string): Promise<ValuationLogEntry | null> {
+  return secureGet<ValuationLogEntry>(STORES.valuationLog, id);
+}
+
+/**
+ * List log entries, newest first, optionally filtered
+ */
+export async function listValuationLog(filter: ValuationLogFilter = {}): Promise<ValuationLogEntry[]> {
+  const query = filter.query?.trim().toLowerCase();
+  const stored = await secureGetAll<ValuationLogEntry, LogMeta>(STORES.valuationLog, meta =>
+    (filter.owner === undefined || meta.owner === filter.owner) &&
+    (filter.from === undefined || meta.createdAt >= filter.from) &&
+    (filter.to === undefined || meta.createdAt <= filter.to));
+
+  return stored
+    .map(s => s.value)
+    .filter(entry => {
+      if (!query) return true;
+      const haystack = `${entry.car.brand} ${entry.car.model} ${entry.car.variant}`.toLowerCase();
+      return query.split(/\s+/).every(term => haystack.includes(term));
+    })
+    .sort((a, b) => b.createdAt - a.createdAt);
+}
+
+export async function deleteValuationLogEntry(id: string): Promise<void> {
+  await secureDelete(STORES.valuationLog, id);
+}
@@ -0,0 +1,138 @@
+/**
+ * Vehicle catalogue
+ * Indian-market makes, models and variants with the fuel/transmission combinations
+ * and production years each was sold with, from the bundled data/vehicleCatalogue.json.
+ * Used to offer only valid options in the car form and to store one spelling per car,
+ * so cache keys and history matching see "Maruti Suzuki" whether the buyer typed
+ * "Maruti" or "MSIL". Cars missing from the catalogue can still be entered as free text.
+ */
+
+import catalogueData from '../data/vehicleCatalogue.json';
+import { CarDetails, FuelType, Transmission } from '../types';
+import { brandKey, compactKey, modelKey } from './nameMatching';
+
+type YearRange = [number, number | null]; // null: still on sale
+
+export interface CataloguePowertrain {
+  fuel: FuelType;
+  transmission: Transmission;
+  years?: YearRange; // When narrower than the variant's
+}
+
+export interface CatalogueVariant {
+  name: string;
+  years: YearRange;
+  powertrains: CataloguePowertrain[];
+}
+
+export interface CatalogueModel {
+  name: string;
+  aliases?: string[];
+  variants: CatalogueVariant[];
+}
+
+export interface CatalogueMake {
+  name: string;
+  models: CatalogueModel[];
+}
+
+export interface VehicleCatalogue {
+  version: string;
+  makes: CatalogueMake[];
+}
+
+export const VEHICLE_CATALOGUE = catalogueData as VehicleCatalogue;
+
+export interface CatalogueMatch {
+  make?: CatalogueMake;
+  model?: CatalogueModel;
+  variant?: CatalogueVariant;
+}
+
+export function findMake(brand: string): CatalogueMake | undefined {
+  const key = brandKey(brand);
+  return key ? VEHICLE_CATALOGUE.makes.find(make => brandKey(make.name) === key) : undefined;
+}
+
+export function findModel(make: CatalogueMake, model: string): CatalogueModel | undefined {
+  const key = modelKey(model);
+  return key
+    ? make.models.find(m => modelKey(m.name) === key || (m.aliases || []).some(alias => modelKey(alias) === key))
+    : undefined;
+}
+
+export function findVariant(model: CatalogueModel, variant: string): CatalogueVariant | undefined {
+  const key = compactKey(variant);
+  return key ? model.variants.find(v => compactKey(v.name) === key) : undefined;
+}
+
+export function matchCatalogue(car: Pick<CarDetails, 'brand' | 'model' | 'variant'>): CatalogueMatch {
+  const make = findMake(car.brand);
+  const model = make && findModel(make, car.model);
+  const variant = model && findVariant(model, car.variant);
+  return { make, model, variant };
+}
+
+/**
+ * Catalogue spelling for each name that matches; unmatched names are kept as typed
+ */
+export function canonicalNames(car: CarDetails): CarDetails {
+  const { make, model, variant } = matchCatalogue(car);
+  return {
+    ...car,
+    brand: make?.name ?? car.brand.trim(),
+    model: model?.name ?? car.model.trim(),
+    variant: variant?.name ?? car.variant.trim(),
+  };
+}
+
+function yearsOf(variant: CatalogueVariant, powertrain?: CataloguePowertrain): number[] {
+  const currentYear = new Date().getFullYear();
+  const [variantFrom, variantTo] = variant.years;
+  const [from, to] = powertrain?.years || variant.years;
+  const first = Math.max(from, variantFrom);
+  const last = Math.min(to ?? currentYear, variantTo ?? currentYear, currentYear);
+
+  const years: number[] = [];
+  for (let year = last; year >= first; year--) years.push(year);
+  return years;
+}
+
+/**
+ * Fuels the variant was sold with
+ */
+export function fuelOptions(variant: CatalogueVariant): FuelType[] {
+  return Array.from(new Set(variant.powertrains.map(p => p.fuel)));
+}
+
+export function transmissionOptions(variant: CatalogueVariant, fuel: FuelType): Transmission[] {
+  return Array.from(new Set(variant.powertrains.filter(p => p.fuel === fuel).map(p => p.transmission)));
+}
+
+/**
+ * Model years for the powertrain, newest first
+ */
+export function yearOptions(variant: CatalogueVariant, fuel: FuelType, transmission: Transmission): number[] {
+  const powertrain = variant.powertrains.find(p => p.fuel === fuel && p.transmission === transmission);
+  return powertrain ? yearsOf(variant, powertrain) : yearsOf(variant);
+}
+
+/**
+ * Move fuel, transmission and year onto the nearest valid combination for a
+ * catalogued variant; other cars are returned unchanged
+ */
+export function fitToVariant(car: CarDetails): CarDetails {
+  const { variant } = matchCatalogue(car);
+  if (!variant) return car;
+
+  const fuels = fuelOptions(variant);
+  const fuel = fuels.includes(car.fuel) ? car.fuel : fuels[0];
+  const transmissions = transmissionOptions(variant, fuel);
+  const transmission = transmissions.includes(car.transmission) ? car.transmission : transmissions[0];
+  const years = yearOptions(variant, fuel, transmission);
+  const year = years.length === 0 || years.includes(car.year)
+    ? car.year
+    : years.reduce((best, y) => (Math.abs(y - car.year) < Math.abs(best - car.year) ? y : best));
+
+  return { ...car, fuel, transmission, year };
+}
@@ -0,0 +1,112 @@
+/**
+ * Vehicle segments
+ * A coarse body-style grouping used where per-model settings would be too fine,
+ * e.g. how long a cached quote stays valid. Unknown models fall into 'other'.
+ */
+
+import { FuelType } from '../types';
+import { brandKey, modelKey } from './nameMatching';
+
+export type VehicleSegment = 'hatchback' | 'sedan' | 'suv' | 'muv' | 'luxury' | 'ev' | 'other';
+
+export const SEGMENT_LABELS: Record<VehicleSegment, string> = {
+  hatchback: 'Hatchback',
+  sedan: 'Sedan',
+  suv: 'SUV',
+  muv: 'MUV',
+  luxury: 'Luxury',
+  ev: 'Electric',
+  other: 'Other',
+};
+
+// Brand keys (see brandKey) whose every model counts as luxury
+const LUXURY_BRANDS = ['mercedesbenz', 'bmw', 'audi', 'volvo', 'jaguar', 'landrover', 'lexus', 'porsche', 'mini'];
+
+// Model keys (see modelKey)
+const MODEL_SEGMENTS: Record<string, VehicleSegment> = {
+  alto: 'hatchback',
+  alto800: 'hatchback',
+  altok10: 'hatchback',
+  wagonr: 'hatchback',
+  celerio: 'hatchback',
+  swift: 'hatchback',
+  baleno: 'hatchback',
+  ignis: 'hatchback',
+  spresso: 'hatchback',
+  i10: 'hatchback',
+  grandi10: 'hatchback',
+  grandi10nios: 'hatchback',
+  i20: 'hatchback',
+  santro: 'hatchback',
+  tiago: 'hatchback',
+  altroz: 'hatchback',
+  kwid: 'hatchback',
+  polo: 'hatchback',
+  jazz: 'hatchback',
+  glanza: 'hatchback',
+  dzire: 'sedan',
+  swiftdzire: 'sedan',
+  ciaz: 'sedan',
+  city: 'sedan',
+  amaze: 'sedan',
+  verna: 'sedan',
+  aura: 'sedan',
+  xcentgrand: 'sedan',
+  tigor: 'sedan',
+  slavia: 'sedan',
+  virtus: 'sedan',
+  rapid: 'sedan',
+  vento: 'sedan',
+  brezza: 'suv',
+  vitarabrezza: 'suv',
+  grandvitara: 'suv',
+  fronx: 'suv',
+  jimny: 'suv',
+  creta: 'suv',
+  venue: 'suv',
+  alcazar: 'suv',
+  tucson: 'suv',
+  exter: 'suv',
+  nexon: 'suv',
+  punch: 'suv',
+  harrier: 'suv',
+  safari: 'suv',
+  xuv300: 'suv',
+  xuv3xo: 'suv',
+  xuv500: 'suv',
+  xuv700: 'suv',
+  scorpio: 'suv',
+  scorpion: 'suv',
+  thar: 'suv',
+  bolero: 'suv',
+  seltos: 'suv',
+  sonet: 'suv',
+  hector: 'suv',
+  astor: 'suv',
+  kushaq: 'suv',
+  taigun: 'suv',
+  kiger: 'suv',
+  magnite: 'suv',
+  ecosport: 'suv',
+  fortuner: 'suv',
+  hyryder: 'suv',
+  urbancruiser: 'suv',
+  elevate: 'suv',
+  wrv: 'suv',
+  ertiga: 'muv',
+  xl6: 'muv',
+  innova: 'muv',
+  innovacrysta: 'muv',
+  innovahycross: 'muv',
+  carens: 'muv',
+  carnival: 'muv',
+  marazzo: 'muv',
+  triber: 'muv',
+  eeco: 'muv',
+};
+
+export function segmentFor(brand: string, model: string, fuel?: FuelType): VehicleSegment {
+  if (fuel === FuelType.ELECTRIC) return 'ev';
+  if (LUXURY_BRANDS.includes(brandKey(brand))) return 'luxury';
+  return MODEL_SEGMENTS[modelKey(model)] || 'other';
+}
@@ -1,14 +1,21 @@
 import path from 'path';
-import { defineConfig } from 'vite';
+import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
+import { devApi } from './server/devApi';
+
+export default defineConfig(({ mode }) => {
+    // Server-only variables (GEMINI_API_KEY etc.) for the dev API; not exposed to the client bundle
+    const env = loadEnv(mode, process.cwd(), '');
+    Object.entries(env).forEach(([key, value]) => {
+      if (process.env[key] === undefined) process.env[key] = value;
+    });
 
-export default defineConfig(() => {
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), devApi()],
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),
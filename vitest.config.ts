@@ -0,0 +1,10 @@
+import { defineConfig } from 'vitest/config';
+
+// Kept apart from vite.config.ts so tests run without the dev API plugin or a local .env
+export default defineConfig({
+  test: {
+    environment: 'node',
+    include: ['**/*.test.ts'],
+    exclude: ['node_modules/**'],
+  },
+});